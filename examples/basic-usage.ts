@@ -3,14 +3,12 @@
  *
  * This example demonstrates:
  * 1. Creating an analyzer instance
- * 2. Loading events from a JSONL file
+ * 2. Streaming events from a JSONL file
  * 3. Finding shortest paths between pubkeys
  * 4. Getting graph statistics
  */
 
 import { DuckDBSocialGraphAnalyzer } from "../src/index.js";
-import type { NostrEvent } from "../src/index.js";
-import { readFileSync } from "fs";
 import { join } from "path";
 
 async function main() {
@@ -23,23 +21,14 @@ async function main() {
   });
 
   try {
-    // Load events from the sample data file
-    console.log("Loading events from socialGraph.jsonl...");
+    // Stream events from the sample data file without loading it into memory
+    console.log("Ingesting events from socialGraph.jsonl...");
     const dataPath = join(process.cwd(), "data", "socialGraph.jsonl");
-    const fileContent = readFileSync(dataPath, "utf-8");
+    const report = await analyzer.ingestJsonlFile(dataPath);
 
-    // Parse JSONL (one JSON object per line)
-    const events: NostrEvent[] = fileContent
-      .split("\n")
-      .filter((line) => line.trim())
-      .map((line) => JSON.parse(line));
-
-    console.log(`Found ${events.length} events\n`);
-
-    // // Ingest all events
-    console.log("Ingesting events into the graph...");
-    await analyzer.ingestEvents(events);
-    console.log("✓ Events ingested successfully\n");
+    console.log(
+      `✓ Ingested ${report.eventsAccepted} of ${report.eventsReceived} events\n`,
+    );
 
     // Get and display statistics
     console.log("Graph Statistics:");
@@ -50,7 +39,7 @@ async function main() {
     console.log(`  Unique events processed: ${stats.uniqueEvents}\n`);
 
     // Example: Find shortest path between two pubkeys
-    if (events.length >= 2) {
+    if (report.eventsAccepted >= 2) {
       const fromPubkey =
         "6e468422dfb74a5738702a8823b9b28168abab8655faacb6853cd0ee15deee93";
       const toPubkey =
@@ -8,6 +8,41 @@ import type {
   SocialPath,
   SocialGraphConfig,
   GraphStats,
+  FollowPage,
+  FollowPageOptions,
+  GraphChange,
+  ImportOptions,
+  IngestionProgress,
+  IngestionReport,
+  Logger,
+  PageRankOptions,
+  PageRankResult,
+  Petname,
+  RelayHint,
+  ScoredPubkey,
+  WotOptions,
+  WotScore,
+  Component,
+  ComponentType,
+  ComponentsResult,
+  KCoreOptions,
+  KCoreResult,
+  ClusteringOptions,
+  GraphStatsOptions,
+  LocalClustering,
+  FollowRecommendation,
+  FollowRecommendationOptions,
+  CommonFollowsOptions,
+  CommonFollowsPage,
+  MostSimilarOptions,
+  Similarity,
+  SimilarityBasis,
+  AllShortestPathsOptions,
+  PathOptions,
+  RootDistanceDirection,
+  RootInfo,
+  RootPathCounts,
+  RootRefreshPolicy,
   SocialGraphAnalyzer as ISocialGraphAnalyzer,
 } from "./types.js";
 import {
@@ -15,18 +50,39 @@ import {
   setupSchema,
   getTableStats,
   pubkeyExists,
+  getMutedBy,
+  getMuting,
+  isMuted,
+  getFollowing,
+  getFollowers,
+  getCommonFollowers,
+  getCommonFollowing,
+  getRelayHints,
+  getPetnames,
 } from "./database.js";
 import {
   ingestEvent as ingestSingleEvent,
   ingestEvents as ingestMultipleEvents,
+  ingestStream as ingestEventStream,
+  ingestJsonlFile as ingestEventsFromJsonlFile,
+  importFromFile as importEventsFromFile,
+  getFollowListsUpdatedSince,
+  getChangesSince,
+  type IngestionOptions,
+  type IngestionResult,
 } from "./ingestion.js";
 import {
   findShortestPath,
   findShortestDistance,
+  findAllShortestPaths,
+  countShortestPaths,
+  hasPathConstraints,
   getUsersWithinDistance,
   getAllUniquePubkeys,
   buildRootDistancesTable,
   getDistanceFromRoot,
+  getPathFromRoot,
+  getPathCountsFromRoot,
   isDirectFollow,
   areMutualFollows,
   getPubkeyDegree,
@@ -36,11 +92,54 @@ import {
   getDistancesFromRootBatch,
   getDistancesBatchBidirectional,
   updateRootDistancesDelta,
+  isRootTableStale,
+  replayRootDistancesDelta,
+  getRootMetadataKey,
+  getRootDistanceTable,
   getMetadataValue,
   setMetadataValue,
 } from "./graph-analysis.js";
+import {
+  computePageRank,
+  computeTrustScores,
+  getPageRank,
+  getTopByPageRank,
+  getTrustScores,
+  getTrustSeedsKey,
+} from "./centrality.js";
+import {
+  computeComponents,
+  getComponent,
+  getComponentSizes,
+  getLargestComponent,
+} from "./components.js";
+import {
+  getLocalClustering,
+  getTransitivity,
+  resolveClusteringMode,
+} from "./clustering.js";
+import { getFollowRecommendations } from "./recommendations.js";
+import { getMostSimilar, getSimilarity } from "./similarity.js";
+import { computeKCore, getCoreNumber, getKCoreMembers } from "./kcore.js";
+import {
+  computeWotScores,
+  getWotConfigKey,
+  getWotScore,
+  resolveWotOptions,
+} from "./wot.js";
+import {
+  buildRoot,
+  evictLeastRecentlyUsedRoots,
+  getRegisteredRoots,
+  getRootDistance,
+  listRoots,
+  rebuildRoots,
+  removeRoot,
+  touchRoots,
+  updateRootsDelta,
+} from "./roots.js";
 import { normalizePubkey } from "./parser.js";
-import { executeWithRetry } from "./utils.js";
+import { defaultLogger, executeWithRetry } from "./utils.js";
 
 /**
  * DuckDB-based Social Graph Analyzer for Nostr Kind 3 events
@@ -57,6 +156,18 @@ export class DuckDBSocialGraphAnalyzer
   private closed: boolean = false;
   private rootPubkey: string | null = null;
   private rootTableValid: boolean = false;
+  private inboundTableValid: boolean = false;
+  private rootRefresh: RootRefreshPolicy;
+  private maxRoots: number;
+  private registeredRoots: Map<string, number> | null = null;
+  private pendingRootUses: Set<string> = new Set();
+  private rootsValid: boolean = true;
+  private trustSeeds: string[];
+  private wotOptions: Required<WotOptions>;
+  private rootScoresValid: boolean = false;
+  private verifySignatures: boolean;
+  private logger: Logger;
+  private onProgress?: (progress: IngestionProgress) => void;
 
   /**
    * Private constructor - use static create() or connect() methods instead
@@ -64,11 +175,30 @@ export class DuckDBSocialGraphAnalyzer
   private constructor(
     instance: DuckDBInstance | null,
     connection: DuckDBConnection,
-    maxDepth: number,
+    config: Omit<SocialGraphConfig, "dbPath" | "rootPubkey">,
   ) {
     this.instance = instance;
     this.connection = connection;
-    this.maxDepth = maxDepth;
+    this.maxDepth = config.maxDepth ?? 6;
+    this.rootRefresh = config.rootRefresh ?? "rebuild-if-stale";
+    if (
+      !["reuse", "rebuild-if-stale", "delta-since-last-build"].includes(
+        this.rootRefresh,
+      )
+    ) {
+      throw new Error(
+        "rootRefresh must be 'reuse', 'rebuild-if-stale' or 'delta-since-last-build'",
+      );
+    }
+    this.verifySignatures = config.verifySignatures ?? false;
+    this.logger = config.logger ?? defaultLogger;
+    this.onProgress = config.onProgress;
+    this.trustSeeds = (config.trustSeeds ?? []).map(normalizePubkey);
+    this.wotOptions = resolveWotOptions(config.wot);
+    this.maxRoots = config.maxRoots ?? 100;
+    if (!Number.isInteger(this.maxRoots) || this.maxRoots < 1) {
+      throw new Error("maxRoots must be a positive integer");
+    }
   }
 
   /**
@@ -81,7 +211,7 @@ export class DuckDBSocialGraphAnalyzer
   static async create(
     config: SocialGraphConfig = {},
   ): Promise<DuckDBSocialGraphAnalyzer> {
-    const { dbPath = ":memory:", maxDepth = 6, rootPubkey } = config;
+    const { dbPath = ":memory:", rootPubkey } = config;
 
     // Initialize database
     const instance = await initializeDatabase(dbPath);
@@ -93,7 +223,7 @@ export class DuckDBSocialGraphAnalyzer
     const analyzer = new DuckDBSocialGraphAnalyzer(
       instance,
       connection,
-      maxDepth,
+      config,
     );
 
     // Setup schema
@@ -114,89 +244,309 @@ export class DuckDBSocialGraphAnalyzer
    * enabling integration with applications that already use DuckDB for other purposes.
    *
    * @param connection - Existing DuckDB connection
-   * @param maxDepth - Maximum search depth for paths (default: 6)
+   * @param options - Maximum search depth for paths (default: 6), or configuration options (dbPath is ignored)
+   * @param rootPubkey - Root pubkey for optimized distance calculations (when options is a number)
    * @returns Promise resolving to a new analyzer instance
    *
    */
   static async connect(
     connection: DuckDBConnection,
-    maxDepth: number = 6,
+    options: number | Omit<SocialGraphConfig, "dbPath"> = 6,
     rootPubkey?: string,
   ): Promise<DuckDBSocialGraphAnalyzer> {
+    // Support the legacy (maxDepth, rootPubkey) signature alongside a config object
+    const config: Omit<SocialGraphConfig, "dbPath"> =
+      typeof options === "number" ? { maxDepth: options, rootPubkey } : options;
+
     // Create analyzer instance with external connection
-    const analyzer = new DuckDBSocialGraphAnalyzer(null, connection, maxDepth);
+    const analyzer = new DuckDBSocialGraphAnalyzer(null, connection, config);
 
     // Setup schema on the external connection
     await setupSchema(connection);
 
     // Set root pubkey if provided
-    if (rootPubkey) {
-      await analyzer.setRootPubkey(rootPubkey);
+    if (config.rootPubkey) {
+      await analyzer.setRootPubkey(config.rootPubkey);
     }
 
     return analyzer;
   }
 
   /**
-   * Ingests a single Kind 3 Nostr event into the graph
+   * Ingests a single Kind 3 (follow list) or Kind 10000 (mute list) Nostr event into the graph
    *
-   * @param event - The Nostr Kind 3 event to ingest
-   * @throws Error if the event is invalid or the analyzer is closed
+   * @param event - The Nostr Kind 3 or Kind 10000 event to ingest
+   * @returns Promise resolving to a report of the ingestion
+   * @throws Error if the analyzer is closed
    */
-  async ingestEvent(event: NostrEvent): Promise<void> {
+  async ingestEvent(event: NostrEvent): Promise<IngestionReport> {
     if (this.closed) {
       throw new Error("Analyzer has been closed");
     }
 
-    await ingestSingleEvent(this.connection, event);
+    const startTime = performance.now();
+    const result = await this.runPartialIngestion(() =>
+      ingestSingleEvent(this.connection, event, this.getIngestionOptions()),
+    );
+    return this.finishIngestion(result, startTime);
+  }
 
-    // Update root distances with delta if table is valid
-    if (this.rootPubkey && this.rootTableValid) {
-      try {
-        await updateRootDistancesDelta(this.connection, [event.pubkey]);
-      } catch (error) {
-        console.error(
-          "Delta update failed, marking root table as invalid:",
-          error,
-        );
-        this.rootTableValid = false;
-      }
+  /**
+   * Ingests multiple Kind 3 (follow list) or Kind 10000 (mute list) Nostr events into the graph
+   *
+   * Events are deduplicated by pubkey and kind, keeping only the latest event
+   * for each pubkey based on the created_at timestamp.
+   *
+   * @param events - Array of Nostr Kind 3 or Kind 10000 events to ingest
+   * @returns Promise resolving to a report of the ingestion
+   * @throws Error if the analyzer is closed
+   *
+   */
+  async ingestEvents(events: NostrEvent[]): Promise<IngestionReport> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
     }
+
+    const startTime = performance.now();
+    const result = await this.runPartialIngestion(() =>
+      ingestMultipleEvents(this.connection, events, this.getIngestionOptions()),
+    );
+    return this.finishIngestion(result, startTime);
   }
 
   /**
-   * Ingests multiple Kind 3 Nostr events into the graph
+   * Ingests Kind 3 and Kind 10000 events from an async source in bounded memory
    *
-   * Events are deduplicated by pubkey, keeping only the latest event
-   * for each pubkey based on the created_at timestamp.
+   * Events are consumed in chunks, so sources far larger than available memory
+   * can be ingested. Latest-wins semantics apply across the whole source, and
+   * root distances are updated once after the source is exhausted.
+   *
+   * @param source - Async iterable yielding Nostr Kind 3 or Kind 10000 events
+   * @returns Promise resolving to a report of the ingestion
+   * @throws Error if the analyzer is closed
+   *
+   * @example
+   * ```typescript
+   * async function* fetchEvents() {
+   *   for await (const event of relaySubscription) yield event;
+   * }
+   * const report = await analyzer.ingestStream(fetchEvents());
+   * ```
+   */
+  async ingestStream(
+    source: AsyncIterable<NostrEvent>,
+  ): Promise<IngestionReport> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+
+    const startTime = performance.now();
+    const result = await this.runPartialIngestion(() =>
+      ingestEventStream(this.connection, source, this.getIngestionOptions()),
+    );
+    return this.finishIngestion(result, startTime);
+  }
+
+  /**
+   * Ingests Kind 3 and Kind 10000 events from a JSONL file in bounded memory
+   *
+   * The file must contain one JSON-encoded event per line. It is read
+   * incrementally, so multi-gigabyte dumps can be ingested.
+   *
+   * @param path - Path to the JSONL file
+   * @returns Promise resolving to a report of the ingestion
+   * @throws Error if a line is not valid JSON or the analyzer is closed
+   */
+  async ingestJsonlFile(path: string): Promise<IngestionReport> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+
+    const startTime = performance.now();
+    const result = await this.runPartialIngestion(() =>
+      ingestEventsFromJsonlFile(
+        this.connection,
+        path,
+        this.getIngestionOptions(),
+      ),
+    );
+    return this.finishIngestion(result, startTime);
+  }
+
+  /**
+   * Bulk imports Kind 3 and Kind 10000 events from a JSONL or Parquet file
+   *
+   * DuckDB scans the file directly and replaces the lists with set-based
+   * statements, which is much faster than event-by-event ingestion for
+   * initial loads. Latest-wins semantics apply within the file and against
+   * already stored events. Signatures are not verified, so this method
+   * refuses to run when `verifySignatures` is enabled.
    *
-   * @param events - Array of Nostr Kind 3 events to ingest
-   * @throws Error if any event is invalid or the analyzer is closed
+   * The root distances table, if configured, is rebuilt after the import, and
+   * trust scores are recomputed on their next use if any list was replaced.
    *
+   * @param path - Path to the JSONL or Parquet file
+   * @param options - Import options
+   * @returns Promise resolving to a report of the import
+   * @throws Error if the file cannot be read, signature verification is enabled or the analyzer is closed
+   *
+   * @example
+   * ```typescript
+   * await analyzer.importFromFile("./kind3-dump.parquet", { format: "parquet" });
+   * ```
+   */
+  async importFromFile(
+    path: string,
+    options: ImportOptions = {},
+  ): Promise<IngestionReport> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    if (this.verifySignatures) {
+      throw new Error(
+        "Bulk imports do not verify signatures; use ingestJsonlFile() when verifySignatures is enabled",
+      );
+    }
+
+    const startTime = performance.now();
+    const report = await importEventsFromFile(
+      this.connection,
+      path,
+      options,
+      this.logger,
+    );
+
+    // Bulk imports replace too many lists for delta updates to pay off
+    if (report.followsInserted + report.followsRemoved > 0) {
+      if (this.rootPubkey) {
+        await this.rebuildRootDistances();
+      }
+      this.rootsValid = false;
+    }
+    if (report.eventsAccepted > 0) {
+      this.rootScoresValid = false;
+    }
+
+    report.durationMs = performance.now() - startTime;
+    return report;
+  }
+
+  /**
+   * Gets the follow and mute list replacements recorded after a sequence number
+   *
+   * Every accepted list, whether ingested or bulk imported, appends one change
+   * to the log. Subscribers keep the last sequence number they processed and
+   * poll from it, following up with further calls while full pages come back.
+   *
+   * @param seq - Sequence number of the last change already seen (0 for all changes)
+   * @param limit - Maximum number of changes to return (default: 1000)
+   * @returns Promise resolving to the changes in sequence order
    */
-  async ingestEvents(events: NostrEvent[]): Promise<void> {
+  async getChangesSince(
+    seq: number,
+    limit: number = 1000,
+  ): Promise<GraphChange[]> {
     if (this.closed) {
       throw new Error("Analyzer has been closed");
     }
+    return getChangesSince(this.connection, seq, limit);
+  }
+
+  /**
+   * Runs an ingestion that may commit some chunks before failing
+   * Root distances cannot be patched after a partial failure, so the table
+   * is marked invalid and rebuilt on next use.
+   * @private
+   */
+  private async runPartialIngestion(
+    ingest: () => Promise<IngestionResult>,
+  ): Promise<IngestionResult> {
+    try {
+      return await ingest();
+    } catch (error) {
+      this.rootTableValid = false;
+      this.inboundTableValid = false;
+      this.rootsValid = false;
+      this.rootScoresValid = false;
+      throw error;
+    }
+  }
 
-    await ingestMultipleEvents(this.connection, events);
+  /**
+   * Builds the ingestion options from the analyzer configuration
+   * @private
+   */
+  private getIngestionOptions(): IngestionOptions {
+    return {
+      verifySignatures: this.verifySignatures,
+      logger: this.logger,
+      onProgress: this.onProgress,
+    };
+  }
 
+  /**
+   * Applies root distance delta updates for an ingestion and finalizes its report
+   * @private
+   */
+  private async finishIngestion(
+    result: IngestionResult,
+    startTime: number,
+  ): Promise<IngestionReport> {
     // Update root distances with delta if table is valid
+    // Only accepted follow lists are reported, so mute lists never trigger updates
     if (this.rootPubkey && this.rootTableValid) {
       try {
-        // Get unique pubkeys that were updated (deduplicate by pubkey)
-        const updatedPubkeys = [
-          ...new Set(events.map((event) => event.pubkey)),
-        ];
-        await updateRootDistancesDelta(this.connection, updatedPubkeys);
+        await updateRootDistancesDelta(
+          this.connection,
+          result.updatedFollowers,
+          result.removedFollows,
+        );
       } catch (error) {
-        console.error(
+        this.logger.error(
           "Delta update failed, marking root table as invalid:",
           error,
         );
         this.rootTableValid = false;
       }
     }
+    if (this.rootPubkey && this.inboundTableValid) {
+      try {
+        await updateRootDistancesDelta(
+          this.connection,
+          result.updatedFollowers,
+          result.removedFollows,
+          "inbound",
+        );
+      } catch (error) {
+        this.logger.error(
+          "Inbound delta update failed, marking inbound root table as invalid:",
+          error,
+        );
+        this.inboundTableValid = false;
+      }
+    }
+    if (this.rootsValid && this.registeredRoots?.size !== 0) {
+      try {
+        await updateRootsDelta(
+          this.connection,
+          result.updatedFollowers,
+          result.removedFollows,
+        );
+      } catch (error) {
+        this.logger.error(
+          "Registered roots delta update failed, marking them as invalid:",
+          error,
+        );
+        this.rootsValid = false;
+      }
+    }
+    // Web-of-trust scores depend on mutes too, so any replaced list counts
+    if (result.report.affectedPubkeys.length > 0) {
+      this.rootScoresValid = false;
+    }
+
+    result.report.durationMs = performance.now() - startTime;
+    return result.report;
   }
 
   /**
@@ -205,9 +555,13 @@ export class DuckDBSocialGraphAnalyzer
    * Uses DuckDB's recursive CTE with USING KEY for efficient traversal.
    * Returns null if no path exists within the maximum depth.
    *
+   * Paths from the root pubkey, and to it once inbound distances are in use,
+   * walk up the parents stored in the root distances tables instead.
+   *
    * @param fromPubkey - Starting pubkey (64-character hex string)
    * @param toPubkey - Target pubkey (64-character hex string)
    * @param maxDepth - Maximum search depth (defaults to analyzer's maxDepth)
+   * @param options - Pubkeys and follows the path must avoid
    * @returns Promise resolving to the shortest path, or null if no path exists
    *
    */
@@ -215,12 +569,47 @@ export class DuckDBSocialGraphAnalyzer
     fromPubkey: string,
     toPubkey: string,
     maxDepth?: number,
+    options: PathOptions = {},
   ): Promise<SocialPath | null> {
     if (this.closed) {
       throw new Error("Analyzer has been closed");
     }
     const depth = maxDepth ?? this.maxDepth;
-    return findShortestPath(this.connection, fromPubkey, toPubkey, depth);
+
+    if (this.rootPubkey && !hasPathConstraints(options)) {
+      if (normalizePubkey(fromPubkey) === this.rootPubkey) {
+        // Rebuild table if invalid
+        if (!this.rootTableValid) {
+          await buildRootDistancesTable(
+            this.connection,
+            this.rootPubkey,
+            this.maxDepth,
+          );
+          this.rootTableValid = true;
+        }
+        const path = await getPathFromRoot(this.connection, toPubkey);
+        return path && path.distance <= depth ? path : null;
+      }
+      if (
+        this.inboundTableValid &&
+        normalizePubkey(toPubkey) === this.rootPubkey
+      ) {
+        const path = await getPathFromRoot(
+          this.connection,
+          fromPubkey,
+          "inbound",
+        );
+        return path && path.distance <= depth ? path : null;
+      }
+    }
+
+    return findShortestPath(
+      this.connection,
+      fromPubkey,
+      toPubkey,
+      depth,
+      options,
+    );
   }
 
   /**
@@ -228,10 +617,14 @@ export class DuckDBSocialGraphAnalyzer
    *
    * This is a performance-optimized version that only returns the distance,
    * skipping the expensive path reconstruction. It's 2-3x faster than getShortestPath.
+   * Constrained queries can't use the root distances table and search the
+   * filtered follows instead. Registered roots answer from their distances,
+   * falling back to a search for pubkeys beyond their own depth.
    *
    * @param fromPubkey - Starting pubkey (64-character hex string)
    * @param toPubkey - Target pubkey (64-character hex string)
    * @param maxDepth - Maximum search depth (defaults to analyzer's maxDepth)
+   * @param options - Pubkeys and follows the path must avoid
    * @returns Promise resolving to the distance, or null if no path exists
    *
    */
@@ -239,11 +632,24 @@ export class DuckDBSocialGraphAnalyzer
     fromPubkey: string,
     toPubkey: string,
     maxDepth?: number,
+    options: PathOptions = {},
   ): Promise<number | null> {
     if (this.closed) {
       throw new Error("Analyzer has been closed");
     }
     const depth = maxDepth ?? this.maxDepth;
+
+    if (hasPathConstraints(options)) {
+      const path = await findShortestPath(
+        this.connection,
+        fromPubkey,
+        toPubkey,
+        depth,
+        options,
+      );
+      return path ? path.distance : null;
+    }
+
     const normalizedFrom = normalizePubkey(fromPubkey);
 
     // If fromPubkey matches the rootPubkey, use the optimized path
@@ -257,13 +663,108 @@ export class DuckDBSocialGraphAnalyzer
         );
         this.rootTableValid = true;
       }
-      return getDistanceFromRoot(this.connection, toPubkey);
+      const distance = await getDistanceFromRoot(this.connection, toPubkey);
+      return distance !== null && distance <= depth ? distance : null;
+    }
+
+    // Registered roots have their distances at hand too, up to their own depth
+    const roots = await this.getRootRegistry();
+    const rootDepth = roots.get(normalizedFrom);
+    if (rootDepth !== undefined) {
+      this.markRootUsed(normalizedFrom);
+      const distance = await getRootDistance(
+        this.connection,
+        normalizedFrom,
+        normalizePubkey(toPubkey),
+      );
+      if (distance !== null) {
+        return distance <= depth ? distance : null;
+      }
+      if (depth <= rootDepth) {
+        return null;
+      }
     }
 
     // Otherwise, use the standard bidirectional search
     return findShortestDistance(this.connection, fromPubkey, toPubkey, depth);
   }
 
+  /**
+   * Finds every shortest path between two pubkeys
+   *
+   * Useful to explain a connection ("you are connected via these people").
+   * Paths are listed in lexicographic order and capped at `maxPaths`, since
+   * well connected pubkeys can be joined by a very large number of paths.
+   *
+   * @param fromPubkey - Starting pubkey (64-character hex string)
+   * @param toPubkey - Target pubkey (64-character hex string)
+   * @param options - Maximum number of paths (default: 100), search depth (defaults to analyzer's maxDepth) and pubkeys and follows the paths must avoid
+   * @returns Promise resolving to the shortest paths, empty if no path exists
+   *
+   */
+  async getAllShortestPaths(
+    fromPubkey: string,
+    toPubkey: string,
+    options: AllShortestPathsOptions = {},
+  ): Promise<SocialPath[]> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    const {
+      maxPaths = 100,
+      maxDepth = this.maxDepth,
+      ...pathOptions
+    } = options;
+    return findAllShortestPaths(
+      this.connection,
+      fromPubkey,
+      toPubkey,
+      maxDepth,
+      maxPaths,
+      pathOptions,
+    );
+  }
+
+  /**
+   * Counts the shortest paths between two pubkeys without listing them
+   *
+   * @param fromPubkey - Starting pubkey (64-character hex string)
+   * @param toPubkey - Target pubkey (64-character hex string)
+   * @param maxDepth - Maximum search depth (defaults to analyzer's maxDepth)
+   * @param options - Pubkeys and follows the paths must avoid
+   * @returns Promise resolving to the number of shortest paths, 0 if no path exists
+   *
+   */
+  async countShortestPaths(
+    fromPubkey: string,
+    toPubkey: string,
+    maxDepth?: number,
+    options: PathOptions = {},
+  ): Promise<number> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    const depth = maxDepth ?? this.maxDepth;
+
+    // The root distances table counts the paths from the root
+    if (
+      this.rootPubkey &&
+      !hasPathConstraints(options) &&
+      normalizePubkey(fromPubkey) === this.rootPubkey
+    ) {
+      const counts = await this.getRootPathCounts(toPubkey);
+      return counts ? counts.paths : 0;
+    }
+
+    return countShortestPaths(
+      this.connection,
+      fromPubkey,
+      toPubkey,
+      depth,
+      options,
+    );
+  }
+
   /**
    * Gets the shortest distances from a source pubkey to multiple target pubkeys in batch
    *
@@ -344,15 +845,60 @@ export class DuckDBSocialGraphAnalyzer
     return getUsersWithinDistance(this.connection, fromPubkey, distance);
   }
 
+  /**
+   * Get the length of the shortest follow chain from a pubkey to the root pubkey
+   *
+   * This method requires a root pubkey to be set. The inbound distances are
+   * computed over reversed follows on first use and kept up to date by
+   * ingestion from then on.
+   *
+   * @param pubkey - Pubkey whose follows lead to the root (64-character hex string)
+   * @returns Promise resolving to the distance, or null if the root is not reachable within maxDepth
+   */
+  async getInboundDistanceToRoot(pubkey: string): Promise<number | null> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+
+    if (!this.rootPubkey) {
+      throw new Error(
+        "Root pubkey must be set to use getInboundDistanceToRoot",
+      );
+    }
+
+    await this.ensureInboundTable(this.rootPubkey);
+    return getDistanceFromRoot(this.connection, pubkey, "inbound");
+  }
+
+  /**
+   * Builds the inbound root distances table unless it is up to date
+   * @private
+   */
+  private async ensureInboundTable(rootPubkey: string): Promise<void> {
+    if (!this.inboundTableValid) {
+      await buildRootDistancesTable(
+        this.connection,
+        rootPubkey,
+        this.maxDepth,
+        "inbound",
+      );
+      this.inboundTableValid = true;
+    }
+  }
+
   /**
    * Get all users exactly at a specific distance from the root pubkey
    *
    * This method requires a root pubkey to be set.
    *
    * @param distance - The exact distance in hops
+   * @param direction - Distances from the root (default: "outbound") or to the root ("inbound")
    * @returns Promise resolving to array of pubkeys
    */
-  async getUsersAtDistance(distance: number): Promise<string[]> {
+  async getUsersAtDistance(
+    distance: number,
+    direction: RootDistanceDirection = "outbound",
+  ): Promise<string[]> {
     if (this.closed) {
       throw new Error("Analyzer has been closed");
     }
@@ -361,8 +907,10 @@ export class DuckDBSocialGraphAnalyzer
       throw new Error("Root pubkey must be set to use getUsersAtDistance");
     }
 
-    // Rebuild table if invalid
-    if (!this.rootTableValid) {
+    if (direction === "inbound") {
+      await this.ensureInboundTable(this.rootPubkey);
+    } else if (!this.rootTableValid) {
+      // Rebuild table if invalid
       await buildRootDistancesTable(
         this.connection,
         this.rootPubkey,
@@ -371,7 +919,7 @@ export class DuckDBSocialGraphAnalyzer
       this.rootTableValid = true;
     }
 
-    return getUsersAtDistanceFromRoot(this.connection, distance);
+    return getUsersAtDistanceFromRoot(this.connection, distance, direction);
   }
 
   /**
@@ -379,9 +927,12 @@ export class DuckDBSocialGraphAnalyzer
    *
    * This method requires a root pubkey to be set.
    *
+   * @param direction - Distances from the root (default: "outbound") or to the root ("inbound")
    * @returns Promise resolving to a map of distance -> count
    */
-  async getDistanceDistribution(): Promise<Record<number, number>> {
+  async getDistanceDistribution(
+    direction: RootDistanceDirection = "outbound",
+  ): Promise<Record<number, number>> {
     if (this.closed) {
       throw new Error("Analyzer has been closed");
     }
@@ -390,8 +941,10 @@ export class DuckDBSocialGraphAnalyzer
       throw new Error("Root pubkey must be set to use getDistanceDistribution");
     }
 
-    // Rebuild table if invalid
-    if (!this.rootTableValid) {
+    if (direction === "inbound") {
+      await this.ensureInboundTable(this.rootPubkey);
+    } else if (!this.rootTableValid) {
+      // Rebuild table if invalid
       await buildRootDistancesTable(
         this.connection,
         this.rootPubkey,
@@ -400,49 +953,215 @@ export class DuckDBSocialGraphAnalyzer
       this.rootTableValid = true;
     }
 
-    return getRootDistanceDistribution(this.connection);
+    return getRootDistanceDistribution(this.connection, direction);
   }
 
   /**
-   * Gets all unique pubkeys in the social graph (both followers and followed)
-   *
-   * This method efficiently retrieves all pubkeys that appear in the graph,
-   * either as followers (outgoing edges) or followed (incoming edges).
+   * Gets the number of parents and shortest paths between the root pubkey and a pubkey
    *
-   * @returns Promise resolving to array of all unique pubkeys in the graph
+   * A pubkey reachable through many follows of the root is better vouched for
+   * than one at the same distance reachable through a single follow. Counts
+   * are kept in the root distances tables, so this is a lookup.
+   * This method requires a root pubkey to be set.
    *
+   * @param pubkey - Target pubkey (64-character hex string)
+   * @param direction - Paths from the root (default: "outbound") or to the root ("inbound")
+   * @returns Promise resolving to the counts, or null if not within maxDepth of the root
    */
-  async getAllUniquePubkeys(): Promise<string[]> {
+  async getRootPathCounts(
+    pubkey: string,
+    direction: RootDistanceDirection = "outbound",
+  ): Promise<RootPathCounts | null> {
     if (this.closed) {
       throw new Error("Analyzer has been closed");
     }
-    return getAllUniquePubkeys(this.connection);
+
+    if (!this.rootPubkey) {
+      throw new Error("Root pubkey must be set to use getRootPathCounts");
+    }
+
+    if (direction === "inbound") {
+      await this.ensureInboundTable(this.rootPubkey);
+    } else if (!this.rootTableValid) {
+      // Rebuild table if invalid
+      await buildRootDistancesTable(
+        this.connection,
+        this.rootPubkey,
+        this.maxDepth,
+      );
+      this.rootTableValid = true;
+    }
+
+    return getPathCountsFromRoot(this.connection, pubkey, direction);
   }
 
   /**
-   * Gets statistics about the current social graph
+   * Registers a root whose distances are kept up to date on ingestion
    *
-   * @returns Promise resolving to graph statistics
+   * Unlike the single root pubkey, any number of roots can be registered,
+   * after which getShortestDistance() from them is a lookup. Re-adding a
+   * root marks it as used. The least recently used roots beyond `maxRoots`
+   * are evicted.
+   *
+   * @param pubkey - Root pubkey (64-character hex string)
+   * @param maxDepth - Depth to compute distances to (defaults to analyzer's maxDepth)
+   * @returns Promise resolving to the pubkeys of evicted roots
    *
    * @example
    * ```typescript
-   * const stats = await analyzer.getStats();
-   * console.log(`Total follows: ${stats.totalFollows}`);
-   * console.log(`Unique users: ${stats.uniqueFollowers}`);
+   * await analyzer.addRoot(userPubkey);
+   * const distance = await analyzer.getShortestDistance(userPubkey, otherPubkey);
    * ```
    */
-  async getStats(): Promise<GraphStats> {
+  async addRoot(pubkey: string, maxDepth?: number): Promise<string[]> {
     if (this.closed) {
       throw new Error("Analyzer has been closed");
     }
-    return getTableStats(this.connection);
+    const depth = maxDepth ?? this.maxDepth;
+    if (!Number.isInteger(depth) || depth < 1) {
+      throw new Error("maxDepth must be a positive integer");
+    }
+    const normalizedPubkey = normalizePubkey(pubkey);
+
+    const roots = await this.getRootRegistry();
+    // Earlier uses are recorded first so they stay older than this one
+    await this.flushRootUses();
+    if (roots.get(normalizedPubkey) === depth) {
+      await touchRoots(this.connection, [normalizedPubkey]);
+    } else {
+      await buildRoot(this.connection, normalizedPubkey, depth);
+      roots.set(normalizedPubkey, depth);
+    }
+
+    const evicted = await evictLeastRecentlyUsedRoots(
+      this.connection,
+      this.maxRoots,
+    );
+    for (const root of evicted) {
+      roots.delete(root);
+    }
+    return evicted;
   }
 
   /**
-   * Checks if a pubkey exists in the graph (either as follower or followed)
-   *
-   * @param pubkey - The pubkey to check
-   * @returns Promise resolving to true if the pubkey exists
+   * Unregisters a root and drops its distances
+   *
+   * @param pubkey - Root pubkey (64-character hex string)
+   * @returns Promise resolving to true if the root was registered
+   */
+  async removeRoot(pubkey: string): Promise<boolean> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    const normalizedPubkey = normalizePubkey(pubkey);
+
+    const removed = await removeRoot(this.connection, normalizedPubkey);
+    this.registeredRoots?.delete(normalizedPubkey);
+    this.pendingRootUses.delete(normalizedPubkey);
+    return removed;
+  }
+
+  /**
+   * Lists the registered roots, most recently used first
+   *
+   * @returns Promise resolving to the registered roots
+   */
+  async listRoots(): Promise<RootInfo[]> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    await this.getRootRegistry();
+    await this.flushRootUses();
+    return listRoots(this.connection);
+  }
+
+  /**
+   * Remembers that a registered root was used
+   *
+   * Lookups stay read-only: uses are written to the registry in one go when
+   * the usage order matters, on eviction, listing and close.
+   * @private
+   */
+  private markRootUsed(root: string): void {
+    // Re-inserting moves the root to the end, as the most recently used
+    this.pendingRootUses.delete(root);
+    this.pendingRootUses.add(root);
+  }
+
+  /**
+   * Writes the pending root uses to the registry
+   * @private
+   */
+  private async flushRootUses(): Promise<void> {
+    const roots = [...this.pendingRootUses];
+    this.pendingRootUses.clear();
+    await touchRoots(this.connection, roots);
+  }
+
+  /**
+   * Loads the registered roots, rebuilding their distances if they are invalid
+   * @private
+   */
+  private async getRootRegistry(): Promise<Map<string, number>> {
+    if (!this.registeredRoots) {
+      this.registeredRoots = await getRegisteredRoots(this.connection);
+    }
+    if (!this.rootsValid) {
+      await rebuildRoots(this.connection);
+      this.rootsValid = true;
+    }
+    return this.registeredRoots;
+  }
+
+  /**
+   * Gets all unique pubkeys in the social graph (both followers and followed)
+   *
+   * This method efficiently retrieves all pubkeys that appear in the graph,
+   * either as followers (outgoing edges) or followed (incoming edges).
+   *
+   * @returns Promise resolving to array of all unique pubkeys in the graph
+   *
+   */
+  async getAllUniquePubkeys(): Promise<string[]> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getAllUniquePubkeys(this.connection);
+  }
+
+  /**
+   * Gets statistics about the current social graph
+   *
+   * @param options - Set `transitivity` to also count triangles over the whole graph
+   * @returns Promise resolving to graph statistics
+   *
+   * @example
+   * ```typescript
+   * const stats = await analyzer.getStats();
+   * console.log(`Total follows: ${stats.totalFollows}`);
+   * console.log(`Unique users: ${stats.uniqueFollowers}`);
+   *
+   * const { transitivity } = await analyzer.getStats({ transitivity: "mutual" });
+   * ```
+   */
+  async getStats(options: GraphStatsOptions = {}): Promise<GraphStats> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    const stats = await getTableStats(this.connection);
+    if (options.transitivity === undefined) {
+      return stats;
+    }
+
+    const mode = resolveClusteringMode(options.transitivity);
+    return { ...stats, ...(await getTransitivity(this.connection, mode)) };
+  }
+
+  /**
+   * Checks if a pubkey exists in the graph (either as follower or followed)
+   *
+   * @param pubkey - The pubkey to check
+   * @returns Promise resolving to true if the pubkey exists
    *
    */
   async pubkeyExists(pubkey: string): Promise<boolean> {
@@ -501,6 +1220,550 @@ export class DuckDBSocialGraphAnalyzer
     return getPubkeyDegree(this.connection, pubkey);
   }
 
+  /**
+   * Gets one page of the pubkeys a pubkey follows
+   *
+   * @param pubkey - The follower pubkey
+   * @param options - Page size (default 100), cursor from the previous page and ordering
+   * @returns Promise resolving to the page and a cursor for the next one
+   *
+   * @example
+   * ```typescript
+   * let cursor: string | undefined;
+   * do {
+   *   const page = await analyzer.getFollowing(pubkey, { limit: 500, cursor });
+   *   process(page.pubkeys);
+   *   cursor = page.nextCursor ?? undefined;
+   * } while (cursor);
+   * ```
+   */
+  async getFollowing(
+    pubkey: string,
+    options: FollowPageOptions = {},
+  ): Promise<FollowPage> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getFollowing(this.connection, normalizePubkey(pubkey), options);
+  }
+
+  /**
+   * Gets one page of the pubkeys following a pubkey
+   *
+   * @param pubkey - The followed pubkey
+   * @param options - Page size (default 100), cursor from the previous page and ordering
+   * @returns Promise resolving to the page and a cursor for the next one
+   *
+   * @example
+   * ```typescript
+   * // Most followed followers first
+   * const page = await analyzer.getFollowers(pubkey, { orderBy: "follower_count" });
+   * ```
+   */
+  async getFollowers(
+    pubkey: string,
+    options: FollowPageOptions = {},
+  ): Promise<FollowPage> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getFollowers(this.connection, normalizePubkey(pubkey), options);
+  }
+
+  /**
+   * Gets all pubkeys that have muted a given pubkey
+   *
+   * @param pubkey - The muted pubkey
+   * @returns Promise resolving to array of muter pubkeys
+   *
+   */
+  async getMutedBy(pubkey: string): Promise<string[]> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getMutedBy(this.connection, normalizePubkey(pubkey));
+  }
+
+  /**
+   * Gets all pubkeys muted by a given pubkey
+   *
+   * @param pubkey - The muter pubkey
+   * @returns Promise resolving to array of muted pubkeys
+   *
+   */
+  async getMuting(pubkey: string): Promise<string[]> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getMuting(this.connection, normalizePubkey(pubkey));
+  }
+
+  /**
+   * Checks if a pubkey has muted another pubkey
+   *
+   * @param muterPubkey - The pubkey that may have muted
+   * @param mutedPubkey - The pubkey that may be muted
+   * @returns Promise resolving to true if the mute relationship exists
+   *
+   */
+  async isMuted(muterPubkey: string, mutedPubkey: string): Promise<boolean> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return isMuted(
+      this.connection,
+      normalizePubkey(muterPubkey),
+      normalizePubkey(mutedPubkey),
+    );
+  }
+
+  /**
+   * Gets one page of the pubkeys following both given pubkeys, ordered by pubkey
+   *
+   * @param pubkeyA - The first followed pubkey
+   * @param pubkeyB - The second followed pubkey
+   * @param options - Page size (default: 100) and cursor from the previous page
+   * @returns Promise resolving to a page of common followers with their total count
+   */
+  async getCommonFollowers(
+    pubkeyA: string,
+    pubkeyB: string,
+    options: CommonFollowsOptions = {},
+  ): Promise<CommonFollowsPage> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getCommonFollowers(
+      this.connection,
+      normalizePubkey(pubkeyA),
+      normalizePubkey(pubkeyB),
+      options,
+    );
+  }
+
+  /**
+   * Gets one page of the pubkeys both given pubkeys follow, ordered by pubkey
+   *
+   * @param pubkeyA - The first follower pubkey
+   * @param pubkeyB - The second follower pubkey
+   * @param options - Page size (default: 100) and cursor from the previous page
+   * @returns Promise resolving to a page of commonly followed pubkeys with their total count
+   */
+  async getCommonFollowing(
+    pubkeyA: string,
+    pubkeyB: string,
+    options: CommonFollowsOptions = {},
+  ): Promise<CommonFollowsPage> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getCommonFollowing(
+      this.connection,
+      normalizePubkey(pubkeyA),
+      normalizePubkey(pubkeyB),
+      options,
+    );
+  }
+
+  /**
+   * Computes Jaccard, cosine and Adamic-Adar similarity between the follow
+   * sets of two pubkeys
+   *
+   * @param pubkeyA - The first pubkey
+   * @param pubkeyB - The second pubkey
+   * @param basis - Compare the pubkeys they follow ("following", default) or their followers ("followers")
+   * @returns Promise resolving to the set sizes, common count and metrics
+   */
+  async getSimilarity(
+    pubkeyA: string,
+    pubkeyB: string,
+    basis: SimilarityBasis = "following",
+  ): Promise<Similarity> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getSimilarity(
+      this.connection,
+      normalizePubkey(pubkeyA),
+      normalizePubkey(pubkeyB),
+      basis,
+    );
+  }
+
+  /**
+   * Gets the pubkeys whose follow sets are most similar to a pubkey's
+   *
+   * Only pubkeys sharing at least one pubkey with its set are considered.
+   *
+   * @param pubkey - The pubkey to compare against
+   * @param limit - Maximum number of pubkeys to return (default: 10)
+   * @param options - Metric (default: "jaccard") and basis (default: "following")
+   * @returns Promise resolving to pubkeys with their similarity, highest first
+   */
+  async getMostSimilar(
+    pubkey: string,
+    limit: number = 10,
+    options: MostSimilarOptions = {},
+  ): Promise<ScoredPubkey[]> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getMostSimilar(
+      this.connection,
+      normalizePubkey(pubkey),
+      limit,
+      options,
+    );
+  }
+
+  /**
+   * Computes global PageRank over the follow graph and persists it
+   *
+   * Scores are not updated on ingestion; call this again after the graph
+   * has changed significantly.
+   *
+   * @param options - Damping factor (default 0.85), convergence tolerance (default 1e-6) and iteration cap (default 100)
+   * @returns Promise resolving to a summary of the computation
+   *
+   * @example
+   * ```typescript
+   * const { iterations, converged } = await analyzer.computePageRank();
+   * const top = await analyzer.getTopByPageRank(20);
+   * ```
+   */
+  async computePageRank(
+    options: PageRankOptions = {},
+  ): Promise<PageRankResult> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return computePageRank(this.connection, options);
+  }
+
+  /**
+   * Gets the stored PageRank score of a pubkey
+   *
+   * @param pubkey - The pubkey to look up
+   * @returns Promise resolving to the score, or null if the pubkey is not ranked
+   */
+  async getPageRank(pubkey: string): Promise<number | null> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getPageRank(this.connection, normalizePubkey(pubkey));
+  }
+
+  /**
+   * Gets the pubkeys with the highest stored PageRank scores
+   *
+   * @param limit - Maximum number of pubkeys to return (default: 10)
+   * @returns Promise resolving to pubkeys with their scores, highest first
+   */
+  async getTopByPageRank(limit: number = 10): Promise<ScoredPubkey[]> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getTopByPageRank(this.connection, limit);
+  }
+
+  /**
+   * Gets the trust score of a pubkey relative to the root pubkey
+   *
+   * The trust score is the personalized PageRank of the pubkey, with random
+   * walks restarting at the root pubkey and any configured `trustSeeds`.
+   * Unlike hop counts, it grows with the number of trusted paths leading to
+   * a pubkey. Scores across all pubkeys sum to 1; unreachable pubkeys score 0.
+   *
+   * Scores are computed on first use after the root pubkey is set, the root
+   * distances are rebuilt or follow or mute lists change, and persisted for
+   * later sessions.
+   *
+   * @param pubkey - The pubkey to score
+   * @returns Promise resolving to the trust score
+   * @throws Error if no root pubkey is set or the analyzer is closed
+   */
+  async getTrustScore(pubkey: string): Promise<number> {
+    const normalizedPubkey = normalizePubkey(pubkey);
+    const scores = await this.getTrustScoresBatch([normalizedPubkey]);
+    return scores.get(normalizedPubkey)!;
+  }
+
+  /**
+   * Gets the trust scores of multiple pubkeys relative to the root pubkey
+   *
+   * @param pubkeys - The pubkeys to score
+   * @returns Promise resolving to a map of normalized pubkey -> trust score
+   * @throws Error if no root pubkey is set or the analyzer is closed
+   */
+  async getTrustScoresBatch(pubkeys: string[]): Promise<Map<string, number>> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    if (!this.rootPubkey) {
+      throw new Error("Root pubkey must be set to get trust scores");
+    }
+
+    if (!this.rootScoresValid) {
+      await this.refreshRootScores();
+    }
+    return getTrustScores(this.connection, pubkeys.map(normalizePubkey));
+  }
+
+  /**
+   * Gets the web-of-trust score of a pubkey relative to the root pubkey
+   *
+   * Followers and muters count more the closer they are to the root, as
+   * configured by the wot option; pubkeys nobody within the root distances
+   * follows or mutes score 0.
+   *
+   * @param pubkey - The pubkey to score
+   * @returns Promise resolving to the score and the followers and muters by distance
+   * @throws Error if no root pubkey is set or the analyzer is closed
+   */
+  async getWotScore(pubkey: string): Promise<WotScore> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    if (!this.rootPubkey) {
+      throw new Error("Root pubkey must be set to get web-of-trust scores");
+    }
+
+    if (!this.rootScoresValid) {
+      await this.refreshRootScores();
+    }
+    return getWotScore(this.connection, normalizePubkey(pubkey));
+  }
+
+  /**
+   * Decides whether a pubkey is trusted according to its web-of-trust score
+   *
+   * @param pubkey - The pubkey to check
+   * @param threshold - Score the pubkey must exceed (default: 0)
+   * @returns Promise resolving to true if the pubkey is the root or scores above the threshold
+   * @throws Error if no root pubkey is set or the analyzer is closed
+   */
+  async isTrusted(pubkey: string, threshold: number = 0): Promise<boolean> {
+    const { pubkey: normalizedPubkey, score } = await this.getWotScore(pubkey);
+    return normalizedPubkey === this.rootPubkey || score > threshold;
+  }
+
+  /**
+   * Labels the weakly and strongly connected components of the follow graph
+   *
+   * Components are persisted in nsd_components until the next computation;
+   * they are not updated on ingestion. Small weak components are islands
+   * disconnected from the rest of the graph, typical of bot farms.
+   *
+   * @returns Promise resolving to the number of pubkeys and components
+   */
+  async computeComponents(): Promise<ComponentsResult> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return computeComponents(this.connection);
+  }
+
+  /**
+   * Gets the stored component of a pubkey
+   *
+   * @param pubkey - The pubkey to look up
+   * @param type - Weakly or strongly connected components (default: "weak")
+   * @returns Promise resolving to the component, or null if the pubkey is not labelled
+   */
+  async getComponent(
+    pubkey: string,
+    type: ComponentType = "weak",
+  ): Promise<Component | null> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getComponent(this.connection, normalizePubkey(pubkey), type);
+  }
+
+  /**
+   * Gets the distribution of stored components by size
+   *
+   * @param type - Weakly or strongly connected components (default: "weak")
+   * @returns Promise resolving to a map of component size -> number of components
+   */
+  async getComponentSizes(
+    type: ComponentType = "weak",
+  ): Promise<Record<number, number>> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getComponentSizes(this.connection, type);
+  }
+
+  /**
+   * Gets the largest stored component
+   *
+   * @param type - Weakly or strongly connected components (default: "weak")
+   * @returns Promise resolving to the component, or null if none are stored
+   */
+  async getLargestComponent(
+    type: ComponentType = "weak",
+  ): Promise<Component | null> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getLargestComponent(this.connection, type);
+  }
+
+  /**
+   * Computes the core number of every pubkey over the undirected follow graph
+   *
+   * The k-core is the largest set of pubkeys each connected to at least k
+   * others in the set. Dense clusters stuck at a low core number relative to
+   * their size are a typical spam ring signal. Core numbers are persisted in
+   * nsd_kcore until the next computation; they are not updated on ingestion.
+   *
+   * @param options - Whether to keep every follow or only mutual follows (default: "undirected")
+   * @returns Promise resolving to a summary of the decomposition
+   */
+  async computeKCore(options: KCoreOptions = {}): Promise<KCoreResult> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return computeKCore(this.connection, options);
+  }
+
+  /**
+   * Gets the stored core number of a pubkey
+   *
+   * @param pubkey - The pubkey to look up
+   * @returns Promise resolving to the core number, or null if the pubkey has none stored
+   */
+  async getCoreNumber(pubkey: string): Promise<number | null> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getCoreNumber(this.connection, normalizePubkey(pubkey));
+  }
+
+  /**
+   * Gets the members of the stored k-core
+   *
+   * @param k - Minimum core number
+   * @returns Promise resolving to the pubkeys with a core number of at least k, sorted
+   */
+  async getKCoreMembers(k: number): Promise<string[]> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getKCoreMembers(this.connection, k);
+  }
+
+  /**
+   * Recommends pubkeys to follow from friends of friends
+   *
+   * Candidates are followed by at least `minMutualCount` of the pubkeys the
+   * given pubkey follows, and are ranked by that count. With `weightByTrust`,
+   * each of those followed pubkeys counts its trust score instead, so
+   * suggestions from well trusted follows come first.
+   *
+   * @param pubkey - The pubkey to recommend follows for
+   * @param options - Limit, mute filtering, minimum mutual count and trust weighting
+   * @returns Promise resolving to recommendations, best first
+   * @throws Error if weighting by trust without a root pubkey
+   *
+   * @example
+   * ```typescript
+   * const suggestions = await analyzer.getFollowRecommendations(pubkey, {
+   *   limit: 20,
+   *   minMutualCount: 2,
+   * });
+   * ```
+   */
+  async getFollowRecommendations(
+    pubkey: string,
+    options: FollowRecommendationOptions = {},
+  ): Promise<FollowRecommendation[]> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    if (options.weightByTrust) {
+      if (!this.rootPubkey) {
+        throw new Error(
+          "Root pubkey must be set to weight recommendations by trust score",
+        );
+      }
+      if (!this.rootScoresValid) {
+        await this.refreshRootScores();
+      }
+    }
+    return getFollowRecommendations(
+      this.connection,
+      normalizePubkey(pubkey),
+      options,
+    );
+  }
+
+  /**
+   * Gets the triangle count and local clustering coefficient of a pubkey
+   *
+   * The coefficient is the share of possible links between the pubkey's
+   * neighbours that exist. A huge out-degree with a low directed coefficient
+   * means following many pubkeys that have nothing to do with each other,
+   * which is typical of follow spam.
+   *
+   * @param pubkey - The pubkey to look up
+   * @param options - Directed or mutual neighbourhoods (default: "directed")
+   * @returns Promise resolving to the neighbourhood size, triangles and coefficient
+   */
+  async getLocalClustering(
+    pubkey: string,
+    options: ClusteringOptions = {},
+  ): Promise<LocalClustering> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getLocalClustering(
+      this.connection,
+      normalizePubkey(pubkey),
+      options,
+    );
+  }
+
+  /**
+   * Gets the relays most commonly suggested for a pubkey in follow list 'p' tags
+   *
+   * Useful for outbox-style relay discovery when a pubkey has not published
+   * its own relay list.
+   *
+   * @param pubkey - The pubkey to get relay hints for
+   * @param limit - Maximum number of relays to return (default: 10)
+   * @returns Promise resolving to relay hints, most suggested first
+   *
+   * @example
+   * ```typescript
+   * const hints = await analyzer.getRelayHints(pubkey);
+   * // [{ relay: "wss://relay.damus.io", count: 42 }, ...]
+   * ```
+   */
+  async getRelayHints(
+    pubkey: string,
+    limit: number = 10,
+  ): Promise<RelayHint[]> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getRelayHints(this.connection, normalizePubkey(pubkey), limit);
+  }
+
+  /**
+   * Gets the petnames other pubkeys assigned to a pubkey in their follow lists
+   *
+   * @param pubkey - The pubkey to get petnames for
+   * @returns Promise resolving to petnames ordered by follower pubkey
+   */
+  async getPetnames(pubkey: string): Promise<Petname[]> {
+    if (this.closed) {
+      throw new Error("Analyzer has been closed");
+    }
+    return getPetnames(this.connection, normalizePubkey(pubkey));
+  }
+
   /**
    * Closes the database connection and cleans up resources
    *
@@ -515,6 +1778,9 @@ export class DuckDBSocialGraphAnalyzer
     // Note: We no longer automatically clear the root distances table
     // The table is now persistent and must be explicitly dropped if needed
 
+    // Keep the usage order of registered roots for later sessions
+    await this.flushRootUses();
+
     // Reclaim space before closing - only when we own the connection
     // CHECKPOINT is only called when we created the database instance ourselves
     // to avoid conflicts with other transactions in external projects
@@ -580,6 +1846,10 @@ export class DuckDBSocialGraphAnalyzer
    * using a temporary table, making subsequent getShortestDistance calls
    * from this pubkey extremely fast (O(1)).
    *
+   * A persisted table for the same root and depth is reused. If another
+   * process changed the graph since it was built, it is refreshed according
+   * to the `rootRefresh` policy.
+   *
    * @param pubkey - The root pubkey to optimize for
    */
   async setRootPubkey(pubkey: string): Promise<void> {
@@ -597,7 +1867,7 @@ export class DuckDBSocialGraphAnalyzer
       this.connection,
       "root_depth",
     );
-    const tableExists = await this.rootTableExists();
+    const tableExists = await this.rootTableExists("outbound");
 
     if (
       existingRootPubkey === normalizedPubkey &&
@@ -607,16 +1877,115 @@ export class DuckDBSocialGraphAnalyzer
       // Reuse existing table
       this.rootPubkey = normalizedPubkey;
       this.rootTableValid = true;
+      // The inbound table is kept up to date from here on if it was built before
+      this.inboundTableValid =
+        (await this.rootTableExists("inbound")) &&
+        (await getMetadataValue(
+          this.connection,
+          getRootMetadataKey("inbound", "pubkey"),
+        )) === normalizedPubkey &&
+        (await getMetadataValue(
+          this.connection,
+          getRootMetadataKey("inbound", "depth"),
+        )) === String(this.maxDepth);
+
+      const stale =
+        this.rootRefresh !== "reuse" &&
+        ((await isRootTableStale(this.connection, "outbound")) ||
+          (this.inboundTableValid &&
+            (await isRootTableStale(this.connection, "inbound"))));
+      if (stale && this.rootRefresh === "rebuild-if-stale") {
+        this.logger.info("Root distances are older than the graph, rebuilding");
+        await this.rebuildRootDistances();
+        return;
+      }
+      if (stale) {
+        await this.replayStaleRootTable("outbound");
+        if (this.inboundTableValid) {
+          await this.replayStaleRootTable("inbound");
+        }
+      }
+
+      // Trust and web-of-trust scores are persisted alongside, and computed
+      // on first use unless they match the graph and configuration
+      this.rootScoresValid = !stale && (await this.rootScoresMatchConfig());
     } else {
-      // Build new table
+      // Build new table, the inbound one is built on first use
       this.rootPubkey = normalizedPubkey;
+      this.inboundTableValid = false;
       await buildRootDistancesTable(
         this.connection,
         normalizedPubkey,
         this.maxDepth,
       );
       this.rootTableValid = true;
+      this.rootScoresValid = false;
+    }
+  }
+
+  /**
+   * Replays the follow lists accepted since a root distances table was built
+   * @private
+   */
+  private async replayStaleRootTable(
+    direction: RootDistanceDirection,
+  ): Promise<void> {
+    if (!(await isRootTableStale(this.connection, direction))) {
+      return;
+    }
+    const builtAt = await getMetadataValue(
+      this.connection,
+      getRootMetadataKey(direction, "built_at"),
+    );
+    const changed = await getFollowListsUpdatedSince(
+      this.connection,
+      Number(builtAt ?? 0),
+    );
+    this.logger.info(
+      `Replaying ${changed.length} follow lists into the ${direction} root distances`,
+    );
+    await replayRootDistancesDelta(this.connection, changed, direction);
+  }
+
+  /**
+   * Gets the seeds of the trust scores: the root pubkey and any configured trust seeds
+   * @private
+   */
+  private getTrustSeeds(): string[] {
+    return this.rootPubkey ? [this.rootPubkey, ...this.trustSeeds] : [];
+  }
+
+  /**
+   * Checks whether the persisted scores were computed with the current trust
+   * seeds and web-of-trust options
+   * @private
+   */
+  private async rootScoresMatchConfig(): Promise<boolean> {
+    return (
+      (await getMetadataValue(this.connection, "trust_seeds")) ===
+        getTrustSeedsKey(this.getTrustSeeds()) &&
+      (await getMetadataValue(this.connection, "wot_config")) ===
+        getWotConfigKey(this.wotOptions)
+    );
+  }
+
+  /**
+   * Recomputes the scores derived from the root pubkey
+   * Web-of-trust scores read the root distances, so a stale table is rebuilt first.
+   * @private
+   */
+  private async refreshRootScores(): Promise<void> {
+    if (this.rootPubkey && !this.rootTableValid) {
+      await buildRootDistancesTable(
+        this.connection,
+        this.rootPubkey,
+        this.maxDepth,
+      );
+      this.rootTableValid = true;
     }
+    await computeTrustScores(this.connection, this.getTrustSeeds());
+    await computeWotScores(this.connection, this.wotOptions);
+    this.rootScoresValid = true;
   }
 
   /**
@@ -629,17 +1998,21 @@ export class DuckDBSocialGraphAnalyzer
   }
 
   /**
-   * Checks if the root distances table exists
+   * Checks if a root distances table exists with parent pointers and path counts
+   * Tables built before these were stored are rebuilt rather than reused
    * @private
    */
-  private async rootTableExists(): Promise<boolean> {
+  private async rootTableExists(
+    direction: RootDistanceDirection,
+  ): Promise<boolean> {
     try {
       const reader = await this.connection.runAndReadAll(
-        "SELECT 1 FROM information_schema.tables WHERE table_name = 'nsd_root_distances'",
+        "SELECT 1 FROM information_schema.columns WHERE table_name = ? AND column_name = 'path_count'",
+        [getRootDistanceTable(direction)],
       );
       return reader.getRows().length > 0;
     } catch (error) {
-      console.error("Error checking root distances table:", error);
+      this.logger.error("Error checking root distances table:", error);
       return false;
     }
   }
@@ -647,6 +2020,9 @@ export class DuckDBSocialGraphAnalyzer
   /**
    * Rebuilds the root distances table from scratch
    * Useful when you want to ensure the table is completely up-to-date
+   *
+   * Trust and web-of-trust scores are recomputed on their next use. The
+   * inbound table is rebuilt too if it is in use.
    */
   async rebuildRootDistances(): Promise<void> {
     if (this.closed) {
@@ -662,6 +2038,15 @@ export class DuckDBSocialGraphAnalyzer
       this.maxDepth,
     );
     this.rootTableValid = true;
+    if (this.inboundTableValid) {
+      await buildRootDistancesTable(
+        this.connection,
+        this.rootPubkey,
+        this.maxDepth,
+        "inbound",
+      );
+    }
+    this.rootScoresValid = false;
   }
 
   /**
@@ -676,18 +2061,34 @@ export class DuckDBSocialGraphAnalyzer
     try {
       await executeWithRetry(async () => {
         await this.connection.run("DROP TABLE IF EXISTS nsd_root_distances");
+        await this.connection.run(
+          "DROP TABLE IF EXISTS nsd_root_inbound_distances",
+        );
       });
     } catch (error) {
-      console.error("Error dropping root distances table:", error);
+      this.logger.error("Error dropping root distances table:", error);
       // Ignore errors if table doesn't exist
     }
 
+    // Trust and web-of-trust scores are relative to the root, so they go too
+    await executeWithRetry(async () => {
+      await this.connection.run("DELETE FROM nsd_trust_scores");
+      await this.connection.run("DELETE FROM nsd_wot_scores");
+    });
+
     // Clear metadata
     await setMetadataValue(this.connection, "root_pubkey", "");
     await setMetadataValue(this.connection, "root_depth", "");
     await setMetadataValue(this.connection, "root_built_at", "");
+    await setMetadataValue(this.connection, "root_inbound_pubkey", "");
+    await setMetadataValue(this.connection, "root_inbound_depth", "");
+    await setMetadataValue(this.connection, "root_inbound_built_at", "");
+    await setMetadataValue(this.connection, "trust_seeds", "");
+    await setMetadataValue(this.connection, "wot_config", "");
 
     this.rootPubkey = null;
     this.rootTableValid = false;
+    this.inboundTableValid = false;
+    this.rootScoresValid = false;
   }
 }
@@ -0,0 +1,335 @@
+/**
+ * Centrality measures over the follow graph
+ */
+
+import { DuckDBConnection } from "@duckdb/node-api";
+import type { PageRankOptions, PageRankResult, ScoredPubkey } from "./types.js";
+import { executeWithRetry } from "./utils.js";
+import { setMetadataValue } from "./graph-analysis.js";
+
+/**
+ * Validates PageRank options and fills in defaults
+ */
+function resolvePageRankOptions(
+  options: PageRankOptions,
+): Required<PageRankOptions> {
+  const {
+    dampingFactor = 0.85,
+    tolerance = 1e-6,
+    maxIterations = 100,
+  } = options;
+
+  if (
+    typeof dampingFactor !== "number" ||
+    !(dampingFactor > 0 && dampingFactor < 1)
+  ) {
+    throw new Error("dampingFactor must be a number between 0 and 1");
+  }
+  if (typeof tolerance !== "number" || !(tolerance > 0)) {
+    throw new Error("tolerance must be a positive number");
+  }
+  if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+    throw new Error("maxIterations must be a positive integer");
+  }
+
+  return { dampingFactor, tolerance, maxIterations };
+}
+
+/**
+ * Runs PageRank power iteration over nsd_follows and stores the scores
+ *
+ * Each iteration is a single set-based query: every node keeps (1 - d) times
+ * its teleport probability, receives d * rank / out-degree from each
+ * follower, and rank held by nodes that follow nobody is redistributed
+ * according to the teleport probabilities. Iteration stops once the L1
+ * change between iterations drops below the tolerance or after
+ * maxIterations. Scores sum to 1.
+ *
+ * Without seeds, teleports are uniform over all pubkeys (global PageRank).
+ * With seeds, teleports only land on the seeds (personalized PageRank), and
+ * only pubkeys with a positive score are stored.
+ */
+async function runPageRank(
+  connection: DuckDBConnection,
+  options: PageRankOptions,
+  seeds: string[] | null,
+  table: "nsd_pagerank" | "nsd_trust_scores",
+): Promise<PageRankResult> {
+  const { dampingFactor, tolerance, maxIterations } =
+    resolvePageRankOptions(options);
+  const result: PageRankResult = {
+    nodeCount: 0,
+    iterations: 0,
+    converged: false,
+    delta: 0,
+  };
+
+  await executeWithRetry(async () => {
+    await connection.run("BEGIN TRANSACTION");
+    try {
+      await connection.run(
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_pr_seeds (pubkey VARCHAR(64) PRIMARY KEY)`,
+      );
+      if (seeds && seeds.length > 0) {
+        await connection.run(
+          `INSERT OR IGNORE INTO nsd_pr_seeds (pubkey) VALUES ${seeds.map(() => "(?)").join(", ")}`,
+          seeds,
+        );
+      }
+
+      // Every pubkey in the graph (plus seeds) with its out-degree
+      await connection.run(`
+        CREATE OR REPLACE TEMPORARY TABLE nsd_pr_nodes AS
+        SELECT pubkey, COALESCE(o.out_degree, 0) AS out_degree
+        FROM (
+          SELECT follower_pubkey AS pubkey FROM nsd_follows
+          UNION
+          SELECT followed_pubkey FROM nsd_follows
+          UNION
+          SELECT pubkey FROM nsd_pr_seeds
+        ) n
+        LEFT JOIN (
+          SELECT follower_pubkey, COUNT(*) AS out_degree
+          FROM nsd_follows
+          GROUP BY follower_pubkey
+        ) o ON o.follower_pubkey = n.pubkey
+      `);
+
+      const countReader = await connection.runAndReadAll(
+        `SELECT COUNT(*) FROM nsd_pr_nodes`,
+      );
+      const nodeCount = Number(countReader.getRows()[0]![0]);
+
+      result.nodeCount = 0;
+      result.iterations = 0;
+      result.converged = false;
+      result.delta = 0;
+
+      await connection.run(`DELETE FROM ${table}`);
+
+      if (nodeCount > 0) {
+        // Teleport probabilities double as the starting scores
+        await connection.run(
+          seeds
+            ? `CREATE OR REPLACE TEMPORARY TABLE nsd_pr_ranks AS
+               SELECT
+                 n.pubkey,
+                 n.out_degree,
+                 CASE WHEN s.pubkey IS NULL THEN 0.0 ELSE 1.0 / $seeds END AS teleport,
+                 CASE WHEN s.pubkey IS NULL THEN 0.0 ELSE 1.0 / $seeds END AS score
+               FROM nsd_pr_nodes n
+               LEFT JOIN nsd_pr_seeds s ON s.pubkey = n.pubkey`
+            : `CREATE OR REPLACE TEMPORARY TABLE nsd_pr_ranks AS
+               SELECT pubkey, out_degree, 1.0 / $nodes AS teleport, 1.0 / $nodes AS score
+               FROM nsd_pr_nodes`,
+          seeds ? { seeds: new Set(seeds).size } : { nodes: nodeCount },
+        );
+
+        for (let i = 0; i < maxIterations; i++) {
+          await connection.run(
+            `
+            CREATE OR REPLACE TEMPORARY TABLE nsd_pr_next AS
+            WITH dangling AS (
+              SELECT COALESCE(SUM(score), 0) AS total
+              FROM nsd_pr_ranks
+              WHERE out_degree = 0
+            ),
+            contributions AS (
+              SELECT f.followed_pubkey AS pubkey, SUM(r.score / r.out_degree) AS incoming
+              FROM nsd_follows f
+              JOIN nsd_pr_ranks r ON r.pubkey = f.follower_pubkey
+              GROUP BY f.followed_pubkey
+            )
+            SELECT
+              r.pubkey,
+              r.out_degree,
+              r.teleport,
+              (1 - $damping) * r.teleport
+                + $damping * (COALESCE(c.incoming, 0) + d.total * r.teleport) AS score
+            FROM nsd_pr_ranks r
+            CROSS JOIN dangling d
+            LEFT JOIN contributions c ON c.pubkey = r.pubkey
+            `,
+            { damping: dampingFactor },
+          );
+
+          const deltaReader = await connection.runAndReadAll(`
+            SELECT SUM(ABS(n.score - r.score))
+            FROM nsd_pr_next n
+            JOIN nsd_pr_ranks r ON r.pubkey = n.pubkey
+          `);
+          result.delta = Number(deltaReader.getRows()[0]![0]);
+          result.iterations = i + 1;
+
+          await connection.run(`DROP TABLE nsd_pr_ranks`);
+          await connection.run(
+            `ALTER TABLE nsd_pr_next RENAME TO nsd_pr_ranks`,
+          );
+
+          if (result.delta < tolerance) {
+            result.converged = true;
+            break;
+          }
+        }
+
+        await connection.run(`
+          INSERT INTO ${table} (pubkey, score)
+          SELECT pubkey, score FROM nsd_pr_ranks WHERE score > 0
+        `);
+
+        const storedReader = await connection.runAndReadAll(
+          `SELECT COUNT(*) FROM ${table}`,
+        );
+        result.nodeCount = Number(storedReader.getRows()[0]![0]);
+      }
+
+      // Cleanup temporary tables
+      await connection.run(`DROP TABLE IF EXISTS nsd_pr_seeds`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_pr_nodes`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_pr_ranks`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_pr_next`);
+
+      await connection.run("COMMIT");
+    } catch (error) {
+      await connection.run("ROLLBACK");
+      throw error;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Computes global PageRank over nsd_follows and persists it into nsd_pagerank
+ *
+ * @param connection - Active DuckDB connection
+ * @param options - Damping factor, convergence tolerance and iteration cap
+ * @returns Promise resolving to a summary of the computation
+ */
+export async function computePageRank(
+  connection: DuckDBConnection,
+  options: PageRankOptions = {},
+): Promise<PageRankResult> {
+  const result = await runPageRank(connection, options, null, "nsd_pagerank");
+  await setMetadataValue(
+    connection,
+    "pagerank_computed_at",
+    String(Date.now()),
+  );
+  return result;
+}
+
+/**
+ * Builds the metadata value identifying a trust seed set
+ */
+export function getTrustSeedsKey(seeds: string[]): string {
+  return [...new Set(seeds)].sort().join(",");
+}
+
+/**
+ * Computes personalized PageRank seeded at a set of pubkeys and persists it
+ * into nsd_trust_scores
+ *
+ * Random walks restart at the seeds, so a pubkey scores higher the more
+ * (and the better trusted) paths lead to it from the seeds. Pubkeys that
+ * cannot be reached from any seed are not stored.
+ *
+ * @param connection - Active DuckDB connection
+ * @param seeds - Normalized seed pubkeys, typically the root pubkey first
+ * @param options - Damping factor, convergence tolerance and iteration cap
+ * @returns Promise resolving to a summary of the computation
+ */
+export async function computeTrustScores(
+  connection: DuckDBConnection,
+  seeds: string[],
+  options: PageRankOptions = {},
+): Promise<PageRankResult> {
+  if (seeds.length === 0) {
+    throw new Error("At least one seed pubkey is required");
+  }
+
+  const result = await runPageRank(
+    connection,
+    options,
+    seeds,
+    "nsd_trust_scores",
+  );
+  await setMetadataValue(connection, "trust_seeds", getTrustSeedsKey(seeds));
+  await setMetadataValue(connection, "trust_computed_at", String(Date.now()));
+  return result;
+}
+
+/**
+ * Gets stored trust scores for multiple pubkeys
+ *
+ * @param connection - Active DuckDB connection
+ * @param pubkeys - Normalized pubkeys to look up
+ * @returns Promise resolving to a map of pubkey -> score, 0 for unreachable pubkeys
+ */
+export async function getTrustScores(
+  connection: DuckDBConnection,
+  pubkeys: string[],
+): Promise<Map<string, number>> {
+  const scores = new Map<string, number>();
+  for (const pubkey of pubkeys) {
+    scores.set(pubkey, 0);
+  }
+  if (pubkeys.length === 0) {
+    return scores;
+  }
+
+  const placeholders = pubkeys.map(() => "?").join(", ");
+  const reader = await connection.runAndReadAll(
+    `SELECT pubkey, score FROM nsd_trust_scores WHERE pubkey IN (${placeholders})`,
+    pubkeys,
+  );
+  for (const row of reader.getRows()) {
+    scores.set(row[0] as string, Number(row[1]));
+  }
+
+  return scores;
+}
+
+/**
+ * Gets the stored PageRank score of a pubkey
+ *
+ * @param connection - Active DuckDB connection
+ * @param pubkey - The pubkey to look up
+ * @returns Promise resolving to the score, or null if the pubkey is not ranked
+ */
+export async function getPageRank(
+  connection: DuckDBConnection,
+  pubkey: string,
+): Promise<number | null> {
+  const reader = await connection.runAndReadAll(
+    `SELECT score FROM nsd_pagerank WHERE pubkey = ?`,
+    [pubkey],
+  );
+  const rows = reader.getRows();
+  return rows.length > 0 ? Number(rows[0]![0]) : null;
+}
+
+/**
+ * Gets the pubkeys with the highest stored PageRank scores
+ *
+ * @param connection - Active DuckDB connection
+ * @param limit - Maximum number of pubkeys to return
+ * @returns Promise resolving to pubkeys with their scores, highest first
+ */
+export async function getTopByPageRank(
+  connection: DuckDBConnection,
+  limit: number,
+): Promise<ScoredPubkey[]> {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("limit must be a positive integer");
+  }
+
+  const reader = await connection.runAndReadAll(
+    `SELECT pubkey, score FROM nsd_pagerank ORDER BY score DESC, pubkey LIMIT ?`,
+    [limit],
+  );
+  return reader.getRows().map((row) => ({
+    pubkey: row[0] as string,
+    score: Number(row[1]),
+  }));
+}
@@ -0,0 +1,166 @@
+/**
+ * Triangle counting and clustering coefficients over the follow graph
+ */
+
+import { DuckDBConnection } from "@duckdb/node-api";
+import type {
+  ClusteringMode,
+  ClusteringOptions,
+  LocalClustering,
+} from "./types.js";
+
+/**
+ * Follows without self-follows, which never close a triangle
+ */
+const EDGES = `
+  SELECT follower_pubkey AS source, followed_pubkey AS target
+  FROM nsd_follows
+  WHERE follower_pubkey <> followed_pubkey
+`;
+
+/**
+ * Mutual follows in both directions, without self-follows
+ */
+const MUTUAL_EDGES = `
+  SELECT f.follower_pubkey AS source, f.followed_pubkey AS target
+  FROM nsd_follows f
+  JOIN nsd_follows r
+    ON r.follower_pubkey = f.followed_pubkey
+   AND r.followed_pubkey = f.follower_pubkey
+  WHERE f.follower_pubkey <> f.followed_pubkey
+`;
+
+/**
+ * Validates a clustering mode, defaulting to "directed"
+ */
+export function resolveClusteringMode(
+  mode: ClusteringMode = "directed",
+): ClusteringMode {
+  if (mode !== "directed" && mode !== "mutual") {
+    throw new Error("mode must be 'directed' or 'mutual'");
+  }
+  return mode;
+}
+
+/**
+ * Gets the triangle count and local clustering coefficient of a pubkey
+ *
+ * In "directed" mode the neighbours are the pubkeys it follows, and every
+ * follow between two of them is a triangle, out of k * (k - 1) possible.
+ * In "mutual" mode the neighbours are its mutual follows, and every mutual
+ * pair among them is a triangle, out of k * (k - 1) / 2 possible.
+ *
+ * @param connection - Active DuckDB connection
+ * @param pubkey - Normalized pubkey to look up
+ * @param options - Directed or mutual neighbourhoods
+ * @returns Promise resolving to the neighbourhood size, triangles and coefficient
+ */
+export async function getLocalClustering(
+  connection: DuckDBConnection,
+  pubkey: string,
+  options: ClusteringOptions = {},
+): Promise<LocalClustering> {
+  const mode = resolveClusteringMode(options.mode);
+  const edges = mode === "directed" ? EDGES : MUTUAL_EDGES;
+
+  const reader = await connection.runAndReadAll(
+    `
+    WITH edges AS (${edges}),
+    neighbours AS (SELECT target AS pubkey FROM edges WHERE source = $pubkey)
+    SELECT
+      (SELECT COUNT(*) FROM neighbours) AS degree,
+      (
+        SELECT COUNT(*)
+        FROM neighbours a
+        JOIN edges e ON e.source = a.pubkey
+        JOIN neighbours b ON b.pubkey = e.target
+      ) AS links
+    `,
+    { pubkey },
+  );
+  const row = reader.getRows()[0]!;
+  const degree = Number(row[0]);
+  // Mutual edges are listed in both directions, so each pair shows up twice
+  const triangles = mode === "directed" ? Number(row[1]) : Number(row[1]) / 2;
+  const possible =
+    mode === "directed" ? degree * (degree - 1) : (degree * (degree - 1)) / 2;
+
+  return {
+    pubkey,
+    mode,
+    degree,
+    triangles,
+    clusteringCoefficient: possible > 0 ? triangles / possible : 0,
+  };
+}
+
+/**
+ * Computes the global transitivity of the follow graph
+ *
+ * In "directed" mode, this is the share of follow chains a -> b -> c (with
+ * a != c) closed by a following c; triangles counts the closed chains.
+ * In "mutual" mode, this is three times the number of mutual triangles over
+ * the number of mutual pairs sharing a pubkey.
+ *
+ * @param connection - Active DuckDB connection
+ * @param mode - Directed or mutual follows
+ * @returns Promise resolving to the triangle count and transitivity
+ */
+export async function getTransitivity(
+  connection: DuckDBConnection,
+  mode: ClusteringMode,
+): Promise<{ triangles: number; transitivity: number }> {
+  const reader = await connection.runAndReadAll(
+    mode === "directed"
+      ? `
+        WITH edges AS (${EDGES}),
+        degrees AS (
+          SELECT pubkey, SUM(incoming) AS incoming, SUM(outgoing) AS outgoing
+          FROM (
+            SELECT target AS pubkey, 1 AS incoming, 0 AS outgoing FROM edges
+            UNION ALL
+            SELECT source AS pubkey, 0 AS incoming, 1 AS outgoing FROM edges
+          )
+          GROUP BY pubkey
+        )
+        SELECT
+          (
+            SELECT COUNT(*)
+            FROM edges ab
+            JOIN edges bc ON bc.source = ab.target AND bc.target <> ab.source
+            JOIN edges ac ON ac.source = ab.source AND ac.target = bc.target
+          ) AS closed,
+          -- Chains through each pubkey, minus the a -> b -> a ones
+          (SELECT COALESCE(SUM(incoming * outgoing), 0) FROM degrees)
+            - (
+              SELECT COUNT(*)
+              FROM edges ab
+              JOIN edges ba ON ba.source = ab.target AND ba.target = ab.source
+            ) AS chains
+        `
+      : `
+        WITH edges AS (${MUTUAL_EDGES})
+        SELECT
+          (
+            SELECT COUNT(*)
+            FROM edges ab
+            JOIN edges bc ON bc.source = ab.target AND bc.target > ab.target
+            JOIN edges ac ON ac.source = ab.source AND ac.target = bc.target
+            WHERE ab.source < ab.target
+          ) AS closed,
+          (
+            SELECT COALESCE(SUM(degree * (degree - 1) / 2), 0)
+            FROM (SELECT COUNT(*) AS degree FROM edges GROUP BY source)
+          ) AS chains
+        `,
+  );
+  const row = reader.getRows()[0]!;
+  const triangles = Number(row[0]);
+  const chains = Number(row[1]);
+
+  return {
+    triangles,
+    transitivity:
+      chains > 0 ? ((mode === "directed" ? 1 : 3) * triangles) / chains : 0,
+  };
+}
@@ -0,0 +1,395 @@
+/**
+ * Connected component labelling over the follow graph
+ */
+
+import { DuckDBConnection } from "@duckdb/node-api";
+import type { Component, ComponentType, ComponentsResult } from "./types.js";
+import { executeWithRetry } from "./utils.js";
+import { setMetadataValue } from "./graph-analysis.js";
+
+const COMPONENT_COLUMNS: Record<ComponentType, string> = {
+  weak: "weak_component",
+  strong: "strong_component",
+};
+
+/**
+ * Gets the nsd_components column holding labels of the given type
+ */
+function getComponentColumn(type: ComponentType): string {
+  const column = COMPONENT_COLUMNS[type];
+  if (!column) {
+    throw new Error("Component type must be 'weak' or 'strong'");
+  }
+  return column;
+}
+
+/**
+ * Counts the rows of a table
+ */
+async function countRows(
+  connection: DuckDBConnection,
+  table: string,
+): Promise<number> {
+  const reader = await connection.runAndReadAll(
+    `SELECT COUNT(*) FROM ${table}`,
+  );
+  return Number(reader.getRows()[0]![0]);
+}
+
+/**
+ * Labels weakly connected components into nsd_cc_labels
+ *
+ * Every pubkey starts labelled with itself and repeatedly takes the smallest
+ * label among itself, its neighbours in either direction and the pubkey its
+ * label names, until no label changes. Each component ends up labelled with
+ * its smallest pubkey.
+ *
+ * Must be called inside an open transaction.
+ */
+async function labelWeakComponents(
+  connection: DuckDBConnection,
+): Promise<void> {
+  await connection.run(`
+    CREATE OR REPLACE TEMPORARY TABLE nsd_cc_labels AS
+    SELECT pubkey, pubkey AS label FROM nsd_cc_nodes
+  `);
+
+  for (;;) {
+    await connection.run(`
+      CREATE OR REPLACE TEMPORARY TABLE nsd_cc_next AS
+      WITH neighbours AS (
+        SELECT e.target AS pubkey, MIN(l.label) AS label
+        FROM nsd_cc_edges e
+        JOIN nsd_cc_labels l ON l.pubkey = e.source
+        GROUP BY e.target
+        UNION ALL
+        SELECT e.source AS pubkey, MIN(l.label) AS label
+        FROM nsd_cc_edges e
+        JOIN nsd_cc_labels l ON l.pubkey = e.target
+        GROUP BY e.source
+      )
+      SELECT
+        l.pubkey,
+        LEAST(l.label, MIN(j.label), COALESCE(MIN(n.label), l.label)) AS label
+      FROM nsd_cc_labels l
+      JOIN nsd_cc_labels j ON j.pubkey = l.label
+      LEFT JOIN neighbours n ON n.pubkey = l.pubkey
+      GROUP BY l.pubkey, l.label
+    `);
+
+    const changedReader = await connection.runAndReadAll(`
+      SELECT COUNT(*)
+      FROM nsd_cc_next n
+      JOIN nsd_cc_labels l ON l.pubkey = n.pubkey
+      WHERE n.label <> l.label
+    `);
+    const changed = Number(changedReader.getRows()[0]![0]);
+
+    await connection.run(`DROP TABLE nsd_cc_labels`);
+    await connection.run(`ALTER TABLE nsd_cc_next RENAME TO nsd_cc_labels`);
+
+    if (changed === 0) {
+      break;
+    }
+  }
+}
+
+/**
+ * Labels strongly connected components into nsd_cc_strong
+ *
+ * Repeats two phases over the pubkeys not labelled yet:
+ * - Trimming: a pubkey without incoming or outgoing edges among them is a
+ *   component on its own. This peels off chains and the many pubkeys that
+ *   only follow or are only followed without any coloring round.
+ * - Coloring: every pubkey takes the smallest pubkey that reaches it. Each
+ *   pubkey that kept its own color collects, walking edges backwards, the
+ *   pubkeys of its color that reach it: exactly its component.
+ *
+ * Components are labelled with their smallest pubkey, like weak components.
+ *
+ * Must be called inside an open transaction.
+ */
+async function labelStrongComponents(
+  connection: DuckDBConnection,
+): Promise<void> {
+  await connection.run(`
+    CREATE OR REPLACE TEMPORARY TABLE nsd_cc_strong (
+      pubkey VARCHAR(64) PRIMARY KEY,
+      component VARCHAR(64) NOT NULL
+    )
+  `);
+  await connection.run(`
+    CREATE OR REPLACE TEMPORARY TABLE nsd_cc_remaining AS
+    SELECT pubkey FROM nsd_cc_nodes
+  `);
+  await connection.run(`
+    CREATE OR REPLACE TEMPORARY TABLE nsd_cc_live AS
+    SELECT source, target FROM nsd_cc_edges
+  `);
+
+  // Moves labelled pubkeys out of the remaining subgraph
+  const removeLabelled = async (table: string) => {
+    await connection.run(
+      `DELETE FROM nsd_cc_remaining WHERE pubkey IN (SELECT pubkey FROM ${table})`,
+    );
+    await connection.run(`
+      DELETE FROM nsd_cc_live
+      WHERE source IN (SELECT pubkey FROM ${table})
+         OR target IN (SELECT pubkey FROM ${table})
+    `);
+  };
+
+  while ((await countRows(connection, "nsd_cc_remaining")) > 0) {
+    for (;;) {
+      await connection.run(`
+        CREATE OR REPLACE TEMPORARY TABLE nsd_cc_trimmed AS
+        SELECT pubkey FROM nsd_cc_remaining
+        WHERE pubkey NOT IN (SELECT target FROM nsd_cc_live)
+           OR pubkey NOT IN (SELECT source FROM nsd_cc_live)
+      `);
+      if ((await countRows(connection, "nsd_cc_trimmed")) === 0) {
+        break;
+      }
+      await connection.run(`
+        INSERT INTO nsd_cc_strong (pubkey, component)
+        SELECT pubkey, pubkey FROM nsd_cc_trimmed
+      `);
+      await removeLabelled("nsd_cc_trimmed");
+    }
+
+    if ((await countRows(connection, "nsd_cc_remaining")) === 0) {
+      break;
+    }
+
+    // Forward: propagate the smallest reaching pubkey
+    await connection.run(`
+      CREATE OR REPLACE TEMPORARY TABLE nsd_cc_colors AS
+      SELECT pubkey, pubkey AS color FROM nsd_cc_remaining
+    `);
+    for (;;) {
+      await connection.run(`
+        CREATE OR REPLACE TEMPORARY TABLE nsd_cc_next AS
+        SELECT c.pubkey, LEAST(c.color, COALESCE(MIN(p.color), c.color)) AS color
+        FROM nsd_cc_colors c
+        LEFT JOIN nsd_cc_live e ON e.target = c.pubkey
+        LEFT JOIN nsd_cc_colors p ON p.pubkey = e.source
+        GROUP BY c.pubkey, c.color
+      `);
+
+      const changedReader = await connection.runAndReadAll(`
+        SELECT COUNT(*)
+        FROM nsd_cc_next n
+        JOIN nsd_cc_colors c ON c.pubkey = n.pubkey
+        WHERE n.color <> c.color
+      `);
+      const changed = Number(changedReader.getRows()[0]![0]);
+
+      await connection.run(`DROP TABLE nsd_cc_colors`);
+      await connection.run(`ALTER TABLE nsd_cc_next RENAME TO nsd_cc_colors`);
+
+      if (changed === 0) {
+        break;
+      }
+    }
+
+    // Backward: collect each color's pubkeys that reach its root
+    await connection.run(`
+      CREATE OR REPLACE TEMPORARY TABLE nsd_cc_found AS
+      SELECT pubkey, color AS component FROM nsd_cc_colors WHERE pubkey = color
+    `);
+    for (;;) {
+      const before = await countRows(connection, "nsd_cc_found");
+      await connection.run(`
+        INSERT INTO nsd_cc_found (pubkey, component)
+        SELECT DISTINCT e.source, f.component
+        FROM nsd_cc_found f
+        JOIN nsd_cc_live e ON e.target = f.pubkey
+        JOIN nsd_cc_colors c ON c.pubkey = e.source AND c.color = f.component
+        WHERE e.source NOT IN (SELECT pubkey FROM nsd_cc_found)
+      `);
+      if ((await countRows(connection, "nsd_cc_found")) === before) {
+        break;
+      }
+    }
+
+    await connection.run(`
+      INSERT INTO nsd_cc_strong (pubkey, component)
+      SELECT pubkey, component FROM nsd_cc_found
+    `);
+    await removeLabelled("nsd_cc_found");
+  }
+}
+
+/**
+ * Labels weakly and strongly connected components of the follow graph and
+ * persists them into nsd_components
+ *
+ * Weak components ignore follow direction; strong components require paths
+ * in both directions. Each component is identified by its smallest pubkey.
+ *
+ * @param connection - Active DuckDB connection
+ * @returns Promise resolving to the number of pubkeys and components
+ */
+export async function computeComponents(
+  connection: DuckDBConnection,
+): Promise<ComponentsResult> {
+  const result: ComponentsResult = {
+    nodeCount: 0,
+    weakComponents: 0,
+    strongComponents: 0,
+  };
+
+  await executeWithRetry(async () => {
+    await connection.run("BEGIN TRANSACTION");
+    try {
+      // Self-follows do not connect anything
+      await connection.run(`
+        CREATE OR REPLACE TEMPORARY TABLE nsd_cc_edges AS
+        SELECT follower_pubkey AS source, followed_pubkey AS target
+        FROM nsd_follows
+        WHERE follower_pubkey <> followed_pubkey
+      `);
+      await connection.run(`
+        CREATE OR REPLACE TEMPORARY TABLE nsd_cc_nodes AS
+        SELECT follower_pubkey AS pubkey FROM nsd_follows
+        UNION
+        SELECT followed_pubkey FROM nsd_follows
+      `);
+
+      await labelWeakComponents(connection);
+      await labelStrongComponents(connection);
+
+      await connection.run(`DELETE FROM nsd_components`);
+      await connection.run(`
+        INSERT INTO nsd_components (pubkey, weak_component, strong_component)
+        SELECT w.pubkey, w.label, s.component
+        FROM nsd_cc_labels w
+        JOIN nsd_cc_strong s ON s.pubkey = w.pubkey
+      `);
+
+      const countReader = await connection.runAndReadAll(`
+        SELECT
+          COUNT(*),
+          COUNT(DISTINCT weak_component),
+          COUNT(DISTINCT strong_component)
+        FROM nsd_components
+      `);
+      const counts = countReader.getRows()[0]!;
+      result.nodeCount = Number(counts[0]);
+      result.weakComponents = Number(counts[1]);
+      result.strongComponents = Number(counts[2]);
+
+      // Cleanup temporary tables
+      for (const table of [
+        "nsd_cc_edges",
+        "nsd_cc_nodes",
+        "nsd_cc_labels",
+        "nsd_cc_next",
+        "nsd_cc_strong",
+        "nsd_cc_remaining",
+        "nsd_cc_live",
+        "nsd_cc_trimmed",
+        "nsd_cc_colors",
+        "nsd_cc_found",
+      ]) {
+        await connection.run(`DROP TABLE IF EXISTS ${table}`);
+      }
+
+      await setMetadataValue(
+        connection,
+        "components_computed_at",
+        String(Date.now()),
+      );
+
+      await connection.run("COMMIT");
+    } catch (error) {
+      await connection.run("ROLLBACK");
+      throw error;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Gets the stored component of a pubkey
+ *
+ * @param connection - Active DuckDB connection
+ * @param pubkey - Normalized pubkey to look up
+ * @param type - Weakly or strongly connected components
+ * @returns Promise resolving to the component, or null if the pubkey is not labelled
+ */
+export async function getComponent(
+  connection: DuckDBConnection,
+  pubkey: string,
+  type: ComponentType,
+): Promise<Component | null> {
+  const column = getComponentColumn(type);
+  const reader = await connection.runAndReadAll(
+    `
+    SELECT c.${column}, COUNT(*)
+    FROM nsd_components c
+    JOIN nsd_components m ON m.${column} = c.${column}
+    WHERE c.pubkey = ?
+    GROUP BY c.${column}
+    `,
+    [pubkey],
+  );
+  const rows = reader.getRows();
+  if (rows.length === 0) {
+    return null;
+  }
+  return { id: rows[0]![0] as string, size: Number(rows[0]![1]) };
+}
+
+/**
+ * Gets the distribution of stored components by size
+ *
+ * @param connection - Active DuckDB connection
+ * @param type - Weakly or strongly connected components
+ * @returns Promise resolving to a map of component size -> number of components
+ */
+export async function getComponentSizes(
+  connection: DuckDBConnection,
+  type: ComponentType,
+): Promise<Record<number, number>> {
+  const column = getComponentColumn(type);
+  const reader = await connection.runAndReadAll(`
+    SELECT size, COUNT(*)
+    FROM (SELECT COUNT(*) AS size FROM nsd_components GROUP BY ${column})
+    GROUP BY size
+    ORDER BY size
+  `);
+
+  const sizes: Record<number, number> = {};
+  for (const row of reader.getRows()) {
+    sizes[Number(row[0])] = Number(row[1]);
+  }
+  return sizes;
+}
+
+/**
+ * Gets the largest stored component, ties going to the smallest id
+ *
+ * @param connection - Active DuckDB connection
+ * @param type - Weakly or strongly connected components
+ * @returns Promise resolving to the component, or null if none are stored
+ */
+export async function getLargestComponent(
+  connection: DuckDBConnection,
+  type: ComponentType,
+): Promise<Component | null> {
+  const column = getComponentColumn(type);
+  const reader = await connection.runAndReadAll(`
+    SELECT ${column}, COUNT(*) AS size
+    FROM nsd_components
+    GROUP BY ${column}
+    ORDER BY size DESC, ${column}
+    LIMIT 1
+  `);
+  const rows = reader.getRows();
+  if (rows.length === 0) {
+    return null;
+  }
+  return { id: rows[0]![0] as string, size: Number(rows[0]![1]) };
+}
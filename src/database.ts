@@ -4,7 +4,16 @@
 
 import { DuckDBInstance, DuckDBConnection } from "@duckdb/node-api";
 import { executeWithRetry } from "./utils.js";
-import { GraphStats } from "./types.js";
+import {
+  CommonFollowsOptions,
+  CommonFollowsPage,
+  FollowOrder,
+  FollowPage,
+  FollowPageOptions,
+  GraphStats,
+  Petname,
+  RelayHint,
+} from "./types.js";
 
 /**
  * SQL schema for the follows table
@@ -18,6 +27,147 @@ CREATE TABLE IF NOT EXISTS nsd_follows (
 );
 `;
 
+/**
+ * SQL schema for relay hints and petnames from follow list 'p' tags
+ * Kept apart from nsd_follows since most tags carry neither
+ */
+const CREATE_FOLLOW_HINTS_TABLE = `
+CREATE TABLE IF NOT EXISTS nsd_follow_hints (
+    follower_pubkey VARCHAR(64) NOT NULL,
+    followed_pubkey VARCHAR(64) NOT NULL,
+    relay_url VARCHAR,
+    petname VARCHAR,
+    PRIMARY KEY (follower_pubkey, followed_pubkey)
+);
+`;
+
+/**
+ * SQL schema for the mutes table
+ */
+const CREATE_MUTES_TABLE = `
+CREATE TABLE IF NOT EXISTS nsd_mutes (
+    muter_pubkey VARCHAR(64) NOT NULL,
+    muted_pubkey VARCHAR(64) NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (muter_pubkey, muted_pubkey)
+);
+`;
+
+/**
+ * SQL schema for tracking the latest accepted replaceable event per author and kind
+ * Used to enforce "latest event wins" semantics across ingestion calls, and
+ * to find the lists changed since a root table was built (updated_at, in ms)
+ */
+const CREATE_LATEST_EVENTS_TABLE = `
+CREATE TABLE IF NOT EXISTS nsd_latest_events (
+    pubkey VARCHAR(64) NOT NULL,
+    kind INTEGER NOT NULL,
+    event_id VARCHAR(64) NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at BIGINT,
+    PRIMARY KEY (pubkey, kind)
+);
+
+-- Databases created before updated_at was recorded
+ALTER TABLE nsd_latest_events ADD COLUMN IF NOT EXISTS updated_at BIGINT;
+`;
+
+/**
+ * SQL schema for the append-only log of replaced follow and mute lists
+ * Sequence numbers are gap-free so subscribers can resume after the last one seen
+ */
+const CREATE_CHANGES_TABLE = `
+CREATE TABLE IF NOT EXISTS nsd_changes (
+    seq BIGINT PRIMARY KEY,
+    pubkey VARCHAR(64) NOT NULL,
+    kind INTEGER NOT NULL,
+    event_id VARCHAR(64) NOT NULL,
+    old_created_at INTEGER,
+    new_created_at INTEGER NOT NULL,
+    added INTEGER NOT NULL,
+    removed INTEGER NOT NULL,
+    recorded_at BIGINT NOT NULL
+);
+`;
+
+/**
+ * SQL schema for persisted PageRank scores
+ */
+const CREATE_PAGERANK_TABLE = `
+CREATE TABLE IF NOT EXISTS nsd_pagerank (
+    pubkey VARCHAR(64) PRIMARY KEY,
+    score DOUBLE NOT NULL
+);
+`;
+
+/**
+ * SQL schema for persisted trust scores (personalized PageRank seeded at the root)
+ */
+const CREATE_TRUST_SCORES_TABLE = `
+CREATE TABLE IF NOT EXISTS nsd_trust_scores (
+    pubkey VARCHAR(64) PRIMARY KEY,
+    score DOUBLE NOT NULL
+);
+`;
+
+/**
+ * SQL schema for persisted web-of-trust scores
+ * Signals hold the number of followers and muters at each distance from the root
+ */
+const CREATE_WOT_SCORES_TABLE = `
+CREATE TABLE IF NOT EXISTS nsd_wot_scores (
+    pubkey VARCHAR(64) PRIMARY KEY,
+    score DOUBLE NOT NULL,
+    signals STRUCT(distance INTEGER, followers INTEGER, muters INTEGER)[] NOT NULL
+);
+`;
+
+/**
+ * SQL schema for persisted connected components
+ * Each component is identified by its smallest pubkey
+ */
+const CREATE_COMPONENTS_TABLE = `
+CREATE TABLE IF NOT EXISTS nsd_components (
+    pubkey VARCHAR(64) PRIMARY KEY,
+    weak_component VARCHAR(64) NOT NULL,
+    strong_component VARCHAR(64) NOT NULL
+);
+`;
+
+/**
+ * SQL schema for persisted k-core decomposition
+ */
+const CREATE_KCORE_TABLE = `
+CREATE TABLE IF NOT EXISTS nsd_kcore (
+    pubkey VARCHAR(64) PRIMARY KEY,
+    core INTEGER NOT NULL
+);
+`;
+
+/**
+ * SQL schema for the registry of roots with maintained distances
+ */
+const CREATE_ROOTS_TABLE = `
+CREATE TABLE IF NOT EXISTS nsd_roots (
+    pubkey VARCHAR(64) PRIMARY KEY,
+    max_depth INTEGER NOT NULL,
+    built_at BIGINT NOT NULL,
+    last_used_at BIGINT NOT NULL
+);
+`;
+
+/**
+ * SQL schema for the distances from every registered root
+ */
+const CREATE_MULTI_ROOT_DISTANCES_TABLE = `
+CREATE TABLE IF NOT EXISTS nsd_multi_root_distances (
+    root VARCHAR(64) NOT NULL,
+    pubkey VARCHAR(64) NOT NULL,
+    distance INTEGER NOT NULL,
+    PRIMARY KEY (root, pubkey)
+);
+`;
+
 /**
  * SQL to create metadata table for tracking root optimization state
  */
@@ -35,6 +185,19 @@ const CREATE_INDEXES = `
 -- Index for finding who follows a pubkey (incoming edges)
 -- The PRIMARY KEY already indexes follower_pubkey for outgoing edges
 CREATE INDEX IF NOT EXISTS idx_nsd_follows_followed ON nsd_follows(followed_pubkey);
+
+-- Index for aggregating the hints given for a pubkey
+CREATE INDEX IF NOT EXISTS idx_nsd_follow_hints_followed ON nsd_follow_hints(followed_pubkey);
+
+-- Index for finding who muted a pubkey
+CREATE INDEX IF NOT EXISTS idx_nsd_mutes_muted ON nsd_mutes(muted_pubkey);
+
+-- Indexes for finding the members of a component
+CREATE INDEX IF NOT EXISTS idx_nsd_components_weak ON nsd_components(weak_component);
+CREATE INDEX IF NOT EXISTS idx_nsd_components_strong ON nsd_components(strong_component);
+
+-- Index for patching the distances of every root reaching a pubkey
+CREATE INDEX IF NOT EXISTS idx_nsd_multi_root_distances_pubkey ON nsd_multi_root_distances(pubkey);
 `;
 
 /**
@@ -59,6 +222,17 @@ export async function setupSchema(connection: DuckDBConnection): Promise<void> {
     await connection.run(`
       BEGIN TRANSACTION;
       ${CREATE_FOLLOWS_TABLE}
+      ${CREATE_FOLLOW_HINTS_TABLE}
+      ${CREATE_MUTES_TABLE}
+      ${CREATE_LATEST_EVENTS_TABLE}
+      ${CREATE_CHANGES_TABLE}
+      ${CREATE_PAGERANK_TABLE}
+      ${CREATE_TRUST_SCORES_TABLE}
+      ${CREATE_WOT_SCORES_TABLE}
+      ${CREATE_COMPONENTS_TABLE}
+      ${CREATE_KCORE_TABLE}
+      ${CREATE_ROOTS_TABLE}
+      ${CREATE_MULTI_ROOT_DISTANCES_TABLE}
       ${CREATE_METADATA_TABLE}
       ${CREATE_INDEXES}
       COMMIT;
@@ -124,21 +298,311 @@ export async function pubkeyExists(
 }
 
 /**
- * Gets all pubkeys that a given pubkey follows
+ * Default and maximum number of pubkeys per follow list page
+ */
+const DEFAULT_PAGE_LIMIT = 100;
+const MAX_PAGE_LIMIT = 10000;
+
+/**
+ * Position after the last pubkey of a page, for keyset pagination
+ */
+interface FollowCursor {
+  orderBy: FollowOrder;
+  value: number | null;
+  pubkey: string;
+}
+
+/**
+ * Encodes a cursor as an opaque string
+ */
+function encodeFollowCursor(cursor: FollowCursor): string {
+  return Buffer.from(
+    JSON.stringify([cursor.orderBy, cursor.value, cursor.pubkey]),
+  ).toString("base64url");
+}
+
+/**
+ * Decodes a cursor, checking that it was issued for the requested ordering
+ */
+function decodeFollowCursor(
+  cursor: string,
+  orderBy: FollowOrder,
+): FollowCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 3 ||
+    (decoded[1] !== null && typeof decoded[1] !== "number") ||
+    typeof decoded[2] !== "string"
+  ) {
+    throw new Error("Invalid cursor");
+  }
+  if (decoded[0] !== orderBy) {
+    throw new Error(
+      `Cursor was issued for orderBy '${decoded[0]}', not '${orderBy}'`,
+    );
+  }
+
+  return { orderBy, value: decoded[1], pubkey: decoded[2] };
+}
+
+/**
+ * Gets one page of the follow relationships on one side of a pubkey
+ *
+ * Pages are ordered by the other party's pubkey, by the follow's created_at
+ * (newest first) or by the other party's follower count (highest first),
+ * with the pubkey as a tie-breaker so cursors are stable.
+ */
+async function getFollowPage(
+  connection: DuckDBConnection,
+  direction: "following" | "followers",
+  pubkey: string,
+  options: FollowPageOptions,
+): Promise<FollowPage> {
+  const { limit = DEFAULT_PAGE_LIMIT, orderBy = "pubkey" } = options;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    throw new Error(`limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`);
+  }
+
+  const [ownColumn, otherColumn] =
+    direction === "following"
+      ? ["follower_pubkey", "followed_pubkey"]
+      : ["followed_pubkey", "follower_pubkey"];
+
+  let sortExpression: string | null;
+  let sortDirection: "ASC" | "DESC";
+  switch (orderBy) {
+    case "pubkey":
+      sortExpression = null;
+      sortDirection = "ASC";
+      break;
+    case "created_at":
+      sortExpression = "f.created_at";
+      sortDirection = "DESC";
+      break;
+    case "follower_count":
+      sortExpression = "COALESCE(c.follower_count, 0)";
+      sortDirection = "DESC";
+      break;
+    default:
+      throw new Error(`Unsupported orderBy: ${orderBy}`);
+  }
+
+  const followerCounts =
+    orderBy === "follower_count"
+      ? `LEFT JOIN (
+          SELECT followed_pubkey, COUNT(*) AS follower_count
+          FROM nsd_follows
+          WHERE followed_pubkey IN (SELECT ${otherColumn} FROM nsd_follows WHERE ${ownColumn} = ?)
+          GROUP BY followed_pubkey
+        ) c ON c.followed_pubkey = f.${otherColumn}`
+      : "";
+  const params: (string | number)[] =
+    orderBy === "follower_count" ? [pubkey, pubkey] : [pubkey];
+
+  // Keyset condition: strictly after the cursor position in sort order
+  let after = "";
+  if (options.cursor) {
+    const cursor = decodeFollowCursor(options.cursor, orderBy);
+    if (sortExpression) {
+      const comparison = sortDirection === "DESC" ? "<" : ">";
+      after = `AND (${sortExpression} ${comparison} ? OR (${sortExpression} = ? AND f.${otherColumn} > ?))`;
+      params.push(cursor.value ?? 0, cursor.value ?? 0, cursor.pubkey);
+    } else {
+      after = `AND f.${otherColumn} > ?`;
+      params.push(cursor.pubkey);
+    }
+  }
+
+  // Fetch one extra row to know whether another page exists
+  params.push(limit + 1);
+  const reader = await connection.runAndReadAll(
+    `
+    SELECT f.${otherColumn}, ${sortExpression ?? "NULL"} AS sort_value
+    FROM nsd_follows f
+    ${followerCounts}
+    WHERE f.${ownColumn} = ? ${after}
+    ORDER BY ${sortExpression ? `sort_value ${sortDirection}, ` : ""}f.${otherColumn}
+    LIMIT ?
+    `,
+    params,
+  );
+
+  const rows = reader.getRows();
+  const pageRows = rows.slice(0, limit);
+  const pubkeys = pageRows.map((row) => row![0] as string);
+
+  let nextCursor: string | null = null;
+  if (rows.length > limit) {
+    const last = pageRows[pageRows.length - 1]!;
+    nextCursor = encodeFollowCursor({
+      orderBy,
+      value: last[1] === null ? null : Number(last[1]),
+      pubkey: last[0] as string,
+    });
+  }
+
+  return { pubkeys, nextCursor };
+}
+
+/**
+ * Gets one page of the pubkeys that a given pubkey follows
  * @param connection - Active DuckDB connection
  * @param pubkey - The follower pubkey
- * @returns Promise resolving to array of followed pubkeys
+ * @param options - Page size, cursor and ordering
+ * @returns Promise resolving to a page of followed pubkeys
  */
 export async function getFollowing(
   connection: DuckDBConnection,
   pubkey: string,
+  options: FollowPageOptions = {},
+): Promise<FollowPage> {
+  return getFollowPage(connection, "following", pubkey, options);
+}
+
+/**
+ * Gets one page of the pubkeys that follow a given pubkey
+ * @param connection - Active DuckDB connection
+ * @param pubkey - The followed pubkey
+ * @param options - Page size, cursor and ordering
+ * @returns Promise resolving to a page of follower pubkeys
+ */
+export async function getFollowers(
+  connection: DuckDBConnection,
+  pubkey: string,
+  options: FollowPageOptions = {},
+): Promise<FollowPage> {
+  return getFollowPage(connection, "followers", pubkey, options);
+}
+
+/**
+ * Gets one page of the pubkeys on the same side of two pubkeys, ordered by pubkey
+ */
+async function getCommonFollowPage(
+  connection: DuckDBConnection,
+  direction: "following" | "followers",
+  pubkeyA: string,
+  pubkeyB: string,
+  options: CommonFollowsOptions,
+): Promise<CommonFollowsPage> {
+  const { limit = DEFAULT_PAGE_LIMIT } = options;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    throw new Error(`limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`);
+  }
+
+  const [ownColumn, otherColumn] =
+    direction === "following"
+      ? ["follower_pubkey", "followed_pubkey"]
+      : ["followed_pubkey", "follower_pubkey"];
+  const common = `
+    SELECT a.${otherColumn} AS pubkey
+    FROM nsd_follows a
+    JOIN nsd_follows b ON b.${otherColumn} = a.${otherColumn} AND b.${ownColumn} = $b
+    WHERE a.${ownColumn} = $a
+  `;
+
+  const countReader = await connection.runAndReadAll(
+    `SELECT COUNT(*) FROM (${common})`,
+    { a: pubkeyA, b: pubkeyB },
+  );
+  const total = Number(countReader.getRows()[0]![0]);
+
+  const after = options.cursor
+    ? decodeFollowCursor(options.cursor, "pubkey").pubkey
+    : "";
+  // Fetch one extra row to know whether another page exists
+  const reader = await connection.runAndReadAll(
+    `
+    SELECT pubkey FROM (${common})
+    WHERE pubkey > $after
+    ORDER BY pubkey
+    LIMIT $limit
+    `,
+    { a: pubkeyA, b: pubkeyB, after, limit: limit + 1 },
+  );
+
+  const rows = reader.getRows();
+  const pubkeys = rows.slice(0, limit).map((row) => row![0] as string);
+  const nextCursor =
+    rows.length > limit
+      ? encodeFollowCursor({
+          orderBy: "pubkey",
+          value: null,
+          pubkey: pubkeys[pubkeys.length - 1]!,
+        })
+      : null;
+
+  return { pubkeys, nextCursor, total };
+}
+
+/**
+ * Gets one page of the pubkeys that follow both given pubkeys
+ * @param connection - Active DuckDB connection
+ * @param pubkeyA - The first followed pubkey
+ * @param pubkeyB - The second followed pubkey
+ * @param options - Page size and cursor
+ * @returns Promise resolving to a page of common followers with their total count
+ */
+export async function getCommonFollowers(
+  connection: DuckDBConnection,
+  pubkeyA: string,
+  pubkeyB: string,
+  options: CommonFollowsOptions = {},
+): Promise<CommonFollowsPage> {
+  return getCommonFollowPage(
+    connection,
+    "followers",
+    pubkeyA,
+    pubkeyB,
+    options,
+  );
+}
+
+/**
+ * Gets one page of the pubkeys that both given pubkeys follow
+ * @param connection - Active DuckDB connection
+ * @param pubkeyA - The first follower pubkey
+ * @param pubkeyB - The second follower pubkey
+ * @param options - Page size and cursor
+ * @returns Promise resolving to a page of commonly followed pubkeys with their total count
+ */
+export async function getCommonFollowing(
+  connection: DuckDBConnection,
+  pubkeyA: string,
+  pubkeyB: string,
+  options: CommonFollowsOptions = {},
+): Promise<CommonFollowsPage> {
+  return getCommonFollowPage(
+    connection,
+    "following",
+    pubkeyA,
+    pubkeyB,
+    options,
+  );
+}
+
+/**
+ * Gets all pubkeys muted by a given pubkey
+ * @param connection - Active DuckDB connection
+ * @param pubkey - The muter pubkey
+ * @returns Promise resolving to array of muted pubkeys
+ */
+export async function getMuting(
+  connection: DuckDBConnection,
+  pubkey: string,
 ): Promise<string[]> {
   const reader = await connection.runAndReadAll(
     `
-    SELECT DISTINCT followed_pubkey
-    FROM nsd_follows
-    WHERE follower_pubkey = ?
-    ORDER BY followed_pubkey
+    SELECT muted_pubkey
+    FROM nsd_mutes
+    WHERE muter_pubkey = ?
+    ORDER BY muted_pubkey
     `,
     [pubkey],
   );
@@ -147,24 +611,104 @@ export async function getFollowing(
 }
 
 /**
- * Gets all pubkeys that follow a given pubkey
+ * Gets all pubkeys that have muted a given pubkey
  * @param connection - Active DuckDB connection
- * @param pubkey - The followed pubkey
- * @returns Promise resolving to array of follower pubkeys
+ * @param pubkey - The muted pubkey
+ * @returns Promise resolving to array of muter pubkeys
  */
-export async function getFollowers(
+export async function getMutedBy(
   connection: DuckDBConnection,
   pubkey: string,
 ): Promise<string[]> {
   const reader = await connection.runAndReadAll(
     `
-    SELECT DISTINCT follower_pubkey
-    FROM nsd_follows
-    WHERE followed_pubkey = ?
-    ORDER BY follower_pubkey
+    SELECT muter_pubkey
+    FROM nsd_mutes
+    WHERE muted_pubkey = ?
+    ORDER BY muter_pubkey
     `,
     [pubkey],
   );
 
   return reader.getRows().map((row) => row![0] as string);
 }
+
+/**
+ * Checks if a pubkey has muted another pubkey
+ * @param connection - Active DuckDB connection
+ * @param muterPubkey - The pubkey that may have muted
+ * @param mutedPubkey - The pubkey that may be muted
+ * @returns Promise resolving to true if the mute relationship exists
+ */
+export async function isMuted(
+  connection: DuckDBConnection,
+  muterPubkey: string,
+  mutedPubkey: string,
+): Promise<boolean> {
+  const reader = await connection.runAndReadAll(
+    `SELECT 1 FROM nsd_mutes WHERE muter_pubkey = ? AND muted_pubkey = ?`,
+    [muterPubkey, mutedPubkey],
+  );
+
+  return reader.getRows().length > 0;
+}
+
+/**
+ * Gets the relays most commonly suggested for a pubkey across all follow lists
+ * @param connection - Active DuckDB connection
+ * @param pubkey - The followed pubkey
+ * @param limit - Maximum number of relays to return
+ * @returns Promise resolving to relay hints, most suggested first
+ */
+export async function getRelayHints(
+  connection: DuckDBConnection,
+  pubkey: string,
+  limit: number = 10,
+): Promise<RelayHint[]> {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("limit must be a positive integer");
+  }
+
+  const reader = await connection.runAndReadAll(
+    `
+    SELECT relay_url, COUNT(*) AS suggestions
+    FROM nsd_follow_hints
+    WHERE followed_pubkey = ? AND relay_url IS NOT NULL
+    GROUP BY relay_url
+    ORDER BY suggestions DESC, relay_url
+    LIMIT ?
+    `,
+    [pubkey, limit],
+  );
+
+  return reader.getRows().map((row) => ({
+    relay: row![0] as string,
+    count: Number(row![1]),
+  }));
+}
+
+/**
+ * Gets the petnames assigned to a pubkey in follow lists
+ * @param connection - Active DuckDB connection
+ * @param pubkey - The followed pubkey
+ * @returns Promise resolving to petnames ordered by follower pubkey
+ */
+export async function getPetnames(
+  connection: DuckDBConnection,
+  pubkey: string,
+): Promise<Petname[]> {
+  const reader = await connection.runAndReadAll(
+    `
+    SELECT follower_pubkey, petname
+    FROM nsd_follow_hints
+    WHERE followed_pubkey = ? AND petname IS NOT NULL
+    ORDER BY follower_pubkey
+    `,
+    [pubkey],
+  );
+
+  return reader.getRows().map((row) => ({
+    follower_pubkey: row![0] as string,
+    petname: row![1] as string,
+  }));
+}
@@ -3,7 +3,13 @@
  */
 
 import { DuckDBConnection } from "@duckdb/node-api";
-import type { SocialPath } from "./types.js";
+import type {
+  FollowRelationship,
+  PathOptions,
+  RootDistanceDirection,
+  RootPathCounts,
+  SocialPath,
+} from "./types.js";
 import { normalizePubkey } from "./parser.js";
 import { executeWithRetry } from "./utils.js";
 import { pubkeyExists } from "./database.js";
@@ -98,7 +104,14 @@ export async function findShortestPath(
   fromPubkey: string,
   toPubkey: string,
   maxDepth: number = 6,
+  options: PathOptions = {}
 ): Promise<SocialPath | null> {
+  // Constrained searches walk the filtered follows layer by layer instead
+  if (hasPathConstraints(options)) {
+    const [path] = await findAllShortestPaths(connection, fromPubkey, toPubkey, maxDepth, 1, options);
+    return path ?? null;
+  }
+
   // Normalize pubkeys to lowercase for consistent comparison
   const normalizedFrom = normalizePubkey(fromPubkey);
   const normalizedTo = normalizePubkey(toPubkey);
@@ -225,6 +238,366 @@ export async function findShortestPath(
   };
 }
 
+/**
+ * Every follow lying on some shortest path between two pubkeys
+ */
+interface ShortestPathDag {
+  distance: number;
+  /** Follows on shortest paths, as follower -> followed pubkeys */
+  edges: Map<string, string[]>;
+}
+
+/**
+ * Checks whether path options restrict the follows a path may traverse
+ *
+ * @param options - Path options to check
+ * @returns True if any exclusion, mutual-only or age constraint is set
+ */
+export function hasPathConstraints(options: PathOptions = {}): boolean {
+  return (
+    (options.excludePubkeys?.length ?? 0) > 0 ||
+    options.mutualOnly === true ||
+    options.since !== undefined ||
+    options.excludeMuted === true
+  );
+}
+
+/**
+ * Builds the relation of follows a constrained path may traverse
+ *
+ * Pubkeys to avoid are read from the nsd_sp_excluded temp table, which the
+ * caller fills in beforehand.
+ */
+function getPathEdgesSql(options: PathOptions): string {
+  const { mutualOnly = false, since } = options;
+  const conditions = [
+    `f.follower_pubkey NOT IN (SELECT pubkey FROM nsd_sp_excluded)`,
+    `f.followed_pubkey NOT IN (SELECT pubkey FROM nsd_sp_excluded)`,
+  ];
+  if (since !== undefined) {
+    conditions.push(`f.created_at >= ${since}`);
+  }
+
+  let reverseJoin = '';
+  if (mutualOnly) {
+    reverseJoin = `JOIN nsd_follows r ON r.follower_pubkey = f.followed_pubkey AND r.followed_pubkey = f.follower_pubkey`;
+    if (since !== undefined) {
+      conditions.push(`r.created_at >= ${since}`);
+    }
+  }
+
+  return `(
+    SELECT f.follower_pubkey, f.followed_pubkey
+    FROM nsd_follows f
+    ${reverseJoin}
+    WHERE ${conditions.join(' AND ')}
+  )`;
+}
+
+/**
+ * Finds the follows on all shortest paths between two pubkeys
+ *
+ * Runs a layered bidirectional BFS, always expanding the smaller frontier,
+ * until the frontiers meet. At that point every shortest path crosses the
+ * meeting layer, so walking back from the meeting pubkeys layer by layer on
+ * both sides collects exactly the follows on shortest paths.
+ *
+ * @param connection - Active DuckDB connection
+ * @param fromPubkey - Normalized starting pubkey
+ * @param toPubkey - Normalized target pubkey
+ * @param maxDepth - Maximum path length
+ * @param options - Pubkeys and follows the paths must avoid
+ * @returns Promise resolving to the shortest path DAG, or null if no path exists
+ */
+async function findShortestPathDag(
+  connection: DuckDBConnection,
+  fromPubkey: string,
+  toPubkey: string,
+  maxDepth: number,
+  options: PathOptions = {}
+): Promise<ShortestPathDag | null> {
+  const { since } = options;
+  if (since !== undefined && (!Number.isInteger(since) || since < 0)) {
+    throw new Error("since must be a non-negative integer timestamp");
+  }
+  const constrained = hasPathConstraints(options);
+  const follows = constrained ? getPathEdgesSql(options) : 'nsd_follows';
+
+  if (fromPubkey === toPubkey) {
+    return { distance: 0, edges: new Map() };
+  }
+  if (!(await checkGraphExistence(connection, fromPubkey, toPubkey))) {
+    return null;
+  }
+
+  let dag: ShortestPathDag | null = null;
+
+  await executeWithRetry(async () => {
+    await connection.run("BEGIN TRANSACTION");
+    try {
+      dag = null;
+      await connection.run(
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_sp_forward (node VARCHAR(64) PRIMARY KEY, depth INTEGER NOT NULL)`
+      );
+      await connection.run(
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_sp_backward (node VARCHAR(64) PRIMARY KEY, depth INTEGER NOT NULL)`
+      );
+      await connection.run(
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_sp_edges (source VARCHAR(64), target VARCHAR(64))`
+      );
+      if (constrained) {
+        await connection.run(
+          `CREATE OR REPLACE TEMPORARY TABLE nsd_sp_excluded (pubkey VARCHAR(64) PRIMARY KEY)`
+        );
+        for (const pubkey of options.excludePubkeys ?? []) {
+          await connection.run(`INSERT OR IGNORE INTO nsd_sp_excluded VALUES (?)`, [
+            normalizePubkey(pubkey),
+          ]);
+        }
+        if (options.excludeMuted) {
+          await connection.run(
+            `
+            INSERT OR IGNORE INTO nsd_sp_excluded
+            SELECT muted_pubkey FROM nsd_mutes WHERE muter_pubkey = ?
+            `,
+            [fromPubkey]
+          );
+        }
+      }
+      await connection.run(`INSERT INTO nsd_sp_forward VALUES (?, 0)`, [fromPubkey]);
+      await connection.run(`INSERT INTO nsd_sp_backward VALUES (?, 0)`, [toPubkey]);
+
+      let forwardDepth = 0;
+      let backwardDepth = 0;
+      let met = false;
+
+      for (;;) {
+        const meetReader = await connection.runAndReadAll(`
+          SELECT COUNT(*) FROM nsd_sp_forward f JOIN nsd_sp_backward b ON b.node = f.node
+        `);
+        if (Number(meetReader.getRows()[0]![0]) > 0) {
+          met = true;
+          break;
+        }
+        if (forwardDepth + backwardDepth >= maxDepth) {
+          break;
+        }
+
+        const sizeReader = await connection.runAndReadAll(
+          `
+          SELECT
+            (SELECT COUNT(*) FROM nsd_sp_forward WHERE depth = ?),
+            (SELECT COUNT(*) FROM nsd_sp_backward WHERE depth = ?)
+          `,
+          [forwardDepth, backwardDepth]
+        );
+        const [forwardSize, backwardSize] = sizeReader.getRows()[0]!.map(Number);
+        if (forwardSize === 0 || backwardSize === 0) {
+          break;
+        }
+
+        // Expand the smaller frontier by one layer
+        if (forwardSize! <= backwardSize!) {
+          await connection.run(
+            `
+            INSERT INTO nsd_sp_forward (node, depth)
+            SELECT DISTINCT f.followed_pubkey, ?
+            FROM nsd_sp_forward s
+            JOIN ${follows} f ON f.follower_pubkey = s.node
+            LEFT JOIN nsd_sp_forward visited ON visited.node = f.followed_pubkey
+            WHERE s.depth = ? AND visited.node IS NULL
+            `,
+            [forwardDepth + 1, forwardDepth]
+          );
+          forwardDepth++;
+        } else {
+          await connection.run(
+            `
+            INSERT INTO nsd_sp_backward (node, depth)
+            SELECT DISTINCT f.follower_pubkey, ?
+            FROM nsd_sp_backward s
+            JOIN ${follows} f ON f.followed_pubkey = s.node
+            LEFT JOIN nsd_sp_backward visited ON visited.node = f.follower_pubkey
+            WHERE s.depth = ? AND visited.node IS NULL
+            `,
+            [backwardDepth + 1, backwardDepth]
+          );
+          backwardDepth++;
+        }
+      }
+
+      if (met) {
+        // Walk back to the source along follows one forward layer closer
+        await connection.run(`
+          CREATE OR REPLACE TEMPORARY TABLE nsd_sp_layer AS
+          SELECT f.node FROM nsd_sp_forward f JOIN nsd_sp_backward b ON b.node = f.node
+        `);
+        for (let depth = forwardDepth; depth > 0; depth--) {
+          await connection.run(
+            `
+            CREATE OR REPLACE TEMPORARY TABLE nsd_sp_step AS
+            SELECT f.follower_pubkey AS source, f.followed_pubkey AS target
+            FROM nsd_sp_layer l
+            JOIN ${follows} f ON f.followed_pubkey = l.node
+            JOIN nsd_sp_forward p ON p.node = f.follower_pubkey AND p.depth = ?
+            `,
+            [depth - 1]
+          );
+          await connection.run(`INSERT INTO nsd_sp_edges SELECT source, target FROM nsd_sp_step`);
+          await connection.run(`
+            CREATE OR REPLACE TEMPORARY TABLE nsd_sp_layer AS
+            SELECT DISTINCT source AS node FROM nsd_sp_step
+          `);
+        }
+
+        // Walk on to the target along follows one backward layer closer
+        await connection.run(`
+          CREATE OR REPLACE TEMPORARY TABLE nsd_sp_layer AS
+          SELECT f.node FROM nsd_sp_forward f JOIN nsd_sp_backward b ON b.node = f.node
+        `);
+        for (let depth = backwardDepth; depth > 0; depth--) {
+          await connection.run(
+            `
+            CREATE OR REPLACE TEMPORARY TABLE nsd_sp_step AS
+            SELECT f.follower_pubkey AS source, f.followed_pubkey AS target
+            FROM nsd_sp_layer l
+            JOIN ${follows} f ON f.follower_pubkey = l.node
+            JOIN nsd_sp_backward c ON c.node = f.followed_pubkey AND c.depth = ?
+            `,
+            [depth - 1]
+          );
+          await connection.run(`INSERT INTO nsd_sp_edges SELECT source, target FROM nsd_sp_step`);
+          await connection.run(`
+            CREATE OR REPLACE TEMPORARY TABLE nsd_sp_layer AS
+            SELECT DISTINCT target AS node FROM nsd_sp_step
+          `);
+        }
+
+        const edgeReader = await connection.runAndReadAll(
+          `SELECT source, target FROM nsd_sp_edges ORDER BY source, target`
+        );
+        const edges = new Map<string, string[]>();
+        for (const row of edgeReader.getRows()) {
+          const source = row[0] as string;
+          if (!edges.has(source)) {
+            edges.set(source, []);
+          }
+          edges.get(source)!.push(row[1] as string);
+        }
+        dag = { distance: forwardDepth + backwardDepth, edges };
+      }
+
+      // Cleanup temporary tables
+      await connection.run(`DROP TABLE IF EXISTS nsd_sp_forward`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_sp_backward`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_sp_edges`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_sp_layer`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_sp_step`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_sp_excluded`);
+
+      await connection.run("COMMIT");
+    } catch (error) {
+      await connection.run("ROLLBACK");
+      throw error;
+    }
+  });
+
+  return dag;
+}
+
+/**
+ * Finds every shortest path between two pubkeys, up to a maximum number of paths
+ *
+ * Paths are listed in lexicographic order of their pubkeys.
+ *
+ * @param connection - Active DuckDB connection
+ * @param fromPubkey - Starting pubkey (will be normalized to lowercase)
+ * @param toPubkey - Target pubkey (will be normalized to lowercase)
+ * @param maxDepth - Maximum path length
+ * @param maxPaths - Maximum number of paths to return
+ * @param options - Pubkeys and follows the paths must avoid
+ * @returns Promise resolving to the shortest paths, empty if no path exists
+ */
+export async function findAllShortestPaths(
+  connection: DuckDBConnection,
+  fromPubkey: string,
+  toPubkey: string,
+  maxDepth: number,
+  maxPaths: number,
+  options: PathOptions = {}
+): Promise<SocialPath[]> {
+  if (!Number.isInteger(maxPaths) || maxPaths < 1) {
+    throw new Error("maxPaths must be a positive integer");
+  }
+
+  const normalizedFrom = normalizePubkey(fromPubkey);
+  const normalizedTo = normalizePubkey(toPubkey);
+  const dag = await findShortestPathDag(connection, normalizedFrom, normalizedTo, maxDepth, options);
+  if (!dag) {
+    return [];
+  }
+
+  const paths: SocialPath[] = [];
+  const walk = (path: string[]) => {
+    const last = path[path.length - 1]!;
+    if (last === normalizedTo) {
+      paths.push({ path: [...path], distance: dag.distance });
+      return;
+    }
+    for (const next of dag.edges.get(last) ?? []) {
+      if (paths.length >= maxPaths) {
+        return;
+      }
+      path.push(next);
+      walk(path);
+      path.pop();
+    }
+  };
+  walk([normalizedFrom]);
+
+  return paths;
+}
+
+/**
+ * Counts the shortest paths between two pubkeys without listing them
+ *
+ * @param connection - Active DuckDB connection
+ * @param fromPubkey - Starting pubkey (will be normalized to lowercase)
+ * @param toPubkey - Target pubkey (will be normalized to lowercase)
+ * @param maxDepth - Maximum path length
+ * @param options - Pubkeys and follows the paths must avoid
+ * @returns Promise resolving to the number of shortest paths, 0 if no path exists
+ */
+export async function countShortestPaths(
+  connection: DuckDBConnection,
+  fromPubkey: string,
+  toPubkey: string,
+  maxDepth: number,
+  options: PathOptions = {}
+): Promise<number> {
+  const normalizedFrom = normalizePubkey(fromPubkey);
+  const normalizedTo = normalizePubkey(toPubkey);
+  const dag = await findShortestPathDag(connection, normalizedFrom, normalizedTo, maxDepth, options);
+  if (!dag) {
+    return 0;
+  }
+
+  // Number of shortest paths from each pubkey to the target
+  const counts = new Map<string, number>([[normalizedTo, 1]]);
+  const count = (pubkey: string): number => {
+    if (!counts.has(pubkey)) {
+      let total = 0;
+      for (const next of dag.edges.get(pubkey) ?? []) {
+        total += count(next);
+      }
+      counts.set(pubkey, total);
+    }
+    return counts.get(pubkey)!;
+  };
+
+  return count(normalizedFrom);
+}
+
 /**
  * Checks if a direct follow relationship exists between two pubkeys
  *
@@ -388,13 +761,6 @@ export async function getUsersWithinDistance(
   return pubkeys;
 }
 
-/**
- * Builds a temporary table with pre-calculated distances from a root pubkey
- *
- * @param connection - Active DuckDB connection
- * @param rootPubkey - The root pubkey
- * @param maxDepth - Maximum depth to traverse
- */
 /**
  * Sets a value in the metadata table
  */
@@ -429,12 +795,88 @@ export async function getMetadataValue(
   return String(rows[0]![0]);
 }
 
+/**
+ * Storage of the root distances in each direction
+ *
+ * Distances grow from parent to child along each follow: outbound from the
+ * follower to the followed pubkey, inbound the other way around. Each row
+ * keeps one parent one hop closer to the root, so a shortest path is a walk
+ * up the parents, along with the number of such parents and of shortest paths.
+ */
+const ROOT_DISTANCE_TABLES: Record<
+  RootDistanceDirection,
+  {
+    table: string;
+    metadataPrefix: string;
+    parentColumn: string;
+    childColumn: string;
+  }
+> = {
+  outbound: {
+    table: 'nsd_root_distances',
+    metadataPrefix: 'root',
+    parentColumn: 'follower_pubkey',
+    childColumn: 'followed_pubkey',
+  },
+  inbound: {
+    table: 'nsd_root_inbound_distances',
+    metadataPrefix: 'root_inbound',
+    parentColumn: 'followed_pubkey',
+    childColumn: 'follower_pubkey',
+  },
+};
+
+/**
+ * Gets the root distances table name for a direction
+ *
+ * @param direction - Outbound (from the root) or inbound (to the root)
+ * @returns The table name
+ */
+export function getRootDistanceTable(direction: RootDistanceDirection = 'outbound'): string {
+  const entry = ROOT_DISTANCE_TABLES[direction];
+  if (!entry) {
+    throw new Error("direction must be 'outbound' or 'inbound'");
+  }
+  return entry.table;
+}
+
+/**
+ * Gets the metadata key under which a root distances table records its state
+ *
+ * @param direction - Outbound (from the root) or inbound (to the root)
+ * @param key - "pubkey", "depth" or "built_at"
+ * @returns The metadata key, e.g. "root_inbound_pubkey"
+ */
+export function getRootMetadataKey(
+  direction: RootDistanceDirection,
+  key: 'pubkey' | 'depth' | 'built_at'
+): string {
+  return `${ROOT_DISTANCE_TABLES[direction].metadataPrefix}_${key}`;
+}
+
+/**
+ * Builds a persistent table of BFS distances between the root and every
+ * pubkey within maxDepth
+ *
+ * Outbound distances follow the follows from the root, inbound distances
+ * walk them backwards to the root. Among the parents found for a pubkey, the
+ * smallest one is kept. Parent and shortest path counts are filled in once
+ * every layer is known.
+ *
+ * @param connection - Active DuckDB connection
+ * @param rootPubkey - The root pubkey
+ * @param maxDepth - Maximum depth to traverse
+ * @param direction - Outbound (from the root, default) or inbound (to the root)
+ */
 export async function buildRootDistancesTable(
   connection: DuckDBConnection,
   rootPubkey: string,
   maxDepth: number,
+  direction: RootDistanceDirection = 'outbound'
 ): Promise<void> {
   const normalizedRoot = normalizePubkey(rootPubkey);
+  const table = getRootDistanceTable(direction);
+  const { parentColumn, childColumn } = ROOT_DISTANCE_TABLES[direction];
   const BATCH_SIZE = 5000;
 
   // Use retry logic for transaction conflicts
@@ -446,9 +888,12 @@ export async function buildRootDistancesTable(
       // We define PRIMARY KEY immediately to ensure fast lookups during the build process
       await connection.run(
         `
-        CREATE OR REPLACE TABLE nsd_root_distances (
+        CREATE OR REPLACE TABLE ${table} (
           pubkey VARCHAR(64) PRIMARY KEY,
-          distance INTEGER NOT NULL
+          distance INTEGER NOT NULL,
+          parent VARCHAR(64),
+          parent_count INTEGER NOT NULL DEFAULT 0,
+          path_count HUGEINT NOT NULL DEFAULT 0
         );
         `
       );
@@ -462,12 +907,12 @@ export async function buildRootDistancesTable(
         `CREATE OR REPLACE TEMPORARY TABLE nsd_bfs_next_frontier (pubkey VARCHAR(64))`
       );
       await connection.run(
-        `CREATE OR REPLACE TEMPORARY TABLE nsd_batch_candidates (pubkey VARCHAR(64))`
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_batch_candidates (pubkey VARCHAR(64), parent VARCHAR(64))`
       );
 
       // Initialize: Insert root into both tables
       await connection.run(
-        `INSERT INTO nsd_root_distances (pubkey, distance) VALUES (?, 0)`,
+        `INSERT INTO ${table} (pubkey, distance, path_count) VALUES (?, 0, 1)`,
         [normalizedRoot]
       );
       await connection.run(
@@ -496,19 +941,20 @@ export async function buildRootDistancesTable(
           // Find candidates (New Nodes) -> Temp Batch Table
           await connection.run(`
             INSERT INTO nsd_batch_candidates
-            SELECT DISTINCT f.followed_pubkey
+            SELECT f.${childColumn}, MIN(f.${parentColumn})
             FROM (
               SELECT pubkey FROM nsd_bfs_frontier LIMIT ? OFFSET ?
             ) batch
-            JOIN nsd_follows f ON batch.pubkey = f.follower_pubkey
-            LEFT JOIN nsd_root_distances existing ON f.followed_pubkey = existing.pubkey
+            JOIN nsd_follows f ON batch.pubkey = f.${parentColumn}
+            LEFT JOIN ${table} existing ON f.${childColumn} = existing.pubkey
             WHERE existing.pubkey IS NULL
+            GROUP BY f.${childColumn}
           `, [BATCH_SIZE, offset]);
           
           // Move candidates to permanent storage
           await connection.run(`
-            INSERT INTO nsd_root_distances (pubkey, distance)
-            SELECT pubkey, ? FROM nsd_batch_candidates
+            INSERT INTO ${table} (pubkey, distance, parent)
+            SELECT pubkey, ?, parent FROM nsd_batch_candidates
           `, [currentDepth + 1]);
           
           // Move candidates to next frontier
@@ -526,6 +972,8 @@ export async function buildRootDistancesTable(
         `);
       }
 
+      await recomputePathCounts(connection, maxDepth, direction);
+
       // Cleanup temporary tables
       await connection.run(`DROP TABLE IF EXISTS nsd_bfs_frontier`);
       await connection.run(`DROP TABLE IF EXISTS nsd_bfs_next_frontier`);
@@ -533,13 +981,13 @@ export async function buildRootDistancesTable(
 
       // Create index for fast lookups (Primary Key already covers unique lookups)
       await connection.run(`
-        CREATE INDEX IF NOT EXISTS idx_root_distances ON nsd_root_distances(pubkey)
+        CREATE INDEX IF NOT EXISTS idx_${table.replace('nsd_', '')} ON ${table}(pubkey)
       `);
 
       // Update metadata
-      await setMetadataValue(connection, 'root_pubkey', normalizedRoot);
-      await setMetadataValue(connection, 'root_depth', String(maxDepth));
-      await setMetadataValue(connection, 'root_built_at', String(Date.now()));
+      await setMetadataValue(connection, getRootMetadataKey(direction, 'pubkey'), normalizedRoot);
+      await setMetadataValue(connection, getRootMetadataKey(direction, 'depth'), String(maxDepth));
+      await setMetadataValue(connection, getRootMetadataKey(direction, 'built_at'), String(Date.now()));
 
       // Commit transaction
       await connection.run("COMMIT");
@@ -551,23 +999,305 @@ export async function buildRootDistancesTable(
   });
 }
 
+/**
+ * Recomputes the parents and shortest path counts of a root distances table
+ *
+ * Layers are processed in increasing distance, so the counts of every parent
+ * are final by the time its children are summed up. Only the pubkeys listed
+ * in nsd_delta_affected are recomputed when `affectedOnly` is set.
+ *
+ * Must be called inside an open transaction.
+ *
+ * @param connection - Active DuckDB connection
+ * @param maxDepth - Maximum depth stored in the root table
+ * @param direction - Which root distances table to update
+ * @param affectedOnly - Restrict the update to nsd_delta_affected
+ */
+async function recomputePathCounts(
+  connection: DuckDBConnection,
+  maxDepth: number,
+  direction: RootDistanceDirection,
+  affectedOnly: boolean = false,
+): Promise<void> {
+  const { table, parentColumn, childColumn } = ROOT_DISTANCE_TABLES[direction];
+  const affectedJoin = affectedOnly
+    ? `JOIN (SELECT DISTINCT pubkey FROM nsd_delta_affected) a ON child.pubkey = a.pubkey`
+    : '';
+
+  for (let distance = 1; distance <= maxDepth; distance++) {
+    await connection.run(
+      `
+      UPDATE ${table}
+      SET parent = counts.parent,
+        parent_count = counts.parent_count,
+        path_count = counts.path_count
+      FROM (
+        SELECT
+          child.pubkey,
+          MIN(parent.pubkey) AS parent,
+          COUNT(*) AS parent_count,
+          SUM(parent.path_count) AS path_count
+        FROM ${table} child
+        ${affectedJoin}
+        JOIN nsd_follows f ON child.pubkey = f.${childColumn}
+        JOIN ${table} parent ON f.${parentColumn} = parent.pubkey
+        WHERE child.distance = ?
+          AND parent.distance = ?
+        GROUP BY child.pubkey
+      ) counts
+      WHERE ${table}.pubkey = counts.pubkey
+      `,
+      [distance, distance - 1]
+    );
+  }
+}
+
+/**
+ * Collects the pubkeys whose parents or shortest path counts may have changed
+ * in a delta update into nsd_delta_affected
+ *
+ * nsd_delta_affected already holds the children of changed follows. Pubkeys
+ * whose distance changed (nsd_delta_changed) and their children are added,
+ * then everything below them along shortest-path follows.
+ *
+ * Must be called inside an open transaction.
+ */
+async function collectAffectedPathCounts(
+  connection: DuckDBConnection,
+  maxDepth: number,
+  direction: RootDistanceDirection,
+): Promise<void> {
+  const { table, parentColumn, childColumn } = ROOT_DISTANCE_TABLES[direction];
+
+  await connection.run(`
+    INSERT INTO nsd_delta_affected (pubkey)
+    SELECT pubkey FROM nsd_delta_changed
+    UNION
+    SELECT f.${childColumn}
+    FROM nsd_delta_changed c
+    JOIN nsd_follows f ON c.pubkey = f.${parentColumn}
+  `);
+
+  await connection.run(`
+    CREATE OR REPLACE TEMPORARY TABLE nsd_delta_affected_frontier AS
+    SELECT DISTINCT pubkey FROM nsd_delta_affected
+  `);
+
+  for (let i = 0; i < maxDepth; i++) {
+    await connection.run(`
+      CREATE OR REPLACE TEMPORARY TABLE nsd_delta_affected_next AS
+      SELECT DISTINCT child.pubkey
+      FROM nsd_delta_affected_frontier fr
+      JOIN ${table} parent ON fr.pubkey = parent.pubkey
+      JOIN nsd_follows f ON fr.pubkey = f.${parentColumn}
+      JOIN ${table} child ON f.${childColumn} = child.pubkey
+      LEFT JOIN nsd_delta_affected seen ON child.pubkey = seen.pubkey
+      WHERE child.distance = parent.distance + 1
+        AND seen.pubkey IS NULL
+    `);
+
+    const countReader = await connection.runAndReadAll(
+      `SELECT count(*) FROM nsd_delta_affected_next`,
+    );
+    if (Number(countReader.getRows()[0]![0]) === 0) {
+      break;
+    }
+
+    await connection.run(`
+      INSERT INTO nsd_delta_affected (pubkey)
+      SELECT pubkey FROM nsd_delta_affected_next
+    `);
+    await connection.run(`DELETE FROM nsd_delta_affected_frontier`);
+    await connection.run(`
+      INSERT INTO nsd_delta_affected_frontier (pubkey)
+      SELECT pubkey FROM nsd_delta_affected_next
+    `);
+  }
+
+  await connection.run(`DROP TABLE IF EXISTS nsd_delta_affected_frontier`);
+  await connection.run(`DROP TABLE IF EXISTS nsd_delta_affected_next`);
+}
+
+/**
+ * Invalidates and recomputes root distances affected by removed follows
+ *
+ * A node's distance can only grow if every shortest path to it used a removed
+ * edge, so the affected set is the closure of removed shortest-path edges over
+ * the remaining shortest-path edges (distance increasing by exactly one).
+ * Those nodes are dropped and re-inserted layer by layer from the untouched
+ * part of the table; nodes that are no longer reachable within maxDepth stay out.
+ * New follows from the same update may bring recomputed nodes closer than
+ * before, so they are added to nsd_delta_frontier to relax their children.
+ * Children of removed follows and invalidated nodes are recorded in
+ * nsd_delta_affected and nsd_delta_changed for the path counts.
+ *
+ * Must be called inside an open transaction, after the nsd_delta_* tables are created.
+ *
+ * @param connection - Active DuckDB connection
+ * @param removedFollows - Follow relationships removed by the ingestion
+ * @param maxDepth - Maximum depth stored in the root table
+ * @param direction - Which root distances table to patch
+ */
+async function invalidateRemovedFollows(
+  connection: DuckDBConnection,
+  removedFollows: FollowRelationship[],
+  maxDepth: number,
+  direction: RootDistanceDirection,
+): Promise<void> {
+  const { table, parentColumn, childColumn } = ROOT_DISTANCE_TABLES[direction];
+
+  await connection.run(
+    `CREATE OR REPLACE TEMPORARY TABLE nsd_delta_removed (follower_pubkey VARCHAR(64), followed_pubkey VARCHAR(64))`,
+  );
+  await connection.run(
+    `CREATE OR REPLACE TEMPORARY TABLE nsd_delta_invalidated (pubkey VARCHAR(64), distance INTEGER)`,
+  );
+  await connection.run(
+    `CREATE OR REPLACE TEMPORARY TABLE nsd_delta_invalid_frontier (pubkey VARCHAR(64), distance INTEGER)`,
+  );
+
+  const CHUNK_SIZE = 3000;
+  for (let i = 0; i < removedFollows.length; i += CHUNK_SIZE) {
+    const chunk = removedFollows.slice(i, i + CHUNK_SIZE);
+    const placeholders = chunk.map(() => "(?, ?)").join(", ");
+    const params: string[] = [];
+    for (const follow of chunk) {
+      params.push(follow.follower_pubkey, follow.followed_pubkey);
+    }
+    await connection.run(
+      `INSERT INTO nsd_delta_removed (follower_pubkey, followed_pubkey) VALUES ${placeholders}`,
+      params,
+    );
+  }
+
+  await connection.run(`
+    INSERT INTO nsd_delta_affected (pubkey)
+    SELECT ${childColumn} FROM nsd_delta_removed
+  `);
+
+  // Seed: targets of removed edges that were on a shortest path
+  await connection.run(`
+    INSERT INTO nsd_delta_invalid_frontier (pubkey, distance)
+    SELECT DISTINCT child.pubkey, child.distance
+    FROM nsd_delta_removed r
+    JOIN ${table} parent ON r.${parentColumn} = parent.pubkey
+    JOIN ${table} child ON r.${childColumn} = child.pubkey
+    WHERE child.distance = parent.distance + 1
+  `);
+
+  // Expand the invalidated set along the remaining shortest-path edges
+  for (let i = 0; i <= maxDepth; i++) {
+    const countReader = await connection.runAndReadAll(
+      `SELECT count(*) FROM nsd_delta_invalid_frontier`,
+    );
+    if (Number(countReader.getRows()[0]![0]) === 0) {
+      break;
+    }
+
+    await connection.run(`
+      INSERT INTO nsd_delta_invalidated (pubkey, distance)
+      SELECT pubkey, distance FROM nsd_delta_invalid_frontier
+    `);
+
+    await connection.run(`
+      CREATE OR REPLACE TEMPORARY TABLE nsd_delta_invalid_next AS
+      SELECT DISTINCT child.pubkey, child.distance
+      FROM nsd_delta_invalid_frontier fr
+      JOIN nsd_follows f ON fr.pubkey = f.${parentColumn}
+      JOIN ${table} child ON f.${childColumn} = child.pubkey
+      LEFT JOIN nsd_delta_invalidated seen ON child.pubkey = seen.pubkey
+      WHERE child.distance = fr.distance + 1
+        AND seen.pubkey IS NULL
+    `);
+
+    await connection.run(`DELETE FROM nsd_delta_invalid_frontier`);
+    await connection.run(`
+      INSERT INTO nsd_delta_invalid_frontier (pubkey, distance)
+      SELECT pubkey, distance FROM nsd_delta_invalid_next
+    `);
+  }
+
+  const invalidReader = await connection.runAndReadAll(
+    `SELECT count(*), min(distance) FROM nsd_delta_invalidated`,
+  );
+  const invalidRow = invalidReader.getRows()[0]!;
+  const invalidCount = Number(invalidRow[0]);
+
+  if (invalidCount > 0) {
+    await connection.run(`
+      INSERT INTO nsd_delta_changed (pubkey)
+      SELECT pubkey FROM nsd_delta_invalidated
+    `);
+    await connection.run(`
+      DELETE FROM ${table}
+      WHERE pubkey IN (SELECT pubkey FROM nsd_delta_invalidated)
+    `);
+
+    // Distances can only grow, so recompute starting at the smallest old distance
+    const minDistance = Number(invalidRow[1]);
+    for (let distance = minDistance; distance <= maxDepth; distance++) {
+      await connection.run(
+        `
+        INSERT INTO ${table} (pubkey, distance, parent)
+        SELECT inv.pubkey, ?, MIN(parent.pubkey)
+        FROM nsd_delta_invalidated inv
+        JOIN nsd_follows f ON inv.pubkey = f.${childColumn}
+        JOIN ${table} parent ON f.${parentColumn} = parent.pubkey
+        LEFT JOIN ${table} existing ON inv.pubkey = existing.pubkey
+        WHERE parent.distance = ?
+          AND existing.pubkey IS NULL
+        GROUP BY inv.pubkey
+        `,
+        [distance, distance - 1],
+      );
+    }
+
+    await connection.run(`
+      INSERT INTO nsd_delta_frontier (pubkey)
+      SELECT inv.pubkey
+      FROM nsd_delta_invalidated inv
+      JOIN ${table} recomputed ON inv.pubkey = recomputed.pubkey
+    `);
+  }
+
+  await connection.run(`DROP TABLE IF EXISTS nsd_delta_removed`);
+  await connection.run(`DROP TABLE IF EXISTS nsd_delta_invalidated`);
+  await connection.run(`DROP TABLE IF EXISTS nsd_delta_invalid_frontier`);
+  await connection.run(`DROP TABLE IF EXISTS nsd_delta_invalid_next`);
+}
+
 /**
  * Updates the root distances table with delta changes from updated pubkeys
  * This implements the "Delta Patch" strategy for progressive evolution
  *
+ * Removed follows are handled first by invalidating and recomputing the
+ * affected nodes, then new follows propagate distance decreases. Parents and
+ * shortest path counts are recomputed last for the nodes whose parents may
+ * have changed and everything below them, so the table matches a full
+ * rebuild after every update.
+ *
  * @param connection - Active DuckDB connection
  * @param updatedPubkeys - Array of pubkeys that had their follow lists updated
+ * @param removedFollows - Follow relationships dropped by the updated follow lists
+ * @param direction - Which root distances table to patch (default: outbound)
+ * @param recountAllPaths - Recompute every parent and path count instead of the affected ones
  */
 export async function updateRootDistancesDelta(
   connection: DuckDBConnection,
   updatedPubkeys: string[],
+  removedFollows: FollowRelationship[] = [],
+  direction: RootDistanceDirection = "outbound",
+  recountAllPaths: boolean = false,
 ): Promise<void> {
-  if (updatedPubkeys.length === 0) {
+  if (updatedPubkeys.length === 0 && removedFollows.length === 0) {
     return;
   }
 
   // Get current root pubkey from metadata
-  const rootPubkey = await getMetadataValue(connection, "root_pubkey");
+  const rootPubkey = await getMetadataValue(
+    connection,
+    getRootMetadataKey(direction, "pubkey"),
+  );
   if (!rootPubkey) {
     // No root table exists, nothing to update
     return;
@@ -577,8 +1307,12 @@ export async function updateRootDistancesDelta(
   const normalizedUpdated = updatedPubkeys.map(normalizePubkey);
 
   // Get max depth from metadata
-  const rootDepthStr = await getMetadataValue(connection, "root_depth");
+  const rootDepthStr = await getMetadataValue(
+    connection,
+    getRootMetadataKey(direction, "depth"),
+  );
   const maxDepth = rootDepthStr ? parseInt(rootDepthStr, 10) : 6;
+  const { table, parentColumn, childColumn } = ROOT_DISTANCE_TABLES[direction];
 
   await executeWithRetry(async () => {
     await connection.run("BEGIN TRANSACTION");
@@ -588,7 +1322,13 @@ export async function updateRootDistancesDelta(
         `CREATE OR REPLACE TEMPORARY TABLE nsd_delta_frontier (pubkey VARCHAR(64))`,
       );
       await connection.run(
-        `CREATE OR REPLACE TEMPORARY TABLE nsd_delta_updates (pubkey VARCHAR(64), distance INTEGER)`,
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_delta_updates (pubkey VARCHAR(64), distance INTEGER, parent VARCHAR(64))`,
+      );
+      await connection.run(
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_delta_changed (pubkey VARCHAR(64))`,
+      );
+      await connection.run(
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_delta_affected (pubkey VARCHAR(64))`,
       );
 
       // Bulk insert initial frontier
@@ -603,6 +1343,61 @@ export async function updateRootDistancesDelta(
         );
       }
 
+      // Children of the updated follow lists may have gained parents
+      await connection.run(`
+        INSERT INTO nsd_delta_affected (pubkey)
+        SELECT DISTINCT f.${childColumn}
+        FROM nsd_delta_frontier df
+        JOIN nsd_follows f ON df.pubkey = f.follower_pubkey
+      `);
+
+      // Handle unfollows before propagating distance decreases
+      if (removedFollows.length > 0) {
+        await invalidateRemovedFollows(
+          connection,
+          removedFollows,
+          maxDepth,
+          direction,
+        );
+      }
+
+      // Inbound, the updated pubkeys are the children of their new follows,
+      // so they are relaxed from their parents before their own followers
+      if (direction === "inbound") {
+        await connection.run(
+          `
+          INSERT INTO nsd_delta_updates (pubkey, distance, parent)
+          SELECT
+            df.pubkey,
+            MIN(rd.distance + 1) as new_distance,
+            arg_min(rd.pubkey, rd.distance) as parent
+          FROM nsd_delta_frontier df
+          JOIN nsd_follows f ON df.pubkey = f.follower_pubkey
+          JOIN ${table} rd ON f.followed_pubkey = rd.pubkey
+          LEFT JOIN ${table} existing ON df.pubkey = existing.pubkey
+          WHERE rd.distance + 1 <= ?
+            AND (
+              existing.pubkey IS NULL
+              OR rd.distance + 1 < existing.distance
+            )
+          GROUP BY df.pubkey
+          `,
+          [maxDepth],
+        );
+        await connection.run(`
+          DELETE FROM ${table}
+          WHERE pubkey IN (SELECT pubkey FROM nsd_delta_updates)
+        `);
+        await connection.run(`
+          INSERT INTO ${table} (pubkey, distance, parent)
+          SELECT pubkey, distance, parent FROM nsd_delta_updates
+        `);
+        await connection.run(`
+          INSERT INTO nsd_delta_changed (pubkey)
+          SELECT pubkey FROM nsd_delta_updates
+        `);
+      }
+
       // Iteratively propagate updates entirely within the database
       for (let i = 0; i < maxDepth + 2; i++) {
         // Check if frontier is empty
@@ -625,20 +1420,21 @@ export async function updateRootDistancesDelta(
         // 4. Filter where new distance is better than existing or node is new
         await connection.run(
           `
-          INSERT INTO nsd_delta_updates (pubkey, distance)
+          INSERT INTO nsd_delta_updates (pubkey, distance, parent)
           SELECT
-            f.followed_pubkey,
-            MIN(rd.distance + 1) as new_distance
+            f.${childColumn},
+            MIN(rd.distance + 1) as new_distance,
+            arg_min(rd.pubkey, rd.distance) as parent
           FROM nsd_delta_frontier df
-          JOIN nsd_follows f ON df.pubkey = f.follower_pubkey
-          JOIN nsd_root_distances rd ON f.follower_pubkey = rd.pubkey
-          LEFT JOIN nsd_root_distances existing ON f.followed_pubkey = existing.pubkey
+          JOIN nsd_follows f ON df.pubkey = f.${parentColumn}
+          JOIN ${table} rd ON f.${parentColumn} = rd.pubkey
+          LEFT JOIN ${table} existing ON f.${childColumn} = existing.pubkey
           WHERE rd.distance + 1 <= ?
             AND (
               existing.pubkey IS NULL
               OR rd.distance + 1 < existing.distance
             )
-          GROUP BY f.followed_pubkey
+          GROUP BY f.${childColumn}
           `,
           [maxDepth],
         );
@@ -656,14 +1452,18 @@ export async function updateRootDistancesDelta(
         // Apply updates to the main table
         // 1. Remove old entries for updated nodes (to replace them)
         await connection.run(`
-          DELETE FROM nsd_root_distances
+          DELETE FROM ${table}
           WHERE pubkey IN (SELECT pubkey FROM nsd_delta_updates)
         `);
 
         // 2. Insert new/updated entries
         await connection.run(`
-          INSERT INTO nsd_root_distances (pubkey, distance)
-          SELECT pubkey, distance FROM nsd_delta_updates
+          INSERT INTO ${table} (pubkey, distance, parent)
+          SELECT pubkey, distance, parent FROM nsd_delta_updates
+        `);
+        await connection.run(`
+          INSERT INTO nsd_delta_changed (pubkey)
+          SELECT pubkey FROM nsd_delta_updates
         `);
 
         // Prepare next frontier: the nodes we just updated
@@ -674,14 +1474,23 @@ export async function updateRootDistancesDelta(
         `);
       }
 
+      if (recountAllPaths) {
+        await recomputePathCounts(connection, maxDepth, direction);
+      } else {
+        await collectAffectedPathCounts(connection, maxDepth, direction);
+        await recomputePathCounts(connection, maxDepth, direction, true);
+      }
+
       // Cleanup temporary tables
       await connection.run(`DROP TABLE IF EXISTS nsd_delta_frontier`);
       await connection.run(`DROP TABLE IF EXISTS nsd_delta_updates`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_delta_changed`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_delta_affected`);
 
       // Update the build timestamp
       await connection.run(
-        `INSERT OR REPLACE INTO nsd_metadata (key, value) VALUES ('root_built_at', ?)`,
-        [String(Date.now())],
+        `INSERT OR REPLACE INTO nsd_metadata (key, value) VALUES (?, ?)`,
+        [getRootMetadataKey(direction, "built_at"), String(Date.now())],
       );
 
       await connection.run("COMMIT");
@@ -692,23 +1501,121 @@ export async function updateRootDistancesDelta(
   });
 }
 
+/**
+ * Checks whether the graph changed after a root distances table was last built or patched
+ *
+ * Ingestion in this process patches the table right after updating the graph,
+ * so a newer graph_updated_at means another process changed it in between.
+ *
+ * @param connection - Active DuckDB connection
+ * @param direction - Which root distances table to check
+ * @returns Promise resolving to true if the table may be out of date
+ */
+export async function isRootTableStale(
+  connection: DuckDBConnection,
+  direction: RootDistanceDirection,
+): Promise<boolean> {
+  const builtAt = await getMetadataValue(connection, getRootMetadataKey(direction, "built_at"));
+  const graphUpdatedAt = await getMetadataValue(connection, "graph_updated_at");
+  if (!graphUpdatedAt) {
+    return false;
+  }
+  return !builtAt || Number(graphUpdatedAt) > Number(builtAt);
+}
+
+/**
+ * Brings a stale root distances table up to date by replaying the follow
+ * lists changed since it was built
+ *
+ * The follows dropped by those lists are no longer known, but only the ones
+ * recorded as a parent matter for the distances: they are the parent pointers
+ * from a changed pubkey that no longer match a follow. Other dropped follows
+ * still change parent and path counts, so all of them are recounted.
+ *
+ * @param connection - Active DuckDB connection
+ * @param changedPubkeys - Authors of the follow lists accepted since the table was built
+ * @param direction - Which root distances table to patch
+ */
+export async function replayRootDistancesDelta(
+  connection: DuckDBConnection,
+  changedPubkeys: string[],
+  direction: RootDistanceDirection,
+): Promise<void> {
+  if (changedPubkeys.length === 0) {
+    // No follow list changed, the distances are still current
+    await setMetadataValue(connection, getRootMetadataKey(direction, "built_at"), String(Date.now()));
+    return;
+  }
+
+  const { table } = ROOT_DISTANCE_TABLES[direction];
+  const removedFollows: FollowRelationship[] = [];
+
+  // Follows point from the changed pubkeys to their children outbound, to their parents inbound
+  const staleParentSql =
+    direction === "outbound"
+      ? `SELECT t.parent AS follower_pubkey, t.pubkey AS followed_pubkey
+         FROM ${table} t
+         WHERE t.parent IN (SELECT pubkey FROM nsd_replay_changed)`
+      : `SELECT t.pubkey AS follower_pubkey, t.parent AS followed_pubkey
+         FROM ${table} t
+         WHERE t.pubkey IN (SELECT pubkey FROM nsd_replay_changed)
+           AND t.parent IS NOT NULL`;
+
+  await connection.run(
+    `CREATE OR REPLACE TEMPORARY TABLE nsd_replay_changed (pubkey VARCHAR(64))`,
+  );
+  try {
+    const CHUNK_SIZE = 3000;
+    for (let i = 0; i < changedPubkeys.length; i += CHUNK_SIZE) {
+      const chunk = changedPubkeys.slice(i, i + CHUNK_SIZE);
+      await connection.run(
+        `INSERT INTO nsd_replay_changed (pubkey) VALUES ${chunk.map(() => "(?)").join(", ")}`,
+        chunk,
+      );
+    }
+
+    const reader = await connection.runAndReadAll(`
+      SELECT stale.follower_pubkey, stale.followed_pubkey
+      FROM (${staleParentSql}) stale
+      LEFT JOIN nsd_follows f
+        ON f.follower_pubkey = stale.follower_pubkey
+        AND f.followed_pubkey = stale.followed_pubkey
+      WHERE f.follower_pubkey IS NULL
+    `);
+    for (const row of reader.getRows()) {
+      removedFollows.push({
+        follower_pubkey: String(row[0]),
+        followed_pubkey: String(row[1]),
+        created_at: 0,
+      });
+    }
+  } finally {
+    await connection.run(`DROP TABLE IF EXISTS nsd_replay_changed`);
+  }
+
+  await updateRootDistancesDelta(connection, changedPubkeys, removedFollows, direction, true);
+}
+
 /**
  * Gets the distance from the root pubkey to a target pubkey using the pre-calculated table
  *
  * @param connection - Active DuckDB connection
  * @param targetPubkey - The target pubkey
+ * @param direction - Distance from the root (outbound, default) or to the root (inbound)
  * @returns Promise resolving to distance or null
  */
 export async function getDistanceFromRoot(
   connection: DuckDBConnection,
   targetPubkey: string,
+  direction?: RootDistanceDirection,
 ): Promise<number | null> {
   const normalizedTarget = normalizePubkey(targetPubkey);
+  const table = getRootDistanceTable(direction);
 
   const reader = await connection.runAndReadAll(
     `
     SELECT distance
-    FROM nsd_root_distances
+    FROM ${table}
     WHERE pubkey = ?
     LIMIT 1
     `,
@@ -723,21 +1630,107 @@ export async function getDistanceFromRoot(
   return Number(rows[0]![0]);
 }
 
+/**
+ * Gets the number of parents and shortest paths between the root pubkey and a
+ * target pubkey from the pre-calculated table
+ *
+ * @param connection - Active DuckDB connection
+ * @param targetPubkey - The target pubkey
+ * @param direction - Paths from the root (outbound, default) or to the root (inbound)
+ * @returns Promise resolving to the counts, or null if the target is not in the table
+ */
+export async function getPathCountsFromRoot(
+  connection: DuckDBConnection,
+  targetPubkey: string,
+  direction?: RootDistanceDirection,
+): Promise<RootPathCounts | null> {
+  const normalizedTarget = normalizePubkey(targetPubkey);
+  const table = getRootDistanceTable(direction);
+
+  const reader = await connection.runAndReadAll(
+    `SELECT distance, parent_count, path_count FROM ${table} WHERE pubkey = ?`,
+    [normalizedTarget],
+  );
+
+  const rows = reader.getRows();
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return {
+    distance: Number(rows[0]![0]),
+    parents: Number(rows[0]![1]),
+    paths: Number(rows[0]![2]),
+  };
+}
+
+/**
+ * Gets a shortest path between the root pubkey and a target pubkey by walking
+ * up the parents stored in the pre-calculated table
+ *
+ * Takes one lookup per hop instead of a bidirectional search.
+ *
+ * @param connection - Active DuckDB connection
+ * @param targetPubkey - The target pubkey
+ * @param direction - Path from the root (outbound, default) or to the root (inbound)
+ * @returns Promise resolving to the path, or null if the target is not in the table
+ */
+export async function getPathFromRoot(
+  connection: DuckDBConnection,
+  targetPubkey: string,
+  direction: RootDistanceDirection = 'outbound',
+): Promise<SocialPath | null> {
+  const normalizedTarget = normalizePubkey(targetPubkey);
+  const table = getRootDistanceTable(direction);
+
+  const reader = await connection.runAndReadAll(
+    `
+    WITH RECURSIVE chain(pubkey, parent, distance) AS (
+      SELECT pubkey, parent, distance
+      FROM ${table}
+      WHERE pubkey = ?
+      UNION ALL
+      SELECT t.pubkey, t.parent, t.distance
+      FROM chain
+      JOIN ${table} t ON t.pubkey = chain.parent
+      WHERE chain.distance > 0
+    )
+    SELECT pubkey FROM chain ORDER BY distance
+    `,
+    [normalizedTarget],
+  );
+
+  const path = reader.getRows().map((row) => row[0] as string);
+  if (path.length === 0) {
+    return null;
+  }
+
+  // Inbound paths run from the target to the root
+  if (direction === 'inbound') {
+    path.reverse();
+  }
+
+  return { path, distance: path.length - 1 };
+}
+
 /**
  * Gets all users exactly at a specific distance from the root pubkey using the pre-calculated table
  *
  * @param connection - Active DuckDB connection
  * @param distance - The exact distance in hops
+ * @param direction - Distances from the root (outbound, default) or to the root (inbound)
  * @returns Promise resolving to array of pubkeys
  */
 export async function getUsersAtDistanceFromRoot(
   connection: DuckDBConnection,
   distance: number,
+  direction?: RootDistanceDirection,
 ): Promise<string[]> {
+  const table = getRootDistanceTable(direction);
   const reader = await connection.runAndReadAll(
     `
     SELECT pubkey
-    FROM nsd_root_distances
+    FROM ${table}
     WHERE distance = ?
     `,
     [distance],
@@ -791,15 +1784,18 @@ export async function getUsersWithinDistanceFromRoot(
  * Gets the distribution of users by distance from the root pubkey
  *
  * @param connection - Active DuckDB connection
+ * @param direction - Distances from the root (outbound, default) or to the root (inbound)
  * @returns Promise resolving to a map of distance -> count
  */
 export async function getRootDistanceDistribution(
   connection: DuckDBConnection,
+  direction?: RootDistanceDirection,
 ): Promise<Record<number, number>> {
+  const table = getRootDistanceTable(direction);
   const reader = await connection.runAndReadAll(
     `
     SELECT distance, COUNT(*) as count
-    FROM nsd_root_distances
+    FROM ${table}
     WHERE distance > 0
     GROUP BY distance
     ORDER BY distance
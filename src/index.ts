@@ -2,7 +2,7 @@
  * Nostr Social Graph Analysis Library
  *
  * A TypeScript library for performing social graph analysis on Nostr Kind 3 events
- * (follow lists) using DuckDB for efficient graph traversal.
+ * (follow lists) and Kind 10000 events (mute lists) using DuckDB for efficient graph traversal.
  *
  * @packageDocumentation
  */
@@ -15,6 +15,52 @@ export type {
   NostrEvent,
   FollowRelationship,
   ParsedKind3Event,
+  MuteRelationship,
+  ParsedKind10000Event,
+  EventRejectionReason,
+  EventVerificationResult,
+  RejectedEvent,
+  IngestionReport,
+  IngestionProgress,
+  GraphChange,
+  ImportFormat,
+  ImportOptions,
+  Logger,
+  RelayHint,
+  FollowOrder,
+  FollowPageOptions,
+  FollowPage,
+  PageRankOptions,
+  PageRankResult,
+  ScoredPubkey,
+  WotOptions,
+  WotSignal,
+  WotScore,
+  ComponentType,
+  Component,
+  ComponentsResult,
+  KCoreMode,
+  KCoreOptions,
+  KCoreResult,
+  ClusteringMode,
+  ClusteringOptions,
+  LocalClustering,
+  GraphStatsOptions,
+  FollowRecommendationOptions,
+  FollowRecommendation,
+  CommonFollowsOptions,
+  CommonFollowsPage,
+  SimilarityBasis,
+  SimilarityMetric,
+  Similarity,
+  MostSimilarOptions,
+  AllShortestPathsOptions,
+  PathOptions,
+  RootDistanceDirection,
+  RootPathCounts,
+  RootRefreshPolicy,
+  RootInfo,
+  Petname,
   SocialPath,
   SocialGraphConfig,
   GraphStats,
@@ -22,4 +68,5 @@ export type {
 } from "./types.js";
 
 // Utility functions
-export { executeWithRetry, isHex, isHexKey } from "./utils.js";
+export { executeWithRetry, isHex, isHexKey, defaultLogger } from "./utils.js";
+export { computeEventId, verifyEvent } from "./verification.js";
@@ -1,17 +1,147 @@
 /**
- * Data ingestion functions for Nostr Kind 3 events
+ * Data ingestion functions for Nostr Kind 3 (follow list) and Kind 10000 (mute list) events
  */
 
 import { DuckDBConnection } from "@duckdb/node-api";
-import type { NostrEvent } from "./types.js";
-import { parseKind3Event, validateKind3Event } from "./parser.js";
-import { executeWithRetry, isHexKey } from "./utils.js";
+import { createReadStream } from "fs";
+import { createInterface } from "readline";
+import type {
+  NostrEvent,
+  FollowRelationship,
+  GraphChange,
+  ImportOptions,
+  IngestionProgress,
+  IngestionReport,
+  Logger,
+} from "./types.js";
+import {
+  normalizePubkey,
+  parseKind3Event,
+  parseKind10000Event,
+  validateKind3Event,
+  validateKind10000Event,
+} from "./parser.js";
+import { defaultLogger, executeWithRetry } from "./utils.js";
+import { verifyEvent } from "./verification.js";
 
 /**
- * Bulk deletes follows for multiple pubkeys using a single query
+ * Number of events processed per transaction
  */
-async function bulkDeleteFollows(
+const BATCH_SIZE = 100;
+
+/**
+ * Describes how a replaceable list kind maps onto its relationship table
+ */
+interface ListDefinition {
+  /** Nostr event kind of the list */
+  kind: number;
+  /** Table holding the list entries */
+  table: string;
+  /** Column holding the list author */
+  authorColumn: string;
+  /** Column holding the listed pubkey */
+  targetColumn: string;
+  /** Validates the event structure for this kind */
+  validate: (event: NostrEvent) => void;
+  /** Extracts the listed pubkeys from an already validated event */
+  extractTargets: (event: NostrEvent) => string[];
+  /** Replaces details stored outside the list table for the authors of accepted events */
+  replaceDetails?: (
+    connection: DuckDBConnection,
+    events: NostrEvent[],
+  ) => Promise<void>;
+}
+
+/**
+ * Kind 3 follow lists stored in nsd_follows
+ */
+const FOLLOW_LIST: ListDefinition = {
+  kind: 3,
+  table: "nsd_follows",
+  authorColumn: "follower_pubkey",
+  targetColumn: "followed_pubkey",
+  validate: validateKind3Event,
+  extractTargets: (event) =>
+    parseKind3Event(event, true).follows.map(
+      (follow) => follow.followed_pubkey,
+    ),
+  replaceDetails: replaceFollowHints,
+};
+
+/**
+ * Kind 10000 mute lists stored in nsd_mutes
+ */
+const MUTE_LIST: ListDefinition = {
+  kind: 10000,
+  table: "nsd_mutes",
+  authorColumn: "muter_pubkey",
+  targetColumn: "muted_pubkey",
+  validate: validateKind10000Event,
+  extractTargets: (event) =>
+    parseKind10000Event(event, true).mutes.map((mute) => mute.muted_pubkey),
+};
+
+/**
+ * A single stored list entry, independent of the list kind
+ */
+interface ListEntry {
+  author_pubkey: string;
+  target_pubkey: string;
+  created_at: number;
+}
+
+/**
+ * Outcome of processing a single batch of list events
+ */
+interface BatchResult {
+  /** Authors whose lists were replaced */
+  acceptedPubkeys: string[];
+  /** Number of events not newer than the stored ones */
+  staleCount: number;
+  /** Number of entries that were not present in the replaced lists */
+  insertedCount: number;
+  /** Entries present in the replaced lists but absent from the new ones */
+  removedEntries: ListEntry[];
+}
+
+/**
+ * Options controlling how events are ingested
+ */
+export interface IngestionOptions {
+  /** Verify event ids and signatures, skipping events that fail (default: false) */
+  verifySignatures?: boolean;
+  /** Logger receiving progress messages at debug level */
+  logger?: Logger;
+  /** Callback invoked after each batch */
+  onProgress?: (progress: IngestionProgress) => void;
+}
+
+/**
+ * Outcome of an ingestion run
+ */
+export interface IngestionResult {
+  /** Public summary of the ingestion */
+  report: IngestionReport;
+  /** Pubkeys whose follow lists were replaced */
+  updatedFollowers: string[];
+  /** Follow relationships that were dropped by the replaced follow lists */
+  removedFollows: FollowRelationship[];
+}
+
+/**
+ * Resolves the list definition for an event kind
+ * Unknown kinds resolve to follow lists so validation reports the expected kind
+ */
+function getListDefinition(kind: number | undefined): ListDefinition {
+  return kind === MUTE_LIST.kind ? MUTE_LIST : FOLLOW_LIST;
+}
+
+/**
+ * Bulk deletes list entries for multiple authors using a single query
+ */
+async function bulkDeleteListEntries(
   connection: DuckDBConnection,
+  list: ListDefinition,
   pubkeys: string[],
 ): Promise<void> {
   if (pubkeys.length === 0) {
@@ -22,94 +152,735 @@ async function bulkDeleteFollows(
   const placeholders = pubkeys.map(() => "?").join(", ");
   await executeWithRetry(async () => {
     await connection.run(
-      `DELETE FROM nsd_follows WHERE follower_pubkey IN (${placeholders})`,
+      `DELETE FROM ${list.table} WHERE ${list.authorColumn} IN (${placeholders})`,
       pubkeys,
     );
   });
 }
 
 /**
- * Ingests a single Kind 3 Nostr event into the database
+ * Loads the currently stored list entries for multiple authors
+ */
+async function getListEntries(
+  connection: DuckDBConnection,
+  list: ListDefinition,
+  pubkeys: string[],
+): Promise<Map<string, ListEntry[]>> {
+  const entries = new Map<string, ListEntry[]>();
+  if (pubkeys.length === 0) {
+    return entries;
+  }
+
+  const placeholders = pubkeys.map(() => "?").join(", ");
+  const reader = await connection.runAndReadAll(
+    `SELECT ${list.authorColumn}, ${list.targetColumn}, created_at FROM ${list.table} WHERE ${list.authorColumn} IN (${placeholders})`,
+    pubkeys,
+  );
+
+  for (const row of reader.getRows()) {
+    const author = String(row[0]);
+    let authorEntries = entries.get(author);
+    if (!authorEntries) {
+      authorEntries = [];
+      entries.set(author, authorEntries);
+    }
+    authorEntries.push({
+      author_pubkey: author,
+      target_pubkey: String(row[1]),
+      created_at: Number(row[2]),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Replaces the stored relay hints and petnames of follow lists
+ * Only tags carrying a hint or petname are stored, and the first tag for a target wins
+ */
+async function replaceFollowHints(
+  connection: DuckDBConnection,
+  events: NostrEvent[],
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  const placeholders = events.map(() => "?").join(", ");
+  await connection.run(
+    `DELETE FROM nsd_follow_hints WHERE follower_pubkey IN (${placeholders})`,
+    events.map((event) => event.pubkey),
+  );
+
+  const hints: FollowRelationship[] = [];
+  for (const event of events) {
+    const seenTargets = new Set<string>();
+    for (const follow of parseKind3Event(event, true).follows) {
+      if (seenTargets.has(follow.followed_pubkey)) continue;
+      seenTargets.add(follow.followed_pubkey);
+
+      if (follow.relay_url || follow.petname) {
+        hints.push(follow);
+      }
+    }
+  }
+
+  const CHUNK_SIZE = 1000;
+  for (let i = 0; i < hints.length; i += CHUNK_SIZE) {
+    const chunk = hints.slice(i, i + CHUNK_SIZE);
+    const params: (string | null)[] = [];
+    for (const hint of chunk) {
+      params.push(
+        hint.follower_pubkey,
+        hint.followed_pubkey,
+        hint.relay_url ?? null,
+        hint.petname ?? null,
+      );
+    }
+
+    await connection.run(
+      `INSERT OR REPLACE INTO nsd_follow_hints (follower_pubkey, followed_pubkey, relay_url, petname) VALUES ${chunk.map(() => "(?, ?, ?, ?)").join(", ")}`,
+      params,
+    );
+  }
+}
+
+/**
+ * Stored reference to the latest accepted event for an author
+ */
+interface LatestEventRecord {
+  id: string;
+  created_at: number;
+}
+
+/**
+ * Checks whether a candidate replaceable event supersedes the current one
+ *
+ * Follows NIP-01: the event with the higher created_at wins, and on equal
+ * timestamps the event with the lowest id (in lexical order) is retained.
+ */
+function isNewerEvent(
+  candidate: LatestEventRecord,
+  current: LatestEventRecord,
+): boolean {
+  if (candidate.created_at !== current.created_at) {
+    return candidate.created_at > current.created_at;
+  }
+  return candidate.id < current.id;
+}
+
+/**
+ * Loads the latest stored event records for multiple pubkeys of a given kind
+ */
+async function getLatestEventRecords(
+  connection: DuckDBConnection,
+  pubkeys: string[],
+  kind: number,
+): Promise<Map<string, LatestEventRecord>> {
+  const records = new Map<string, LatestEventRecord>();
+  if (pubkeys.length === 0) {
+    return records;
+  }
+
+  const placeholders = pubkeys.map(() => "?").join(", ");
+  const reader = await connection.runAndReadAll(
+    `SELECT pubkey, event_id, created_at FROM nsd_latest_events WHERE kind = ? AND pubkey IN (${placeholders})`,
+    [kind, ...pubkeys],
+  );
+
+  for (const row of reader.getRows()) {
+    records.set(String(row[0]), {
+      id: String(row[1]),
+      created_at: Number(row[2]),
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Records events as the latest accepted ones for their authors
+ */
+async function upsertLatestEventRecords(
+  connection: DuckDBConnection,
+  events: NostrEvent[],
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  const placeholders = events.map(() => "(?, ?, ?, ?, ?)").join(", ");
+  const params: (string | number)[] = [];
+  const updatedAt = Date.now();
+  for (const event of events) {
+    params.push(
+      event.pubkey,
+      event.kind,
+      event.id,
+      event.created_at,
+      updatedAt,
+    );
+  }
+
+  await connection.run(
+    `INSERT OR REPLACE INTO nsd_latest_events (pubkey, kind, event_id, created_at, updated_at) VALUES ${placeholders}`,
+    params,
+  );
+}
+
+/**
+ * Appends replaced lists to the change log, numbering them after the last recorded change
+ */
+async function appendChanges(
+  connection: DuckDBConnection,
+  changes: Omit<GraphChange, "seq" | "recordedAt">[],
+): Promise<void> {
+  if (changes.length === 0) {
+    return;
+  }
+
+  const lastSeq = Number(
+    (
+      await connection.runAndReadAll(
+        "SELECT COALESCE(MAX(seq), 0) FROM nsd_changes",
+      )
+    ).getRows()[0]![0],
+  );
+  const placeholders = changes
+    .map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?)")
+    .join(", ");
+  const params: (string | number | null)[] = [];
+  const recordedAt = Date.now();
+  changes.forEach((change, index) => {
+    params.push(
+      lastSeq + index + 1,
+      change.pubkey,
+      change.kind,
+      change.eventId,
+      change.oldCreatedAt,
+      change.newCreatedAt,
+      change.added,
+      change.removed,
+      recordedAt,
+    );
+  });
+
+  await connection.run(
+    `INSERT INTO nsd_changes (seq, pubkey, kind, event_id, old_created_at, new_created_at, added, removed, recorded_at) VALUES ${placeholders}`,
+    params,
+  );
+}
+
+/**
+ * Ingests a single Kind 3 or Kind 10000 Nostr event into the database
  *
  * This implements Nostr's "latest event wins" semantics by delegating
  * to the batch ingestion function for consistent behavior.
  *
  * @param connection - Active DuckDB connection
- * @param event - The Nostr Kind 3 event to ingest
+ * @param event - The Nostr Kind 3 or Kind 10000 event to ingest
+ * @param options - Ingestion options
+ * @returns Promise resolving to the outcome of the ingestion
  */
 export async function ingestEvent(
   connection: DuckDBConnection,
   event: NostrEvent,
-): Promise<void> {
+  options: IngestionOptions = {},
+): Promise<IngestionResult> {
   // Delegate to batch ingestion for consistent processing
-  await ingestEvents(connection, [event]);
+  return ingestEvents(connection, [event], options);
 }
 
 /**
- * Ingests multiple Kind 3 Nostr events into the database
+ * Ingests multiple Kind 3 (follow list) and Kind 10000 (mute list) Nostr events into the database
  *
  * Events are processed in batches to handle replacements efficiently.
- * If multiple events exist for the same pubkey, only the latest one
- * (by created_at timestamp) will be retained.
+ * If multiple events of the same kind exist for the same pubkey, only the
+ * latest one (by created_at timestamp, lowest id on ties) will be retained.
+ * Events older than the one already stored for their author are ignored.
+ * Malformed events are skipped and reported in the result, as are events
+ * with a wrong id or an invalid signature when verification is enabled.
  *
  * @param connection - Active DuckDB connection
- * @param events - Array of Nostr Kind 3 events to ingest
+ * @param events - Array of Nostr Kind 3 or Kind 10000 events to ingest
+ * @param options - Ingestion options
+ * @returns Promise resolving to the outcome of the ingestion
  */
 export async function ingestEvents(
   connection: DuckDBConnection,
   events: NostrEvent[],
-): Promise<void> {
-  if (events.length === 0) {
-    return;
+  options: IngestionOptions = {},
+): Promise<IngestionResult> {
+  const startTime = performance.now();
+  const result = await ingestChunk(connection, events, options);
+
+  if (result.report.followsInserted + result.report.followsRemoved > 0) {
+    await markGraphUpdated(connection);
   }
 
-  console.log(`Starting ingestion of ${events.length} events...`);
+  result.report.durationMs = performance.now() - startTime;
+  return result;
+}
 
-  // Group events by pubkey and keep only the latest for each
-  const latestEventsByPubkey = new Map<string, NostrEvent>();
+/**
+ * Ingests Kind 3 and Kind 10000 events from an async source in bounded memory
+ *
+ * Events are buffered into chunks of BATCH_SIZE and each chunk is ingested
+ * before the next one is read, so only the current chunk is held in memory.
+ * Latest-wins semantics hold across chunks because every chunk is checked
+ * against the latest events already stored. Progress totals only cover the
+ * events read so far, since the size of the source is unknown.
+ *
+ * Chunks ingested before an invalid event is encountered remain committed.
+ *
+ * @param connection - Active DuckDB connection
+ * @param source - Async iterable yielding Kind 3 or Kind 10000 events
+ * @param options - Ingestion options
+ * @returns Promise resolving to the combined outcome of all chunks
+ */
+export async function ingestStream(
+  connection: DuckDBConnection,
+  source: AsyncIterable<NostrEvent>,
+  options: IngestionOptions = {},
+): Promise<IngestionResult> {
+  const { onProgress } = options;
+  const startTime = performance.now();
+  const result = createIngestionResult(0);
+  const affectedPubkeys = new Set<string>();
+  const updatedFollowers = new Set<string>();
+  let batchesCompleted = 0;
+  let eventsProcessed = 0;
+  let chunk: NostrEvent[] = [];
 
-  for (const event of events) {
-    // Validate event structure before processing
-    validateKind3Event(event);
+  const flushChunk = async () => {
+    const processedBefore = eventsProcessed;
+    const chunkResult = await ingestChunk(connection, chunk, {
+      ...options,
+      // Renumber batches so they keep counting up across chunks
+      onProgress: onProgress
+        ? (progress) => {
+            batchesCompleted++;
+            eventsProcessed = processedBefore + progress.eventsProcessed;
+            onProgress({
+              kind: progress.kind,
+              batch: batchesCompleted,
+              totalBatches: batchesCompleted,
+              eventsProcessed,
+              totalEvents: processedBefore + progress.totalEvents,
+            });
+          }
+        : undefined,
+    });
+    chunk = [];
 
-    const existing = latestEventsByPubkey.get(event.pubkey);
+    const { report } = chunkResult;
+    result.report.eventsReceived += report.eventsReceived;
+    result.report.eventsAccepted += report.eventsAccepted;
+    result.report.eventsRejectedStale += report.eventsRejectedStale;
+    result.report.eventsRejectedInvalid.push(...report.eventsRejectedInvalid);
+    result.report.followsInserted += report.followsInserted;
+    result.report.followsRemoved += report.followsRemoved;
+    for (const pubkey of report.affectedPubkeys) {
+      affectedPubkeys.add(pubkey);
+    }
+    for (const pubkey of chunkResult.updatedFollowers) {
+      updatedFollowers.add(pubkey);
+    }
+    result.removedFollows.push(...chunkResult.removedFollows);
+  };
 
-    // Keep the event with the latest timestamp
-    if (!existing || event.created_at > existing.created_at) {
-      latestEventsByPubkey.set(event.pubkey, event);
+  for await (const event of source) {
+    chunk.push(event);
+    if (chunk.length >= BATCH_SIZE) {
+      await flushChunk();
     }
   }
 
-  console.log(
-    `Processing ${latestEventsByPubkey.size} unique events after deduplication`,
-  );
+  if (chunk.length > 0) {
+    await flushChunk();
+  }
 
-  // Process events in smaller batches for better memory management
-  const BATCH_SIZE = 100;
-  const latestEvents = Array.from(latestEventsByPubkey.values());
-  const totalBatches = Math.ceil(latestEvents.length / BATCH_SIZE);
-
-  for (let i = 0; i < latestEvents.length; i += BATCH_SIZE) {
-    const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
-    const batch = latestEvents.slice(i, i + BATCH_SIZE);
-    console.log(
-      `Processing batch ${batchNumber}/${totalBatches} (${batch.length} events)...`,
-    );
+  result.report.affectedPubkeys = Array.from(affectedPubkeys);
+  result.updatedFollowers = Array.from(updatedFollowers);
 
-    const startTime = performance.now();
-    await processEventBatch(connection, batch);
-    const endTime = performance.now();
+  if (result.report.followsInserted + result.report.followsRemoved > 0) {
+    await markGraphUpdated(connection);
+  }
 
-    console.log(
-      `Batch ${batchNumber} completed in ${(endTime - startTime).toFixed(2)}ms`,
-    );
+  result.report.durationMs = performance.now() - startTime;
+  return result;
+}
+
+/**
+ * Ingests Kind 3 and Kind 10000 events from a JSONL file in bounded memory
+ *
+ * The file is read line by line, with one JSON-encoded event per line.
+ * Blank lines are skipped.
+ *
+ * @param connection - Active DuckDB connection
+ * @param path - Path to the JSONL file
+ * @param options - Ingestion options
+ * @returns Promise resolving to the combined outcome of the ingestion
+ * @throws Error if a line is not valid JSON or holds an invalid event
+ */
+export async function ingestJsonlFile(
+  connection: DuckDBConnection,
+  path: string,
+  options: IngestionOptions = {},
+): Promise<IngestionResult> {
+  return ingestStream(connection, readJsonlEvents(path), options);
+}
+
+/**
+ * Lazily reads events from a JSONL file
+ */
+async function* readJsonlEvents(path: string): AsyncGenerator<NostrEvent> {
+  const lines = createInterface({
+    input: createReadStream(path, { encoding: "utf-8" }),
+    crlfDelay: Infinity,
+  });
+
+  let lineNumber = 0;
+  try {
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        yield JSON.parse(line) as NostrEvent;
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          throw new Error(
+            `Invalid JSON on line ${lineNumber} of ${path}: ${error.message}`,
+          );
+        }
+        throw error;
+      }
+    }
+  } finally {
+    lines.close();
+  }
+}
+
+/**
+ * Bulk imports Kind 3 and Kind 10000 events from a JSONL or Parquet file
+ *
+ * The file is scanned by DuckDB's own readers instead of being parsed in
+ * JavaScript. 'p' tags are unnested and validated in SQL, the latest event
+ * per author and kind is selected (highest created_at, lowest id on ties),
+ * and events not newer than the stored ones are discarded before the lists
+ * are replaced with set-based statements in a single transaction.
+ *
+ * Rows of other kinds, or with a malformed pubkey or created_at, are skipped
+ * and not counted in the report. Signatures are not verified.
+ *
+ * Each row must provide the `id`, `pubkey`, `created_at`, `kind` and `tags`
+ * fields of a Nostr event.
+ *
+ * @param connection - Active DuckDB connection
+ * @param path - Path to the file
+ * @param options - Import options
+ * @param logger - Logger receiving progress messages at debug level
+ * @returns Promise resolving to a report of the import
+ */
+export async function importFromFile(
+  connection: DuckDBConnection,
+  path: string,
+  options: ImportOptions = {},
+  logger: Logger = defaultLogger,
+): Promise<IngestionReport> {
+  const startTime = performance.now();
+  const format =
+    options.format ??
+    (path.toLowerCase().endsWith(".parquet") ? "parquet" : "jsonl");
+  const report = createIngestionResult(0).report;
+
+  const source =
+    format === "parquet"
+      ? "read_parquet(?)"
+      : `read_json(?, format = 'newline_delimited', columns = {id: 'VARCHAR', pubkey: 'VARCHAR', created_at: 'BIGINT', kind: 'INTEGER', tags: 'VARCHAR[][]'})`;
+  const listKinds = [FOLLOW_LIST.kind, MUTE_LIST.kind].join(", ");
+
+  logger.debug(`Importing events from ${path} (${format})...`);
+
+  await executeWithRetry(async () => {
+    await connection.run("BEGIN TRANSACTION");
+
+    try {
+      // Latest event per author and kind, remembering how many versions were read
+      await connection.run(
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_import_candidates AS
+         SELECT
+           CAST(kind AS INTEGER) AS kind,
+           lower(pubkey) AS pubkey,
+           id,
+           CAST(created_at AS BIGINT) AS created_at,
+           CAST(tags AS VARCHAR[][]) AS tags,
+           COUNT(*) OVER (PARTITION BY kind, lower(pubkey)) AS versions
+         FROM ${source}
+         WHERE kind IN (${listKinds})
+           AND regexp_full_match(pubkey, '[0-9a-fA-F]{64}')
+           AND created_at >= 0
+           AND id IS NOT NULL
+           AND tags IS NOT NULL
+         QUALIFY ROW_NUMBER() OVER (
+           PARTITION BY kind, lower(pubkey) ORDER BY created_at DESC, id ASC
+         ) = 1`,
+        [path],
+      );
+
+      // Valid 'p' tags of the latest events, normalized to lowercase
+      await connection.run(
+        // The first tag for a target wins, along with its relay hint and petname
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_import_entries AS
+         SELECT
+           kind,
+           pubkey,
+           lower(tag[2]) AS target,
+           created_at,
+           CASE
+             WHEN regexp_matches(lower(rtrim(trim(tag[3]), '/')), '^wss?://[^\\s/]+')
+             THEN lower(rtrim(trim(tag[3]), '/'))
+           END AS relay_url,
+           NULLIF(trim(tag[4]), '') AS petname
+         FROM (
+           SELECT kind, pubkey, created_at, unnest(tags) AS tag, generate_subscripts(tags, 1) AS position
+           FROM nsd_import_candidates
+         )
+         WHERE len(tag) >= 2
+           AND tag[1] = 'p'
+           AND regexp_full_match(tag[2], '[0-9a-fA-F]{64}')
+         QUALIFY ROW_NUMBER() OVER (
+           PARTITION BY kind, pubkey, lower(tag[2]) ORDER BY position
+         ) = 1`,
+      );
+
+      // Events newer than the stored ones; lists without entries empty the stored ones
+      await connection.run(
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_import_accepted AS
+         SELECT c.kind, c.pubkey, c.id, c.created_at
+         FROM nsd_import_candidates c
+         WHERE NOT EXISTS (
+           SELECT 1 FROM nsd_latest_events l
+           WHERE l.kind = c.kind
+             AND l.pubkey = c.pubkey
+             AND (l.created_at > c.created_at OR (l.created_at = c.created_at AND l.event_id <= c.id))
+         )`,
+      );
+
+      const counts = (
+        await connection.runAndReadAll(
+          `SELECT
+             COALESCE(SUM(versions), 0),
+             COUNT(*),
+             (SELECT COUNT(*) FROM nsd_import_accepted)
+           FROM nsd_import_candidates`,
+        )
+      ).getRows()[0];
+      const candidateCount = Number(counts[1]);
+      report.eventsReceived = Number(counts[0]);
+      report.eventsAccepted = Number(counts[2]);
+      report.eventsRejectedStale =
+        report.eventsReceived - report.eventsAccepted;
+
+      for (const list of [FOLLOW_LIST, MUTE_LIST]) {
+        // New entries of accepted lists; self-mutes are dropped like in the parser
+        const newEntries = `
+          SELECT e.pubkey AS author, e.target, e.created_at
+          FROM nsd_import_entries e
+          JOIN nsd_import_accepted a ON a.kind = e.kind AND a.pubkey = e.pubkey
+          WHERE e.kind = ${list.kind}${list === MUTE_LIST ? " AND e.target <> e.pubkey" : ""}`;
+        const oldEntries = `
+          SELECT ${list.authorColumn} AS author, ${list.targetColumn} AS target
+          FROM ${list.table}
+          WHERE ${list.authorColumn} IN (SELECT pubkey FROM nsd_import_accepted WHERE kind = ${list.kind})`;
+
+        if (list === FOLLOW_LIST) {
+          const diff = (
+            await connection.runAndReadAll(
+              `SELECT
+                 (SELECT COUNT(*) FROM (SELECT author, target FROM (${newEntries}) EXCEPT ${oldEntries})),
+                 (SELECT COUNT(*) FROM (${oldEntries} EXCEPT SELECT author, target FROM (${newEntries})))`,
+            )
+          ).getRows()[0];
+          report.followsInserted = Number(diff[0]);
+          report.followsRemoved = Number(diff[1]);
+        }
+
+        // Log the replaced lists before their entries and latest events are overwritten
+        await connection.run(
+          `INSERT INTO nsd_changes (seq, pubkey, kind, event_id, old_created_at, new_created_at, added, removed, recorded_at)
+           WITH new_entries AS (SELECT author, target FROM (${newEntries})),
+           old_entries AS (${oldEntries}),
+           added AS (
+             SELECT author, COUNT(*) AS count
+             FROM (SELECT * FROM new_entries EXCEPT SELECT * FROM old_entries)
+             GROUP BY author
+           ),
+           removed AS (
+             SELECT author, COUNT(*) AS count
+             FROM (SELECT * FROM old_entries EXCEPT SELECT * FROM new_entries)
+             GROUP BY author
+           )
+           SELECT
+             (SELECT COALESCE(MAX(seq), 0) FROM nsd_changes) + ROW_NUMBER() OVER (ORDER BY a.pubkey),
+             a.pubkey,
+             a.kind,
+             a.id,
+             l.created_at,
+             a.created_at,
+             COALESCE(ad.count, 0),
+             COALESCE(r.count, 0),
+             ?
+           FROM nsd_import_accepted a
+           LEFT JOIN nsd_latest_events l ON l.pubkey = a.pubkey AND l.kind = a.kind
+           LEFT JOIN added ad ON ad.author = a.pubkey
+           LEFT JOIN removed r ON r.author = a.pubkey
+           WHERE a.kind = ${list.kind}`,
+          [Date.now()],
+        );
+
+        await connection.run(
+          `DELETE FROM ${list.table} WHERE ${list.authorColumn} IN (SELECT pubkey FROM nsd_import_accepted WHERE kind = ${list.kind})`,
+        );
+        await connection.run(
+          `INSERT OR REPLACE INTO ${list.table} (${list.authorColumn}, ${list.targetColumn}, created_at) ${newEntries}`,
+        );
+      }
+
+      // Replace relay hints and petnames of the accepted follow lists
+      await connection.run(
+        `DELETE FROM nsd_follow_hints WHERE follower_pubkey IN (SELECT pubkey FROM nsd_import_accepted WHERE kind = ${FOLLOW_LIST.kind})`,
+      );
+      await connection.run(
+        `INSERT OR REPLACE INTO nsd_follow_hints (follower_pubkey, followed_pubkey, relay_url, petname)
+         SELECT e.pubkey, e.target, e.relay_url, e.petname
+         FROM nsd_import_entries e
+         JOIN nsd_import_accepted a ON a.kind = e.kind AND a.pubkey = e.pubkey
+         WHERE e.kind = ${FOLLOW_LIST.kind} AND (e.relay_url IS NOT NULL OR e.petname IS NOT NULL)`,
+      );
+
+      // Remember the accepted events so older ones are rejected later
+      await connection.run(
+        `INSERT OR REPLACE INTO nsd_latest_events (pubkey, kind, event_id, created_at, updated_at)
+         SELECT pubkey, kind, id, created_at, ? FROM nsd_import_accepted`,
+        [Date.now()],
+      );
+
+      const affected = await connection.runAndReadAll(
+        "SELECT DISTINCT pubkey FROM nsd_import_accepted",
+      );
+      report.affectedPubkeys = affected.getRows().map((row) => String(row[0]));
+
+      await connection.run("DROP TABLE IF EXISTS nsd_import_candidates");
+      await connection.run("DROP TABLE IF EXISTS nsd_import_entries");
+      await connection.run("DROP TABLE IF EXISTS nsd_import_accepted");
+
+      await connection.run("COMMIT");
+
+      logger.debug(
+        `Import completed: ${report.eventsAccepted} of ${candidateCount} latest events accepted`,
+      );
+    } catch (error) {
+      await connection.run("ROLLBACK");
+      throw error;
+    }
+  });
+
+  if (report.followsInserted + report.followsRemoved > 0) {
+    await markGraphUpdated(connection);
   }
 
-  console.log(
-    `Ingestion completed: ${latestEventsByPubkey.size} events processed`,
+  report.durationMs = performance.now() - startTime;
+  return report;
+}
+
+/**
+ * Gets the authors whose follow lists were accepted at or after a point in time
+ *
+ * @param connection - Active DuckDB connection
+ * @param since - Timestamp in milliseconds since epoch
+ * @returns Promise resolving to the normalized author pubkeys
+ */
+export async function getFollowListsUpdatedSince(
+  connection: DuckDBConnection,
+  since: number,
+): Promise<string[]> {
+  const reader = await connection.runAndReadAll(
+    `SELECT pubkey FROM nsd_latest_events WHERE kind = ? AND updated_at >= ?`,
+    [FOLLOW_LIST.kind, since],
   );
+  return reader.getRows().map((row) => String(row[0]));
+}
 
-  // Update metadata to track graph changes
+/**
+ * Gets the list replacements recorded after a sequence number
+ *
+ * @param connection - Active DuckDB connection
+ * @param seq - Sequence number of the last change already seen
+ * @param limit - Maximum number of changes to return
+ * @returns Promise resolving to the changes in sequence order
+ */
+export async function getChangesSince(
+  connection: DuckDBConnection,
+  seq: number,
+  limit: number,
+): Promise<GraphChange[]> {
+  if (!Number.isInteger(seq) || seq < 0) {
+    throw new Error("seq must be a non-negative integer");
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("limit must be a positive integer");
+  }
+
+  const reader = await connection.runAndReadAll(
+    `SELECT seq, pubkey, kind, event_id, old_created_at, new_created_at, added, removed, recorded_at
+     FROM nsd_changes
+     WHERE seq > ?
+     ORDER BY seq
+     LIMIT ?`,
+    [seq, limit],
+  );
+  return reader.getRows().map((row) => ({
+    seq: Number(row[0]),
+    pubkey: String(row[1]),
+    kind: Number(row[2]),
+    eventId: String(row[3]),
+    oldCreatedAt: row[4] === null ? null : Number(row[4]),
+    newCreatedAt: Number(row[5]),
+    added: Number(row[6]),
+    removed: Number(row[7]),
+    recordedAt: Number(row[8]),
+  }));
+}
+
+/**
+ * Creates an empty ingestion result
+ */
+function createIngestionResult(eventsReceived: number): IngestionResult {
+  return {
+    report: {
+      eventsReceived,
+      eventsAccepted: 0,
+      eventsRejectedStale: 0,
+      eventsRejectedInvalid: [],
+      followsInserted: 0,
+      followsRemoved: 0,
+      affectedPubkeys: [],
+      durationMs: 0,
+    },
+    updatedFollowers: [],
+    removedFollows: [],
+  };
+}
+
+/**
+ * Records that follows changed so root tables built before can be detected as stale
+ * Stale, mute-only and unchanged lists leave the follow graph and the timestamp alone.
+ */
+async function markGraphUpdated(connection: DuckDBConnection): Promise<void> {
   await executeWithRetry(async () => {
     await connection.run(
       `INSERT OR REPLACE INTO nsd_metadata (key, value) VALUES ('graph_updated_at', ?)`,
@@ -119,69 +890,225 @@ export async function ingestEvents(
 }
 
 /**
- * Processes a batch of events with streaming buffer for memory efficiency
+ * Validates, deduplicates and stores a chunk of events
  *
  * @param connection - Active DuckDB connection
- * @param events - Batch of events to process
+ * @param events - Events to ingest
+ * @param options - Ingestion options
+ * @returns Promise resolving to the outcome of the chunk
  */
-async function processEventBatch(
+async function ingestChunk(
   connection: DuckDBConnection,
   events: NostrEvent[],
-): Promise<void> {
+  options: IngestionOptions,
+): Promise<IngestionResult> {
+  const {
+    verifySignatures = false,
+    logger = defaultLogger,
+    onProgress,
+  } = options;
+  const result = createIngestionResult(events.length);
+  const { report } = result;
+
   if (events.length === 0) {
-    return;
+    return result;
   }
 
-  // Collect pubkeys that need deletion (all events with follows)
-  const pubkeysToDelete = new Set<string>();
-  let hasFollows = false;
+  logger.debug(`Starting ingestion of ${events.length} events...`);
+
+  // Group events by list kind and pubkey, keeping only the latest for each
+  const latestEventsByList = new Map<ListDefinition, Map<string, NostrEvent>>();
 
-  // Quick scan to check if we have any follows in this batch
-  // We manually check tags to avoid the overhead of full parsing/object creation
   for (const event of events) {
-    if (!Array.isArray(event.tags)) continue;
-
-    let hasValidFollow = false;
-    for (const tag of event.tags) {
-      // Check for valid 'p' tag: ["p", "hex_pubkey", ...]
-      if (
-        Array.isArray(tag) &&
-        tag.length >= 2 &&
-        tag[0] === "p" &&
-        isHexKey(tag[1])
-      ) {
-        hasValidFollow = true;
-        break;
+    // Skip malformed events instead of aborting the whole call
+    const list = getListDefinition(event?.kind);
+    try {
+      list.validate(event);
+    } catch (error) {
+      report.eventsRejectedInvalid.push({
+        eventId: typeof event?.id === "string" ? event.id : "",
+        pubkey: typeof event?.pubkey === "string" ? event.pubkey : "",
+        reason: "invalid-structure",
+        message: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    // Reject forged events before they can shadow genuine ones
+    if (verifySignatures) {
+      const verification = verifyEvent(event);
+      if (!verification.valid) {
+        report.eventsRejectedInvalid.push({
+          eventId: event.id,
+          pubkey: event.pubkey,
+          reason: verification.reason,
+          message: verification.message,
+        });
+        continue;
       }
     }
 
-    if (hasValidFollow) {
-      pubkeysToDelete.add(event.pubkey);
-      hasFollows = true;
+    let latestEventsByPubkey = latestEventsByList.get(list);
+    if (!latestEventsByPubkey) {
+      latestEventsByPubkey = new Map<string, NostrEvent>();
+      latestEventsByList.set(list, latestEventsByPubkey);
+    }
+
+    // Key authors in lowercase, as bulk imports do
+    const author = normalizePubkey(event.pubkey);
+    const normalizedEvent =
+      author === event.pubkey ? event : { ...event, pubkey: author };
+    const existing = latestEventsByPubkey.get(author);
+
+    // Keep the latest event, breaking timestamp ties by lowest id
+    if (!existing) {
+      latestEventsByPubkey.set(author, normalizedEvent);
+    } else {
+      report.eventsRejectedStale++;
+      if (isNewerEvent(normalizedEvent, existing)) {
+        latestEventsByPubkey.set(author, normalizedEvent);
+      }
     }
   }
 
-  // Skip if no follows in this batch
-  if (!hasFollows) {
-    return;
+  let uniqueEventCount = 0;
+  for (const latestEventsByPubkey of latestEventsByList.values()) {
+    uniqueEventCount += latestEventsByPubkey.size;
+  }
+
+  if (report.eventsRejectedInvalid.length > 0) {
+    logger.debug(
+      `Rejected ${report.eventsRejectedInvalid.length} invalid events`,
+    );
   }
 
-  // Phase 2: Database operations with streaming buffer
+  logger.debug(
+    `Processing ${uniqueEventCount} unique events after deduplication`,
+  );
+
+  // Process events in smaller batches for better memory management
+  let eventsProcessed = 0;
+
+  for (const [list, latestEventsByPubkey] of latestEventsByList) {
+    const latestEvents = Array.from(latestEventsByPubkey.values());
+    const totalBatches = Math.ceil(latestEvents.length / BATCH_SIZE);
+
+    for (let i = 0; i < latestEvents.length; i += BATCH_SIZE) {
+      const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
+      const batch = latestEvents.slice(i, i + BATCH_SIZE);
+      logger.debug(
+        `Processing Kind ${list.kind} batch ${batchNumber}/${totalBatches} (${batch.length} events)...`,
+      );
+
+      const batchStartTime = performance.now();
+      const batchResult = await processEventBatch(connection, batch, list);
+      const batchEndTime = performance.now();
+
+      report.eventsAccepted += batchResult.acceptedPubkeys.length;
+      report.eventsRejectedStale += batchResult.staleCount;
+      report.affectedPubkeys.push(...batchResult.acceptedPubkeys);
+
+      if (list === FOLLOW_LIST) {
+        report.followsInserted += batchResult.insertedCount;
+        report.followsRemoved += batchResult.removedEntries.length;
+        result.updatedFollowers.push(...batchResult.acceptedPubkeys);
+        for (const entry of batchResult.removedEntries) {
+          result.removedFollows.push({
+            follower_pubkey: entry.author_pubkey,
+            followed_pubkey: entry.target_pubkey,
+            created_at: entry.created_at,
+          });
+        }
+      }
+
+      eventsProcessed += batch.length;
+      onProgress?.({
+        kind: list.kind,
+        batch: batchNumber,
+        totalBatches,
+        eventsProcessed,
+        totalEvents: uniqueEventCount,
+      });
+
+      logger.debug(
+        `Batch ${batchNumber} completed in ${(batchEndTime - batchStartTime).toFixed(2)}ms`,
+      );
+    }
+  }
+
+  // Authors may appear once per list kind
+  report.affectedPubkeys = [...new Set(report.affectedPubkeys)];
+
+  logger.debug(`Ingestion completed: ${uniqueEventCount} events processed`);
+
+  return result;
+}
+
+/**
+ * Processes a batch of list events with streaming buffer for memory efficiency
+ *
+ * @param connection - Active DuckDB connection
+ * @param events - Batch of events to process, all of the list's kind
+ * @param list - Definition of the list the events belong to
+ * @returns Promise resolving to the replaced authors and their removed entries
+ */
+async function processEventBatch(
+  connection: DuckDBConnection,
+  events: NostrEvent[],
+  list: ListDefinition,
+): Promise<BatchResult> {
+  const result: BatchResult = {
+    acceptedPubkeys: [],
+    staleCount: 0,
+    insertedCount: 0,
+    removedEntries: [],
+  };
+
+  if (events.length === 0) {
+    return result;
+  }
+
+  // Every newer event replaces the stored list, even when it has no valid entries
   await executeWithRetry(async () => {
     await connection.run("BEGIN TRANSACTION");
 
     try {
-      // Bulk delete existing follows for all pubkeys in this batch
-      const pubkeysArray = Array.from(pubkeysToDelete);
-      await bulkDeleteFollows(connection, pubkeysArray);
+      // Drop events that are not newer than the latest one already stored
+      const storedEvents = await getLatestEventRecords(
+        connection,
+        events.map((event) => event.pubkey),
+        list.kind,
+      );
+      const acceptedEvents = events.filter((event) => {
+        const stored = storedEvents.get(event.pubkey);
+        return !stored || isNewerEvent(event, stored);
+      });
+
+      // Reset the result in case this operation is being retried
+      result.acceptedPubkeys = [];
+      result.staleCount = events.length - acceptedEvents.length;
+      result.insertedCount = 0;
+      result.removedEntries = [];
+
+      if (acceptedEvents.length === 0) {
+        await connection.run("COMMIT");
+        return;
+      }
 
-      // Insert follows using streaming buffer
+      // Snapshot the lists being replaced so removed entries can be reported
+      const acceptedPubkeys = acceptedEvents.map((event) => event.pubkey);
+      const previousEntries = await getListEntries(
+        connection,
+        list,
+        acceptedPubkeys,
+      );
+
+      // Bulk delete existing entries for all pubkeys in this batch
+      await bulkDeleteListEntries(connection, list, acceptedPubkeys);
+
+      // Insert entries using streaming buffer
       const BUFFER_SIZE = 3000;
-      const buffer: Array<{
-        follower_pubkey: string;
-        followed_pubkey: string;
-        created_at: number;
-      }> = [];
+      const buffer: ListEntry[] = [];
 
       const flushBuffer = async () => {
         if (buffer.length === 0) return;
@@ -189,16 +1116,16 @@ async function processEventBatch(
         const placeholders = buffer.map(() => "(?, ?, ?)").join(", ");
         const params: (string | number)[] = [];
 
-        for (const follow of buffer) {
+        for (const entry of buffer) {
           params.push(
-            follow.follower_pubkey,
-            follow.followed_pubkey,
-            follow.created_at,
+            entry.author_pubkey,
+            entry.target_pubkey,
+            entry.created_at,
           );
         }
 
         await connection.run(
-          `INSERT OR REPLACE INTO nsd_follows (follower_pubkey, followed_pubkey, created_at) VALUES ${placeholders}`,
+          `INSERT OR REPLACE INTO ${list.table} (${list.authorColumn}, ${list.targetColumn}, created_at) VALUES ${placeholders}`,
           params,
         );
 
@@ -206,25 +1133,24 @@ async function processEventBatch(
       };
 
       // Process events one by one with per-event deduplication
-      for (const event of events) {
+      const newTargetsByAuthor = new Map<string, Set<string>>();
+      for (const event of acceptedEvents) {
         // Skip validation here as it was done in ingestEvents
-        const { follows } = parseKind3Event(event, true);
-        if (follows.length === 0) continue;
+        const targets = list.extractTargets(event);
 
-        // Deduplicate follows within this event only
-        const seenFollowed = new Set<string>();
-        const eventFollows: typeof follows = [];
+        // Deduplicate entries within this event only
+        const seenTargets = new Set<string>();
+        newTargetsByAuthor.set(event.pubkey, seenTargets);
 
-        for (const follow of follows) {
-          if (!seenFollowed.has(follow.followed_pubkey)) {
-            seenFollowed.add(follow.followed_pubkey);
-            eventFollows.push(follow);
-          }
-        }
+        for (const target of targets) {
+          if (seenTargets.has(target)) continue;
+          seenTargets.add(target);
 
-        // Add deduplicated follows to buffer
-        for (const follow of eventFollows) {
-          buffer.push(follow);
+          buffer.push({
+            author_pubkey: event.pubkey,
+            target_pubkey: target,
+            created_at: event.created_at,
+          });
 
           // Flush buffer when it reaches the size limit
           if (buffer.length >= BUFFER_SIZE) {
@@ -235,6 +1161,45 @@ async function processEventBatch(
 
       // Flush any remaining data in buffer
       await flushBuffer();
+      await list.replaceDetails?.(connection, acceptedEvents);
+
+      // Diff previous entries against the new lists to find insertions and removals
+      const changes: Omit<GraphChange, "seq" | "recordedAt">[] = [];
+      for (const event of acceptedEvents) {
+        const newTargets = newTargetsByAuthor.get(event.pubkey)!;
+        const entries = previousEntries.get(event.pubkey) ?? [];
+        const previousTargets = new Set(
+          entries.map((entry) => entry.target_pubkey),
+        );
+        let added = 0;
+        let removed = 0;
+        for (const target of newTargets) {
+          if (!previousTargets.has(target)) {
+            added++;
+          }
+        }
+        for (const entry of entries) {
+          if (!newTargets.has(entry.target_pubkey)) {
+            result.removedEntries.push(entry);
+            removed++;
+          }
+        }
+        result.insertedCount += added;
+        changes.push({
+          pubkey: event.pubkey,
+          kind: list.kind,
+          eventId: event.id,
+          oldCreatedAt: storedEvents.get(event.pubkey)?.created_at ?? null,
+          newCreatedAt: event.created_at,
+          added,
+          removed,
+        });
+      }
+      result.acceptedPubkeys = acceptedPubkeys;
+
+      // Remember the accepted events so older ones are rejected later
+      await upsertLatestEventRecords(connection, acceptedEvents);
+      await appendChanges(connection, changes);
 
       await connection.run("COMMIT");
     } catch (error) {
@@ -242,4 +1207,6 @@ async function processEventBatch(
       throw error;
     }
   });
+
+  return result;
 }
@@ -0,0 +1,203 @@
+/**
+ * k-core decomposition of the follow graph
+ */
+
+import { DuckDBConnection } from "@duckdb/node-api";
+import type { KCoreMode, KCoreOptions, KCoreResult } from "./types.js";
+import { executeWithRetry } from "./utils.js";
+import { setMetadataValue } from "./graph-analysis.js";
+
+/**
+ * SQL selecting the undirected edges of each mode, once per pair (a < b)
+ */
+const EDGE_QUERIES: Record<KCoreMode, string> = {
+  undirected: `
+    SELECT DISTINCT
+      LEAST(follower_pubkey, followed_pubkey) AS a,
+      GREATEST(follower_pubkey, followed_pubkey) AS b
+    FROM nsd_follows
+    WHERE follower_pubkey <> followed_pubkey
+  `,
+  mutual: `
+    SELECT f.follower_pubkey AS a, f.followed_pubkey AS b
+    FROM nsd_follows f
+    JOIN nsd_follows r
+      ON r.follower_pubkey = f.followed_pubkey
+     AND r.followed_pubkey = f.follower_pubkey
+    WHERE f.follower_pubkey < f.followed_pubkey
+  `,
+};
+
+/**
+ * Validates k-core options and fills in defaults
+ */
+function resolveKCoreOptions(options: KCoreOptions): Required<KCoreOptions> {
+  const { mode = "undirected" } = options;
+
+  if (!(mode in EDGE_QUERIES)) {
+    throw new Error("mode must be 'mutual' or 'undirected'");
+  }
+
+  return { mode };
+}
+
+/**
+ * Computes the core number of every pubkey and persists it into nsd_kcore
+ *
+ * The follow graph is made undirected, either keeping every follow or only
+ * mutual follows. Peeling starts at k = 0: pubkeys with at most k remaining
+ * neighbours get core number k and are removed, until every remaining pubkey
+ * has more than k neighbours; k then jumps to the smallest remaining degree.
+ * Each round is a set-based query over the remaining edges.
+ *
+ * Every pubkey in nsd_follows gets a core number, 0 for pubkeys without any
+ * edge in the chosen mode.
+ *
+ * @param connection - Active DuckDB connection
+ * @param options - Whether to keep every follow or only mutual follows
+ * @returns Promise resolving to a summary of the decomposition
+ */
+export async function computeKCore(
+  connection: DuckDBConnection,
+  options: KCoreOptions = {},
+): Promise<KCoreResult> {
+  const { mode } = resolveKCoreOptions(options);
+  const result: KCoreResult = { mode, nodeCount: 0, maxCore: 0 };
+
+  await executeWithRetry(async () => {
+    await connection.run("BEGIN TRANSACTION");
+    try {
+      // Both directions of every edge, so degrees are a single GROUP BY
+      await connection.run(`
+        CREATE OR REPLACE TEMPORARY TABLE nsd_kc_live AS
+        WITH edges AS (${EDGE_QUERIES[mode]})
+        SELECT a AS source, b AS target FROM edges
+        UNION ALL
+        SELECT b AS source, a AS target FROM edges
+      `);
+      await connection.run(`
+        CREATE OR REPLACE TEMPORARY TABLE nsd_kc_remaining AS
+        SELECT follower_pubkey AS pubkey FROM nsd_follows
+        UNION
+        SELECT followed_pubkey FROM nsd_follows
+      `);
+      await connection.run(`
+        CREATE OR REPLACE TEMPORARY TABLE nsd_kc_cores (
+          pubkey VARCHAR(64) PRIMARY KEY,
+          core INTEGER NOT NULL
+        )
+      `);
+
+      let k = 0;
+      for (;;) {
+        await connection.run(`
+          CREATE OR REPLACE TEMPORARY TABLE nsd_kc_degrees AS
+          SELECT r.pubkey, COUNT(e.target) AS degree
+          FROM nsd_kc_remaining r
+          LEFT JOIN nsd_kc_live e ON e.source = r.pubkey
+          GROUP BY r.pubkey
+        `);
+
+        const degreeReader = await connection.runAndReadAll(
+          `SELECT COUNT(*), MIN(degree) FROM nsd_kc_degrees`,
+        );
+        const [remaining, minDegree] = degreeReader.getRows()[0]!;
+        if (Number(remaining) === 0) {
+          break;
+        }
+        k = Math.max(k, Number(minDegree));
+
+        await connection.run(
+          `
+          INSERT INTO nsd_kc_cores (pubkey, core)
+          SELECT pubkey, ? FROM nsd_kc_degrees WHERE degree <= ?
+          `,
+          [k, k],
+        );
+        await connection.run(`
+          DELETE FROM nsd_kc_remaining
+          WHERE pubkey IN (SELECT pubkey FROM nsd_kc_cores)
+        `);
+        await connection.run(`
+          DELETE FROM nsd_kc_live
+          WHERE source IN (SELECT pubkey FROM nsd_kc_cores)
+             OR target IN (SELECT pubkey FROM nsd_kc_cores)
+        `);
+      }
+
+      await connection.run(`DELETE FROM nsd_kcore`);
+      await connection.run(`
+        INSERT INTO nsd_kcore (pubkey, core)
+        SELECT pubkey, core FROM nsd_kc_cores
+      `);
+
+      const countReader = await connection.runAndReadAll(
+        `SELECT COUNT(*), COALESCE(MAX(core), 0) FROM nsd_kcore`,
+      );
+      const counts = countReader.getRows()[0]!;
+      result.nodeCount = Number(counts[0]);
+      result.maxCore = Number(counts[1]);
+
+      // Cleanup temporary tables
+      await connection.run(`DROP TABLE IF EXISTS nsd_kc_live`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_kc_remaining`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_kc_cores`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_kc_degrees`);
+
+      await setMetadataValue(connection, "kcore_mode", mode);
+      await setMetadataValue(
+        connection,
+        "kcore_computed_at",
+        String(Date.now()),
+      );
+
+      await connection.run("COMMIT");
+    } catch (error) {
+      await connection.run("ROLLBACK");
+      throw error;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Gets the stored core number of a pubkey
+ *
+ * @param connection - Active DuckDB connection
+ * @param pubkey - Normalized pubkey to look up
+ * @returns Promise resolving to the core number, or null if the pubkey has none stored
+ */
+export async function getCoreNumber(
+  connection: DuckDBConnection,
+  pubkey: string,
+): Promise<number | null> {
+  const reader = await connection.runAndReadAll(
+    `SELECT core FROM nsd_kcore WHERE pubkey = ?`,
+    [pubkey],
+  );
+  const rows = reader.getRows();
+  return rows.length > 0 ? Number(rows[0]![0]) : null;
+}
+
+/**
+ * Gets the members of the stored k-core: pubkeys with a core number of at least k
+ *
+ * @param connection - Active DuckDB connection
+ * @param k - Minimum core number
+ * @returns Promise resolving to the member pubkeys, sorted
+ */
+export async function getKCoreMembers(
+  connection: DuckDBConnection,
+  k: number,
+): Promise<string[]> {
+  if (!Number.isInteger(k) || k < 0) {
+    throw new Error("k must be a non-negative integer");
+  }
+
+  const reader = await connection.runAndReadAll(
+    `SELECT pubkey FROM nsd_kcore WHERE core >= ? ORDER BY pubkey`,
+    [k],
+  );
+  return reader.getRows().map((row) => row[0] as string);
+}
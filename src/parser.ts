@@ -1,26 +1,32 @@
 /**
- * Parser for Nostr Kind 3 (follow list) events
+ * Parser for Nostr Kind 3 (follow list) and Kind 10000 (mute list) events
  */
 
 import type {
   NostrEvent,
   FollowRelationship,
+  MuteRelationship,
   ParsedKind3Event,
+  ParsedKind10000Event,
 } from "./types.js";
-import { isHex, isHexKey } from "./utils.js";
+import { isHexKey, normalizeRelayUrl } from "./utils.js";
 
 /**
- * Validates that an event is a Kind 3 (follow list) event
- * @param event - The Nostr event to validate
- * @throws Error if the event is not a valid Kind 3 event
+ * Validates the common structure of a replaceable list event of the expected kind
  */
-export function validateKind3Event(event: NostrEvent): void {
+function validateListEvent(event: NostrEvent, expectedKind: number): void {
   if (!event) {
     throw new Error("Event is required");
   }
 
-  if (event.kind !== 3) {
-    throw new Error(`Expected Kind 3 event, got Kind ${event.kind}`);
+  if (event.kind !== expectedKind) {
+    throw new Error(
+      `Expected Kind ${expectedKind} event, got Kind ${event.kind}`,
+    );
+  }
+
+  if (!isHexKey(event.pubkey)) {
+    throw new Error("Invalid pubkey: must be a 64-character hex string");
   }
 
   if (typeof event.created_at !== "number" || event.created_at < 0) {
@@ -32,6 +38,24 @@ export function validateKind3Event(event: NostrEvent): void {
   }
 }
 
+/**
+ * Validates that an event is a Kind 3 (follow list) event
+ * @param event - The Nostr event to validate
+ * @throws Error if the event is not a valid Kind 3 event
+ */
+export function validateKind3Event(event: NostrEvent): void {
+  validateListEvent(event, 3);
+}
+
+/**
+ * Validates that an event is a Kind 10000 (mute list) event
+ * @param event - The Nostr event to validate
+ * @throws Error if the event is not a valid Kind 10000 event
+ */
+export function validateKind10000Event(event: NostrEvent): void {
+  validateListEvent(event, 10000);
+}
+
 /**
  * Parses a Kind 3 Nostr event and extracts follow relationships
  *
@@ -55,6 +79,7 @@ export function parseKind3Event(
 
   // Extract follow relationships from 'p' tags
   const follows: FollowRelationship[] = [];
+  const followerPubkey = normalizePubkey(event.pubkey);
 
   // Optimized loop with minimal operations
   for (let i = 0; i < event.tags.length; i++) {
@@ -77,11 +102,23 @@ export function parseKind3Event(
     }
 
     // Add follow relationship
-    follows.push({
-      follower_pubkey: event.pubkey,
+    const follow: FollowRelationship = {
+      follower_pubkey: followerPubkey,
       followed_pubkey: followedPubkey.toLowerCase(), // Normalize to lowercase
       created_at: event.created_at,
-    });
+    };
+
+    // Optional relay hint and petname
+    const relayUrl = normalizeRelayUrl(tag[2]);
+    if (relayUrl) {
+      follow.relay_url = relayUrl;
+    }
+    const petname = typeof tag[3] === "string" ? tag[3].trim() : "";
+    if (petname) {
+      follow.petname = petname;
+    }
+
+    follows.push(follow);
   }
 
   return {
@@ -90,6 +127,60 @@ export function parseKind3Event(
   };
 }
 
+/**
+ * Parses a Kind 10000 Nostr event and extracts public mute relationships
+ *
+ * According to NIP-51, mute lists contain public 'p' tags for muted pubkeys:
+ * ["p", <32-bytes hex key>]
+ * Private mutes are encrypted in the content and are not extracted.
+ * Self-mutes are ignored.
+ *
+ * @param event - The Nostr Kind 10000 event to parse
+ * @param skipValidation - Whether to skip validation (default: false)
+ * @returns Parsed event data with mute relationships
+ * @throws Error if the event is invalid
+ */
+export function parseKind10000Event(
+  event: NostrEvent,
+  skipValidation: boolean = false,
+): ParsedKind10000Event {
+  if (!skipValidation) {
+    validateKind10000Event(event);
+  }
+
+  const mutes: MuteRelationship[] = [];
+  const muterPubkey = normalizePubkey(event.pubkey);
+
+  for (let i = 0; i < event.tags.length; i++) {
+    const tag = event.tags[i];
+
+    if (!Array.isArray(tag) || tag.length < 2 || tag[0] !== "p") {
+      continue;
+    }
+
+    const mutedPubkey = tag[1];
+    if (!isHexKey(mutedPubkey)) {
+      continue;
+    }
+
+    const normalizedMuted = mutedPubkey.toLowerCase();
+    if (normalizedMuted === muterPubkey) {
+      continue;
+    }
+
+    mutes.push({
+      muter_pubkey: muterPubkey,
+      muted_pubkey: normalizedMuted,
+      created_at: event.created_at,
+    });
+  }
+
+  return {
+    mutes,
+    event,
+  };
+}
+
 /**
  * Normalizes a pubkey to lowercase
  * @param pubkey - The pubkey to normalize
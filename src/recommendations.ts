@@ -0,0 +1,92 @@
+/**
+ * Follow recommendations from friends of friends
+ */
+
+import { DuckDBConnection } from "@duckdb/node-api";
+import type {
+  FollowRecommendation,
+  FollowRecommendationOptions,
+} from "./types.js";
+
+/**
+ * Validates recommendation options and fills in defaults
+ */
+function resolveRecommendationOptions(
+  options: FollowRecommendationOptions,
+): Required<FollowRecommendationOptions> {
+  const {
+    limit = 10,
+    excludeMuted = true,
+    minMutualCount = 1,
+    weightByTrust = false,
+  } = options;
+
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("limit must be a positive integer");
+  }
+  if (!Number.isInteger(minMutualCount) || minMutualCount < 1) {
+    throw new Error("minMutualCount must be a positive integer");
+  }
+
+  return { limit, excludeMuted, minMutualCount, weightByTrust };
+}
+
+/**
+ * Ranks the pubkeys followed by the pubkeys a pubkey follows
+ *
+ * Candidates are two hops away: not the pubkey itself, not already followed,
+ * and optionally not muted by it. Each followed pubkey that follows a
+ * candidate adds 1 to its score, or its trust score from nsd_trust_scores
+ * when weighting by trust.
+ *
+ * @param connection - Active DuckDB connection
+ * @param pubkey - Normalized pubkey to recommend follows for
+ * @param options - Limit, mute filtering, minimum mutual count and trust weighting
+ * @returns Promise resolving to recommendations, best first
+ */
+export async function getFollowRecommendations(
+  connection: DuckDBConnection,
+  pubkey: string,
+  options: FollowRecommendationOptions = {},
+): Promise<FollowRecommendation[]> {
+  const { limit, excludeMuted, minMutualCount, weightByTrust } =
+    resolveRecommendationOptions(options);
+
+  const reader = await connection.runAndReadAll(
+    `
+    WITH following AS (
+      SELECT followed_pubkey AS pubkey
+      FROM nsd_follows
+      WHERE follower_pubkey = $pubkey
+    )
+    SELECT
+      f.followed_pubkey,
+      COUNT(*) AS mutual_count,
+      ${weightByTrust ? "SUM(COALESCE(t.score, 0))" : "COUNT(*)"} AS score
+    FROM following fo
+    JOIN nsd_follows f ON f.follower_pubkey = fo.pubkey
+    ${weightByTrust ? "LEFT JOIN nsd_trust_scores t ON t.pubkey = fo.pubkey" : ""}
+    WHERE fo.pubkey <> $pubkey
+      AND f.followed_pubkey <> $pubkey
+      AND f.followed_pubkey NOT IN (SELECT pubkey FROM following)
+      ${
+        excludeMuted
+          ? `AND f.followed_pubkey NOT IN (
+              SELECT muted_pubkey FROM nsd_mutes WHERE muter_pubkey = $pubkey
+            )`
+          : ""
+      }
+    GROUP BY f.followed_pubkey
+    HAVING COUNT(*) >= $minMutualCount
+    ORDER BY score DESC, mutual_count DESC, f.followed_pubkey
+    LIMIT $limit
+    `,
+    { pubkey, minMutualCount, limit },
+  );
+
+  return reader.getRows().map((row) => ({
+    pubkey: row[0] as string,
+    mutualCount: Number(row[1]),
+    score: Number(row[2]),
+  }));
+}
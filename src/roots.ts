@@ -0,0 +1,530 @@
+/**
+ * Registry of root pubkeys with distances kept for each of them
+ *
+ * Unlike the single root of nsd_root_distances, any number of roots can be
+ * registered. Their distances share the keyed nsd_multi_root_distances table
+ * and are patched for all roots at once on ingestion.
+ */
+
+import { DuckDBConnection } from "@duckdb/node-api";
+import type { FollowRelationship, RootInfo } from "./types.js";
+import { executeWithRetry } from "./utils.js";
+
+const CHUNK_SIZE = 3000;
+
+/**
+ * SQL giving a last-used stamp that is later than every stamp in the registry,
+ * so that roots used within the same millisecond keep their order
+ */
+const NEXT_USED_AT = `GREATEST(?::BIGINT, COALESCE((SELECT MAX(last_used_at) FROM nsd_roots), 0) + 1)`;
+
+/**
+ * Gets the registered roots with the depth their distances were computed to
+ *
+ * @param connection - Active DuckDB connection
+ * @returns Promise resolving to a map of root pubkey -> max depth
+ */
+export async function getRegisteredRoots(
+  connection: DuckDBConnection,
+): Promise<Map<string, number>> {
+  const reader = await connection.runAndReadAll(
+    `SELECT pubkey, max_depth FROM nsd_roots`,
+  );
+  return new Map(
+    reader.getRows().map((row) => [row[0] as string, Number(row[1])]),
+  );
+}
+
+/**
+ * Inserts the distances of a root with a layered breadth-first search
+ *
+ * Must be called inside an open transaction, after the root's rows were deleted.
+ */
+async function insertRootDistances(
+  connection: DuckDBConnection,
+  root: string,
+  maxDepth: number,
+): Promise<void> {
+  await connection.run(
+    `INSERT INTO nsd_multi_root_distances (root, pubkey, distance) VALUES (?, ?, 0)`,
+    [root, root],
+  );
+
+  for (let depth = 0; depth < maxDepth; depth++) {
+    await connection.run(
+      `
+      INSERT INTO nsd_multi_root_distances (root, pubkey, distance)
+      SELECT DISTINCT $root, f.followed_pubkey, $next
+      FROM nsd_multi_root_distances p
+      JOIN nsd_follows f ON f.follower_pubkey = p.pubkey
+      LEFT JOIN nsd_multi_root_distances existing
+        ON existing.root = $root AND existing.pubkey = f.followed_pubkey
+      WHERE p.root = $root
+        AND p.distance = $depth
+        AND existing.pubkey IS NULL
+      `,
+      { root, depth, next: depth + 1 },
+    );
+
+    const countReader = await connection.runAndReadAll(
+      `SELECT COUNT(*) FROM nsd_multi_root_distances WHERE root = ? AND distance = ?`,
+      [root, depth + 1],
+    );
+    if (Number(countReader.getRows()[0]![0]) === 0) {
+      break;
+    }
+  }
+}
+
+/**
+ * Computes the distances of a root and registers it as most recently used
+ *
+ * Existing distances of the root are replaced.
+ *
+ * @param connection - Active DuckDB connection
+ * @param root - Normalized root pubkey
+ * @param maxDepth - Maximum depth to traverse
+ */
+export async function buildRoot(
+  connection: DuckDBConnection,
+  root: string,
+  maxDepth: number,
+): Promise<void> {
+  await executeWithRetry(async () => {
+    await connection.run("BEGIN TRANSACTION");
+    try {
+      await connection.run(
+        `DELETE FROM nsd_multi_root_distances WHERE root = ?`,
+        [root],
+      );
+      await insertRootDistances(connection, root, maxDepth);
+
+      await connection.run(`DELETE FROM nsd_roots WHERE pubkey = ?`, [root]);
+      await connection.run(
+        `
+        INSERT INTO nsd_roots (pubkey, max_depth, built_at, last_used_at)
+        VALUES (?, ?, ?, ${NEXT_USED_AT})
+        `,
+        [root, maxDepth, Date.now(), Date.now()],
+      );
+
+      await connection.run("COMMIT");
+    } catch (error) {
+      await connection.run("ROLLBACK");
+      throw error;
+    }
+  });
+}
+
+/**
+ * Recomputes the distances of every registered root from scratch
+ *
+ * Used when delta updates are not possible. Usage order is preserved.
+ *
+ * @param connection - Active DuckDB connection
+ */
+export async function rebuildRoots(
+  connection: DuckDBConnection,
+): Promise<void> {
+  const roots = await getRegisteredRoots(connection);
+
+  await executeWithRetry(async () => {
+    await connection.run("BEGIN TRANSACTION");
+    try {
+      await connection.run(`DELETE FROM nsd_multi_root_distances`);
+      for (const [root, maxDepth] of roots) {
+        await insertRootDistances(connection, root, maxDepth);
+      }
+      await connection.run(`UPDATE nsd_roots SET built_at = ?`, [Date.now()]);
+      await connection.run("COMMIT");
+    } catch (error) {
+      await connection.run("ROLLBACK");
+      throw error;
+    }
+  });
+}
+
+/**
+ * Marks registered roots as most recently used, the last one most recently
+ *
+ * @param connection - Active DuckDB connection
+ * @param roots - Normalized root pubkeys, in order of use
+ */
+export async function touchRoots(
+  connection: DuckDBConnection,
+  roots: string[],
+): Promise<void> {
+  if (roots.length === 0) {
+    return;
+  }
+
+  await executeWithRetry(async () => {
+    await connection.run("BEGIN TRANSACTION");
+    try {
+      for (const root of roots) {
+        await connection.run(
+          `UPDATE nsd_roots SET last_used_at = ${NEXT_USED_AT} WHERE pubkey = ?`,
+          [Date.now(), root],
+        );
+      }
+      await connection.run("COMMIT");
+    } catch (error) {
+      await connection.run("ROLLBACK");
+      throw error;
+    }
+  });
+}
+
+/**
+ * Removes a root and its distances from the registry
+ *
+ * @param connection - Active DuckDB connection
+ * @param root - Normalized root pubkey
+ * @returns Promise resolving to true if the root was registered
+ */
+export async function removeRoot(
+  connection: DuckDBConnection,
+  root: string,
+): Promise<boolean> {
+  let removed = false;
+
+  await executeWithRetry(async () => {
+    await connection.run("BEGIN TRANSACTION");
+    try {
+      const reader = await connection.runAndReadAll(
+        `SELECT COUNT(*) FROM nsd_roots WHERE pubkey = ?`,
+        [root],
+      );
+      removed = Number(reader.getRows()[0]![0]) > 0;
+      await connection.run(
+        `DELETE FROM nsd_multi_root_distances WHERE root = ?`,
+        [root],
+      );
+      await connection.run(`DELETE FROM nsd_roots WHERE pubkey = ?`, [root]);
+      await connection.run("COMMIT");
+    } catch (error) {
+      await connection.run("ROLLBACK");
+      throw error;
+    }
+  });
+
+  return removed;
+}
+
+/**
+ * Removes the least recently used roots beyond a maximum number of roots
+ *
+ * @param connection - Active DuckDB connection
+ * @param maxRoots - Number of most recently used roots to keep
+ * @returns Promise resolving to the evicted root pubkeys
+ */
+export async function evictLeastRecentlyUsedRoots(
+  connection: DuckDBConnection,
+  maxRoots: number,
+): Promise<string[]> {
+  const reader = await connection.runAndReadAll(
+    `SELECT pubkey FROM nsd_roots ORDER BY last_used_at DESC OFFSET ?`,
+    [maxRoots],
+  );
+  const evicted = reader.getRows().map((row) => row[0] as string);
+
+  for (const root of evicted) {
+    await removeRoot(connection, root);
+  }
+
+  return evicted;
+}
+
+/**
+ * Lists the registered roots, most recently used first
+ *
+ * @param connection - Active DuckDB connection
+ * @returns Promise resolving to the registered roots
+ */
+export async function listRoots(
+  connection: DuckDBConnection,
+): Promise<RootInfo[]> {
+  const reader = await connection.runAndReadAll(`
+    SELECT r.pubkey, r.max_depth, COUNT(d.pubkey), r.last_used_at
+    FROM nsd_roots r
+    LEFT JOIN nsd_multi_root_distances d ON d.root = r.pubkey
+    GROUP BY r.pubkey, r.max_depth, r.last_used_at
+    ORDER BY r.last_used_at DESC
+  `);
+
+  return reader.getRows().map((row) => ({
+    pubkey: row[0] as string,
+    maxDepth: Number(row[1]),
+    size: Number(row[2]),
+    lastUsedAt: Number(row[3]),
+  }));
+}
+
+/**
+ * Gets the distance from a registered root to a pubkey
+ *
+ * @param connection - Active DuckDB connection
+ * @param root - Normalized root pubkey
+ * @param pubkey - Normalized target pubkey
+ * @returns Promise resolving to the distance, or null if not within the root's max depth
+ */
+export async function getRootDistance(
+  connection: DuckDBConnection,
+  root: string,
+  pubkey: string,
+): Promise<number | null> {
+  const reader = await connection.runAndReadAll(
+    `SELECT distance FROM nsd_multi_root_distances WHERE root = ? AND pubkey = ?`,
+    [root, pubkey],
+  );
+  const rows = reader.getRows();
+  return rows.length > 0 ? Number(rows[0]![0]) : null;
+}
+
+/**
+ * Recomputes the registered root distances affected by removed follows
+ *
+ * Same approach as for the single root table, for all roots at once: the
+ * closure of removed shortest-path follows is dropped, then re-inserted layer
+ * by layer. Recomputed pubkeys join nsd_roots_delta_frontier, since new
+ * follows from the same update may have brought them closer.
+ *
+ * Must be called inside an open transaction.
+ */
+async function invalidateRemovedFollows(
+  connection: DuckDBConnection,
+  removedFollows: FollowRelationship[],
+  maxDepth: number,
+): Promise<void> {
+  await connection.run(
+    `CREATE OR REPLACE TEMPORARY TABLE nsd_roots_delta_removed (follower_pubkey VARCHAR(64), followed_pubkey VARCHAR(64))`,
+  );
+  await connection.run(
+    `CREATE OR REPLACE TEMPORARY TABLE nsd_roots_delta_invalidated (root VARCHAR(64), pubkey VARCHAR(64), distance INTEGER)`,
+  );
+  await connection.run(
+    `CREATE OR REPLACE TEMPORARY TABLE nsd_roots_delta_invalid_frontier (root VARCHAR(64), pubkey VARCHAR(64), distance INTEGER)`,
+  );
+
+  for (let i = 0; i < removedFollows.length; i += CHUNK_SIZE) {
+    const chunk = removedFollows.slice(i, i + CHUNK_SIZE);
+    await connection.run(
+      `INSERT INTO nsd_roots_delta_removed VALUES ${chunk.map(() => "(?, ?)").join(", ")}`,
+      chunk.flatMap((follow) => [
+        follow.follower_pubkey,
+        follow.followed_pubkey,
+      ]),
+    );
+  }
+
+  await connection.run(`
+    INSERT INTO nsd_roots_delta_invalid_frontier
+    SELECT DISTINCT child.root, child.pubkey, child.distance
+    FROM nsd_roots_delta_removed r
+    JOIN nsd_multi_root_distances parent ON parent.pubkey = r.follower_pubkey
+    JOIN nsd_multi_root_distances child
+      ON child.root = parent.root AND child.pubkey = r.followed_pubkey
+    WHERE child.distance = parent.distance + 1
+  `);
+
+  for (let i = 0; i <= maxDepth; i++) {
+    const countReader = await connection.runAndReadAll(
+      `SELECT COUNT(*) FROM nsd_roots_delta_invalid_frontier`,
+    );
+    if (Number(countReader.getRows()[0]![0]) === 0) {
+      break;
+    }
+
+    await connection.run(`
+      INSERT INTO nsd_roots_delta_invalidated
+      SELECT root, pubkey, distance FROM nsd_roots_delta_invalid_frontier
+    `);
+    await connection.run(`
+      CREATE OR REPLACE TEMPORARY TABLE nsd_roots_delta_invalid_next AS
+      SELECT DISTINCT child.root, child.pubkey, child.distance
+      FROM nsd_roots_delta_invalid_frontier fr
+      JOIN nsd_follows f ON f.follower_pubkey = fr.pubkey
+      JOIN nsd_multi_root_distances child
+        ON child.root = fr.root AND child.pubkey = f.followed_pubkey
+      LEFT JOIN nsd_roots_delta_invalidated seen
+        ON seen.root = child.root AND seen.pubkey = child.pubkey
+      WHERE child.distance = fr.distance + 1
+        AND seen.pubkey IS NULL
+    `);
+    await connection.run(`DELETE FROM nsd_roots_delta_invalid_frontier`);
+    await connection.run(`
+      INSERT INTO nsd_roots_delta_invalid_frontier
+      SELECT root, pubkey, distance FROM nsd_roots_delta_invalid_next
+    `);
+  }
+
+  const invalidReader = await connection.runAndReadAll(
+    `SELECT COUNT(*), MIN(distance) FROM nsd_roots_delta_invalidated`,
+  );
+  const invalidRow = invalidReader.getRows()[0]!;
+
+  if (Number(invalidRow[0]) > 0) {
+    await connection.run(`
+      DELETE FROM nsd_multi_root_distances
+      USING nsd_roots_delta_invalidated inv
+      WHERE nsd_multi_root_distances.root = inv.root
+        AND nsd_multi_root_distances.pubkey = inv.pubkey
+    `);
+
+    for (
+      let distance = Number(invalidRow[1]);
+      distance <= maxDepth;
+      distance++
+    ) {
+      await connection.run(
+        `
+        INSERT INTO nsd_multi_root_distances (root, pubkey, distance)
+        SELECT DISTINCT inv.root, inv.pubkey, $distance
+        FROM nsd_roots_delta_invalidated inv
+        JOIN nsd_roots r ON r.pubkey = inv.root
+        JOIN nsd_follows f ON f.followed_pubkey = inv.pubkey
+        JOIN nsd_multi_root_distances parent
+          ON parent.root = inv.root AND parent.pubkey = f.follower_pubkey
+        LEFT JOIN nsd_multi_root_distances existing
+          ON existing.root = inv.root AND existing.pubkey = inv.pubkey
+        WHERE parent.distance = $distance - 1
+          AND $distance <= r.max_depth
+          AND existing.pubkey IS NULL
+        `,
+        { distance },
+      );
+    }
+
+    await connection.run(`
+      INSERT INTO nsd_roots_delta_frontier (root, pubkey)
+      SELECT inv.root, inv.pubkey
+      FROM nsd_roots_delta_invalidated inv
+      JOIN nsd_multi_root_distances recomputed
+        ON recomputed.root = inv.root AND recomputed.pubkey = inv.pubkey
+    `);
+  }
+
+  await connection.run(`DROP TABLE IF EXISTS nsd_roots_delta_removed`);
+  await connection.run(`DROP TABLE IF EXISTS nsd_roots_delta_invalidated`);
+  await connection.run(`DROP TABLE IF EXISTS nsd_roots_delta_invalid_frontier`);
+  await connection.run(`DROP TABLE IF EXISTS nsd_roots_delta_invalid_next`);
+}
+
+/**
+ * Patches the distances of every registered root after follow lists changed
+ *
+ * Removed follows are handled first, then distance decreases propagate from
+ * the updated pubkeys, so each root matches a full rebuild after every update.
+ *
+ * @param connection - Active DuckDB connection
+ * @param updatedPubkeys - Normalized pubkeys that had their follow lists updated
+ * @param removedFollows - Follow relationships dropped by the updated follow lists
+ */
+export async function updateRootsDelta(
+  connection: DuckDBConnection,
+  updatedPubkeys: string[],
+  removedFollows: FollowRelationship[] = [],
+): Promise<void> {
+  if (updatedPubkeys.length === 0 && removedFollows.length === 0) {
+    return;
+  }
+
+  const depthReader = await connection.runAndReadAll(
+    `SELECT MAX(max_depth) FROM nsd_roots`,
+  );
+  const depthValue = depthReader.getRows()[0]![0];
+  if (depthValue === null) {
+    // No registered roots
+    return;
+  }
+  const maxDepth = Number(depthValue);
+
+  await executeWithRetry(async () => {
+    await connection.run("BEGIN TRANSACTION");
+    try {
+      await connection.run(
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_roots_delta_frontier (root VARCHAR(64), pubkey VARCHAR(64))`,
+      );
+      await connection.run(
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_roots_delta_updates (root VARCHAR(64), pubkey VARCHAR(64), distance INTEGER)`,
+      );
+      await connection.run(
+        `CREATE OR REPLACE TEMPORARY TABLE nsd_roots_delta_updated (pubkey VARCHAR(64))`,
+      );
+
+      for (let i = 0; i < updatedPubkeys.length; i += CHUNK_SIZE) {
+        const chunk = updatedPubkeys.slice(i, i + CHUNK_SIZE);
+        await connection.run(
+          `INSERT INTO nsd_roots_delta_updated VALUES ${chunk.map(() => "(?)").join(", ")}`,
+          chunk,
+        );
+      }
+
+      // Every root reaching an updated pubkey propagates from it
+      await connection.run(`
+        INSERT INTO nsd_roots_delta_frontier (root, pubkey)
+        SELECT d.root, d.pubkey
+        FROM nsd_roots_delta_updated u
+        JOIN nsd_multi_root_distances d ON d.pubkey = u.pubkey
+      `);
+
+      if (removedFollows.length > 0) {
+        await invalidateRemovedFollows(connection, removedFollows, maxDepth);
+      }
+
+      for (let i = 0; i < maxDepth + 2; i++) {
+        await connection.run(`DELETE FROM nsd_roots_delta_updates`);
+        await connection.run(`
+          INSERT INTO nsd_roots_delta_updates (root, pubkey, distance)
+          SELECT df.root, f.followed_pubkey, MIN(rd.distance + 1)
+          FROM nsd_roots_delta_frontier df
+          JOIN nsd_roots r ON r.pubkey = df.root
+          JOIN nsd_multi_root_distances rd
+            ON rd.root = df.root AND rd.pubkey = df.pubkey
+          JOIN nsd_follows f ON f.follower_pubkey = df.pubkey
+          LEFT JOIN nsd_multi_root_distances existing
+            ON existing.root = df.root AND existing.pubkey = f.followed_pubkey
+          WHERE rd.distance + 1 <= r.max_depth
+            AND (
+              existing.pubkey IS NULL
+              OR rd.distance + 1 < existing.distance
+            )
+          GROUP BY df.root, f.followed_pubkey
+        `);
+
+        const updatesReader = await connection.runAndReadAll(
+          `SELECT COUNT(*) FROM nsd_roots_delta_updates`,
+        );
+        if (Number(updatesReader.getRows()[0]![0]) === 0) {
+          break;
+        }
+
+        await connection.run(`
+          DELETE FROM nsd_multi_root_distances
+          USING nsd_roots_delta_updates u
+          WHERE nsd_multi_root_distances.root = u.root
+            AND nsd_multi_root_distances.pubkey = u.pubkey
+        `);
+        await connection.run(`
+          INSERT INTO nsd_multi_root_distances (root, pubkey, distance)
+          SELECT root, pubkey, distance FROM nsd_roots_delta_updates
+        `);
+
+        await connection.run(`DELETE FROM nsd_roots_delta_frontier`);
+        await connection.run(`
+          INSERT INTO nsd_roots_delta_frontier (root, pubkey)
+          SELECT root, pubkey FROM nsd_roots_delta_updates
+        `);
+      }
+
+      await connection.run(`DROP TABLE IF EXISTS nsd_roots_delta_frontier`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_roots_delta_updates`);
+      await connection.run(`DROP TABLE IF EXISTS nsd_roots_delta_updated`);
+
+      await connection.run("COMMIT");
+    } catch (error) {
+      await connection.run("ROLLBACK");
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * Similarity between the follow sets of two pubkeys
+ */
+
+import { DuckDBConnection } from "@duckdb/node-api";
+import type {
+  MostSimilarOptions,
+  ScoredPubkey,
+  Similarity,
+  SimilarityBasis,
+  SimilarityMetric,
+} from "./types.js";
+
+/**
+ * Gets the nsd_follows columns for a pubkey and the members of its set
+ */
+function getBasisColumns(basis: SimilarityBasis = "following"): {
+  ownColumn: string;
+  otherColumn: string;
+} {
+  switch (basis) {
+    case "following":
+      return { ownColumn: "follower_pubkey", otherColumn: "followed_pubkey" };
+    case "followers":
+      return { ownColumn: "followed_pubkey", otherColumn: "follower_pubkey" };
+    default:
+      throw new Error("basis must be 'following' or 'followers'");
+  }
+}
+
+/**
+ * Computes the similarity of the follow sets of two pubkeys
+ *
+ * Jaccard is the share of the union that is common, cosine the common count
+ * over the geometric mean of the set sizes. Adamic-Adar sums 1 / ln(degree)
+ * over the common pubkeys, where the degree is the number of sets a common
+ * pubkey belongs to, so sharing a niche account counts more than sharing a
+ * celebrity.
+ *
+ * @param connection - Active DuckDB connection
+ * @param pubkeyA - Normalized first pubkey
+ * @param pubkeyB - Normalized second pubkey
+ * @param basis - Compare followed pubkeys ("following") or followers ("followers")
+ * @returns Promise resolving to the set sizes, common count and metrics
+ */
+export async function getSimilarity(
+  connection: DuckDBConnection,
+  pubkeyA: string,
+  pubkeyB: string,
+  basis?: SimilarityBasis,
+): Promise<Similarity> {
+  const { ownColumn, otherColumn } = getBasisColumns(basis);
+
+  const reader = await connection.runAndReadAll(
+    `
+    WITH set_a AS (
+      SELECT ${otherColumn} AS pubkey FROM nsd_follows WHERE ${ownColumn} = $a
+    ),
+    set_b AS (
+      SELECT ${otherColumn} AS pubkey FROM nsd_follows WHERE ${ownColumn} = $b
+    ),
+    common AS (
+      SELECT pubkey FROM set_a INTERSECT SELECT pubkey FROM set_b
+    )
+    SELECT
+      (SELECT COUNT(*) FROM set_a),
+      (SELECT COUNT(*) FROM set_b),
+      (SELECT COUNT(*) FROM common),
+      (
+        SELECT COALESCE(SUM(1 / LN(degree)), 0)
+        FROM (
+          SELECT f.${otherColumn}, COUNT(*) AS degree
+          FROM nsd_follows f
+          JOIN common c ON c.pubkey = f.${otherColumn}
+          GROUP BY f.${otherColumn}
+        )
+      )
+    `,
+    { a: pubkeyA, b: pubkeyB },
+  );
+
+  const row = reader.getRows()[0]!;
+  const sizeA = Number(row[0]);
+  const sizeB = Number(row[1]);
+  const common = Number(row[2]);
+  const union = sizeA + sizeB - common;
+
+  return {
+    sizeA,
+    sizeB,
+    common,
+    jaccard: union > 0 ? common / union : 0,
+    cosine: sizeA > 0 && sizeB > 0 ? common / Math.sqrt(sizeA * sizeB) : 0,
+    adamicAdar: Number(row[3]),
+  };
+}
+
+/**
+ * SQL score expressions over the per-candidate aggregates of getMostSimilar
+ */
+const SCORE_EXPRESSIONS: Record<SimilarityMetric, string> = {
+  jaccard: "c.common / (o.size + s.size - c.common)",
+  cosine: "c.common / SQRT(o.size * s.size)",
+  adamic_adar: "c.adamic_adar",
+};
+
+/**
+ * Gets the pubkeys whose follow sets are most similar to a pubkey's
+ *
+ * Candidates share at least one pubkey with its set, so sets containing very
+ * popular accounts produce many candidates.
+ *
+ * @param connection - Active DuckDB connection
+ * @param pubkey - Normalized pubkey to compare against
+ * @param limit - Maximum number of pubkeys to return
+ * @param options - Metric and basis of the comparison
+ * @returns Promise resolving to pubkeys with their similarity, highest first
+ */
+export async function getMostSimilar(
+  connection: DuckDBConnection,
+  pubkey: string,
+  limit: number,
+  options: MostSimilarOptions = {},
+): Promise<ScoredPubkey[]> {
+  const { metric = "jaccard", basis } = options;
+  const { ownColumn, otherColumn } = getBasisColumns(basis);
+  const score = SCORE_EXPRESSIONS[metric];
+  if (!score) {
+    throw new Error("metric must be 'jaccard', 'cosine' or 'adamic_adar'");
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("limit must be a positive integer");
+  }
+
+  const reader = await connection.runAndReadAll(
+    `
+    WITH own AS (
+      SELECT ${otherColumn} AS pubkey FROM nsd_follows WHERE ${ownColumn} = $pubkey
+    ),
+    degrees AS (
+      SELECT ${otherColumn} AS pubkey, COUNT(*) AS degree
+      FROM nsd_follows
+      WHERE ${otherColumn} IN (SELECT pubkey FROM own)
+      GROUP BY ${otherColumn}
+    ),
+    candidates AS (
+      SELECT
+        f.${ownColumn} AS pubkey,
+        COUNT(*) AS common,
+        SUM(1 / LN(d.degree)) AS adamic_adar
+      FROM own
+      JOIN nsd_follows f ON f.${otherColumn} = own.pubkey
+      JOIN degrees d ON d.pubkey = own.pubkey
+      WHERE f.${ownColumn} <> $pubkey
+      GROUP BY f.${ownColumn}
+    ),
+    sizes AS (
+      SELECT ${ownColumn} AS pubkey, COUNT(*) AS size
+      FROM nsd_follows
+      WHERE ${ownColumn} IN (SELECT pubkey FROM candidates)
+      GROUP BY ${ownColumn}
+    )
+    SELECT c.pubkey, ${score} AS score
+    FROM candidates c
+    JOIN sizes s ON s.pubkey = c.pubkey
+    CROSS JOIN (SELECT COUNT(*) AS size FROM own) o
+    ORDER BY score DESC, c.pubkey
+    LIMIT $limit
+    `,
+    { pubkey, limit },
+  );
+
+  return reader.getRows().map((row) => ({
+    pubkey: row[0] as string,
+    score: Number(row[1]),
+  }));
+}
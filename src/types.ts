@@ -32,6 +32,10 @@ export interface FollowRelationship {
   followed_pubkey: string;
   /** Unix timestamp when this relationship was recorded */
   created_at: number;
+  /** Relay URL suggested by the follower for the followed pubkey, if any */
+  relay_url?: string;
+  /** Petname the follower gave to the followed pubkey, if any */
+  petname?: string;
 }
 
 /**
@@ -44,6 +48,28 @@ export interface ParsedKind3Event {
   event: NostrEvent;
 }
 
+/**
+ * Parsed mute relationship from a Kind 10000 event
+ */
+export interface MuteRelationship {
+  /** The pubkey of the person doing the muting (event author) */
+  muter_pubkey: string;
+  /** The pubkey being muted */
+  muted_pubkey: string;
+  /** Unix timestamp when this relationship was recorded */
+  created_at: number;
+}
+
+/**
+ * Result of parsing a Kind 10000 event
+ */
+export interface ParsedKind10000Event {
+  /** Array of mute relationships extracted from the event */
+  mutes: MuteRelationship[];
+  /** The original event */
+  event: NostrEvent;
+}
+
 /**
  * Represents a path through the social graph
  */
@@ -54,6 +80,478 @@ export interface SocialPath {
   distance: number;
 }
 
+/**
+ * Constraints on the follows a path query may traverse
+ *
+ * Useful for incident response, e.g. finding trust paths that do not go
+ * through a compromised key.
+ */
+export interface PathOptions {
+  /** Pubkeys a path may not go through or end at */
+  excludePubkeys?: string[];
+  /** Only traverse follows that are returned in the other direction (default: false) */
+  mutualOnly?: boolean;
+  /** Ignore follows from follow lists created before this Unix timestamp in seconds */
+  since?: number;
+  /** Skip pubkeys muted by the starting pubkey (default: false) */
+  excludeMuted?: boolean;
+}
+
+/**
+ * Options for listing all shortest paths between two pubkeys
+ */
+export interface AllShortestPathsOptions extends PathOptions {
+  /** Maximum number of paths to return (default: 100) */
+  maxPaths?: number;
+  /** Maximum search depth (default: the analyzer's maxDepth) */
+  maxDepth?: number;
+}
+
+/**
+ * Direction of the distances stored for the root pubkey
+ *
+ * Outbound distances follow the follows from the root ("how far is this pubkey
+ * from me"), inbound distances follow them to the root ("how far is this
+ * pubkey's follow chain from reaching me").
+ */
+export type RootDistanceDirection = "outbound" | "inbound";
+
+/**
+ * What to do with a persisted root distances table that is older than the graph
+ *
+ * - "reuse": trust the table as is
+ * - "rebuild-if-stale": rebuild it from scratch
+ * - "delta-since-last-build": replay the follow lists accepted since it was built
+ */
+export type RootRefreshPolicy =
+  | "reuse"
+  | "rebuild-if-stale"
+  | "delta-since-last-build";
+
+/**
+ * How well a pubkey is connected to the root pubkey
+ */
+export interface RootPathCounts {
+  /** Distance in hops */
+  distance: number;
+  /** Number of follows one hop closer to the root that lead to the pubkey */
+  parents: number;
+  /** Number of distinct shortest paths (may lose precision beyond Number.MAX_SAFE_INTEGER) */
+  paths: number;
+}
+
+/**
+ * A root registered for distance lookups
+ */
+export interface RootInfo {
+  /** Root pubkey */
+  pubkey: string;
+  /** Depth the root's distances are computed to */
+  maxDepth: number;
+  /** Number of pubkeys within maxDepth of the root, including itself */
+  size: number;
+  /** Time the root was last added or queried (milliseconds since epoch) */
+  lastUsedAt: number;
+}
+
+/**
+ * Reason an event was rejected as invalid during ingestion
+ */
+export type EventRejectionReason =
+  | "invalid-structure"
+  | "invalid-id"
+  | "invalid-signature";
+
+/**
+ * Result of verifying a Nostr event's id and signature
+ */
+export type EventVerificationResult =
+  | { valid: true }
+  | {
+      valid: false;
+      reason: Exclude<EventRejectionReason, "invalid-structure">;
+      message: string;
+    };
+
+/**
+ * An event that was rejected during ingestion
+ */
+export interface RejectedEvent {
+  /** The id of the rejected event, as provided */
+  eventId: string;
+  /** The author of the rejected event, as provided */
+  pubkey: string;
+  /** Why the event was rejected */
+  reason: EventRejectionReason;
+  /** Human-readable details about the rejection */
+  message: string;
+}
+
+/**
+ * Summary of a single ingestion call
+ */
+export interface IngestionReport {
+  /** Number of events passed to the ingestion call */
+  eventsReceived: number;
+  /** Number of events whose lists replaced the stored ones */
+  eventsAccepted: number;
+  /** Number of events superseded by a newer event in the same call or already stored */
+  eventsRejectedStale: number;
+  /** Events rejected because they were malformed or failed verification, with reasons */
+  eventsRejectedInvalid: RejectedEvent[];
+  /** Follow relationships that did not exist before this call */
+  followsInserted: number;
+  /** Follow relationships dropped by replaced follow lists */
+  followsRemoved: number;
+  /** Authors whose follow or mute lists were replaced */
+  affectedPubkeys: string[];
+  /** Wall-clock duration of the call in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Progress update emitted after each ingestion batch
+ */
+export interface IngestionProgress {
+  /** Kind of the events in the completed batch */
+  kind: number;
+  /** 1-based index of the completed batch for this kind */
+  batch: number;
+  /** Total number of batches for this kind, or batches so far when streaming */
+  totalBatches: number;
+  /** Number of deduplicated events processed so far, across all kinds */
+  eventsProcessed: number;
+  /** Total number of deduplicated events to process, or read so far when streaming */
+  totalEvents: number;
+}
+
+/**
+ * A replaced follow or mute list, as recorded in the append-only change log
+ */
+export interface GraphChange {
+  /** Sequence number, increasing by one with every recorded change */
+  seq: number;
+  /** Author of the list */
+  pubkey: string;
+  /** Kind of the list (3 for follows, 10000 for mutes) */
+  kind: number;
+  /** Id of the event whose list replaced the stored one */
+  eventId: string;
+  /** created_at of the replaced event, or null if the author had no list of this kind */
+  oldCreatedAt: number | null;
+  /** created_at of the replacing event */
+  newCreatedAt: number;
+  /** Number of entries not present in the replaced list */
+  added: number;
+  /** Number of entries of the replaced list absent from the new one */
+  removed: number;
+  /** Time the change was recorded, in milliseconds since epoch */
+  recordedAt: number;
+}
+
+/**
+ * A relay suggested for a pubkey in follow lists, with the number of suggesting follow lists
+ */
+export interface RelayHint {
+  /** Normalized relay URL */
+  relay: string;
+  /** Number of follow lists suggesting this relay for the pubkey */
+  count: number;
+}
+
+/**
+ * A petname assigned to a pubkey in a follow list
+ */
+export interface Petname {
+  /** The pubkey whose follow list assigns the petname */
+  follower_pubkey: string;
+  /** The assigned petname */
+  petname: string;
+}
+
+/**
+ * Orderings available for follower and following lists
+ * - `pubkey`: by the other party's pubkey, ascending (default)
+ * - `created_at`: by the follow's created_at, newest first
+ * - `follower_count`: by the other party's follower count, highest first
+ */
+export type FollowOrder = "pubkey" | "created_at" | "follower_count";
+
+/**
+ * Options for paginated follower and following lists
+ */
+export interface FollowPageOptions {
+  /** Maximum number of pubkeys per page (default: 100, max: 10000) */
+  limit?: number;
+  /** Cursor returned by the previous page */
+  cursor?: string;
+  /** Ordering of the pubkeys (default: 'pubkey') */
+  orderBy?: FollowOrder;
+}
+
+/**
+ * A page of a follower or following list
+ */
+export interface FollowPage {
+  /** Pubkeys on this page */
+  pubkeys: string[];
+  /** Cursor for the next page, or null if this is the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Options for paging through common followers or common follows
+ */
+export interface CommonFollowsOptions {
+  /** Maximum number of pubkeys per page (default: 100, max: 10000) */
+  limit?: number;
+  /** Cursor returned by the previous page */
+  cursor?: string;
+}
+
+/**
+ * One page of common followers or common follows, ordered by pubkey
+ */
+export interface CommonFollowsPage extends FollowPage {
+  /** Number of common pubkeys across all pages */
+  total: number;
+}
+
+/**
+ * Options for computing PageRank
+ */
+export interface PageRankOptions {
+  /** Probability of following an edge rather than jumping to a random node (default: 0.85) */
+  dampingFactor?: number;
+  /** Iteration stops once the L1 change between iterations is below this value (default: 1e-6) */
+  tolerance?: number;
+  /** Maximum number of iterations (default: 100) */
+  maxIterations?: number;
+}
+
+/**
+ * Summary of a PageRank computation
+ */
+export interface PageRankResult {
+  /** Number of ranked pubkeys */
+  nodeCount: number;
+  /** Number of iterations performed */
+  iterations: number;
+  /** Whether the tolerance was reached before maxIterations */
+  converged: boolean;
+  /** L1 change of the scores in the last iteration */
+  delta: number;
+}
+
+/**
+ * A pubkey with an associated score
+ */
+export interface ScoredPubkey {
+  pubkey: string;
+  score: number;
+}
+
+/**
+ * Options for web-of-trust scores
+ */
+export interface WotOptions {
+  /** Weight multiplier per hop between the root and a follower or muter (default: 0.5) */
+  distanceDecay?: number;
+  /** Weight of a mute relative to a follow at the same distance (default: 1) */
+  muteWeight?: number;
+}
+
+/**
+ * Followers and muters of a pubkey at one distance from the root
+ */
+export interface WotSignal {
+  /** Distance of the followers and muters from the root */
+  distance: number;
+  /** Number of followers at this distance */
+  followers: number;
+  /** Number of muters at this distance */
+  muters: number;
+}
+
+/**
+ * Web-of-trust score of a pubkey
+ */
+export interface WotScore {
+  pubkey: string;
+  /** Distance-weighted followers minus distance-weighted muters */
+  score: number;
+  /** Followers and muters by distance from the root, closest first */
+  signals: WotSignal[];
+}
+
+/**
+ * Kind of connected components: "weak" ignores follow direction, "strong"
+ * requires paths in both directions
+ */
+export type ComponentType = "weak" | "strong";
+
+/**
+ * A connected component of the follow graph
+ */
+export interface Component {
+  /** Smallest pubkey in the component */
+  id: string;
+  /** Number of pubkeys in the component */
+  size: number;
+}
+
+/**
+ * Summary of a connected components computation
+ */
+export interface ComponentsResult {
+  /** Number of labelled pubkeys */
+  nodeCount: number;
+  /** Number of weakly connected components */
+  weakComponents: number;
+  /** Number of strongly connected components */
+  strongComponents: number;
+}
+
+/**
+ * How follows become undirected edges for k-core decomposition:
+ * "undirected" keeps every follow, "mutual" only follows returned both ways
+ */
+export type KCoreMode = "mutual" | "undirected";
+
+/**
+ * Options for k-core decomposition
+ */
+export interface KCoreOptions {
+  /** Which follows become edges (default: "undirected") */
+  mode?: KCoreMode;
+}
+
+/**
+ * Summary of a k-core decomposition
+ */
+export interface KCoreResult {
+  /** Mode the decomposition was computed in */
+  mode: KCoreMode;
+  /** Number of pubkeys with a core number */
+  nodeCount: number;
+  /** Highest core number */
+  maxCore: number;
+}
+
+/**
+ * Which follows form triangles: "directed" uses the pubkeys a pubkey follows,
+ * "mutual" only its mutual follows
+ */
+export type ClusteringMode = "directed" | "mutual";
+
+/**
+ * Options for clustering coefficients
+ */
+export interface ClusteringOptions {
+  /** Directed or mutual neighbourhoods (default: "directed") */
+  mode?: ClusteringMode;
+}
+
+/**
+ * Triangle count and local clustering coefficient of a pubkey
+ */
+export interface LocalClustering {
+  pubkey: string;
+  mode: ClusteringMode;
+  /** Number of neighbours: followed pubkeys ("directed") or mutual follows ("mutual") */
+  degree: number;
+  /** Number of links between neighbours */
+  triangles: number;
+  /** Share of possible links between neighbours that exist, 0 with fewer than two neighbours */
+  clusteringCoefficient: number;
+}
+
+/**
+ * Options for follow recommendations
+ */
+export interface FollowRecommendationOptions {
+  /** Maximum number of recommendations (default: 10) */
+  limit?: number;
+  /** Skip pubkeys muted by the pubkey (default: true) */
+  excludeMuted?: boolean;
+  /** Minimum number of followed pubkeys following a candidate (default: 1) */
+  minMutualCount?: number;
+  /** Weight each followed pubkey by its trust score; requires a root pubkey (default: false) */
+  weightByTrust?: boolean;
+}
+
+/**
+ * A pubkey recommended to follow
+ */
+export interface FollowRecommendation {
+  pubkey: string;
+  /** Number of followed pubkeys that follow it */
+  mutualCount: number;
+  /** Ranking score: mutualCount, or the summed trust scores of those followed pubkeys */
+  score: number;
+}
+
+/**
+ * Which follow set of a pubkey to compare: the pubkeys it follows or its followers
+ */
+export type SimilarityBasis = "following" | "followers";
+
+/**
+ * Similarity metric used to rank pubkeys
+ */
+export type SimilarityMetric = "jaccard" | "cosine" | "adamic_adar";
+
+/**
+ * Similarity between the follow sets of two pubkeys
+ */
+export interface Similarity {
+  /** Size of the first pubkey's set */
+  sizeA: number;
+  /** Size of the second pubkey's set */
+  sizeB: number;
+  /** Number of pubkeys in both sets */
+  common: number;
+  /** Common pubkeys over the union of both sets */
+  jaccard: number;
+  /** Common pubkeys over the geometric mean of the set sizes */
+  cosine: number;
+  /** Sum of 1 / ln(degree) over the common pubkeys, favouring less popular ones */
+  adamicAdar: number;
+}
+
+/**
+ * Options for finding the most similar pubkeys
+ */
+export interface MostSimilarOptions {
+  /** Metric to rank by (default: "jaccard") */
+  metric?: SimilarityMetric;
+  /** Follow set to compare (default: "following") */
+  basis?: SimilarityBasis;
+}
+
+/**
+ * File formats supported by bulk imports
+ */
+export type ImportFormat = "jsonl" | "parquet";
+
+/**
+ * Options for bulk importing events from a file
+ */
+export interface ImportOptions {
+  /** Format of the file (default: inferred from the extension, falling back to 'jsonl') */
+  format?: ImportFormat;
+}
+
+/**
+ * Minimal logger interface, compatible with `console`
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
 /**
  * Configuration options for the SocialGraphAnalyzer
  */
@@ -64,6 +562,29 @@ export interface SocialGraphConfig {
   maxDepth?: number;
   /** Root pubkey for optimized distance calculations (optional) */
   rootPubkey?: string;
+  /**
+   * How a persisted root distances table is refreshed when another process
+   * changed the graph after it was built (default: "rebuild-if-stale")
+   */
+  rootRefresh?: RootRefreshPolicy;
+  /** Additional pubkeys seeding trust scores along with the root pubkey (optional) */
+  trustSeeds?: string[];
+  /** Weighting of follows and mutes in web-of-trust scores (optional) */
+  wot?: WotOptions;
+  /** Number of registered roots kept before the least recently used are evicted (default: 100) */
+  maxRoots?: number;
+  /**
+   * Verify event ids (NIP-01) and Schnorr signatures (BIP-340) during ingestion.
+   * Events that fail verification are skipped (default: false)
+   */
+  verifySignatures?: boolean;
+  /**
+   * Logger for diagnostics. Defaults to a logger that stays silent for
+   * debug/info messages and forwards warnings and errors to the console
+   */
+  logger?: Logger;
+  /** Callback invoked after each ingestion batch */
+  onProgress?: (progress: IngestionProgress) => void;
 }
 
 /**
@@ -76,6 +597,18 @@ export interface GraphStats {
   uniqueFollowers: number;
   /** Number of unique followed pubkeys */
   uniqueFollowed: number;
+  /** Closed follow chains ("directed") or mutual triangles ("mutual"), if requested */
+  triangles?: number;
+  /** Global transitivity in the requested mode, if requested */
+  transitivity?: number;
+}
+
+/**
+ * Options for graph statistics
+ */
+export interface GraphStatsOptions {
+  /** Also count triangles and compute transitivity in this mode (triangle counting scans the whole graph) */
+  transitivity?: ClusteringMode;
 }
 
 /**
@@ -83,30 +616,65 @@ export interface GraphStats {
  */
 export interface SocialGraphAnalyzer {
   /**
-   * Ingest a single Kind 3 Nostr event into the graph
-   * @param event - The Nostr Kind 3 event to ingest
-   * @returns Promise that resolves when ingestion is complete
+   * Ingest a single Kind 3 (follow list) or Kind 10000 (mute list) Nostr event into the graph
+   * @param event - The Nostr Kind 3 or Kind 10000 event to ingest
+   * @returns Promise resolving to a report of the ingestion
+   */
+  ingestEvent(event: NostrEvent): Promise<IngestionReport>;
+
+  /**
+   * Ingest multiple Kind 3 (follow list) or Kind 10000 (mute list) Nostr events into the graph
+   * @param events - Array of Nostr Kind 3 or Kind 10000 events to ingest
+   * @returns Promise resolving to a report of the ingestion
+   */
+  ingestEvents(events: NostrEvent[]): Promise<IngestionReport>;
+
+  /**
+   * Ingest Kind 3 or Kind 10000 Nostr events from an async source in bounded memory
+   * @param source - Async iterable yielding Nostr Kind 3 or Kind 10000 events
+   * @returns Promise resolving to a report of the ingestion
+   */
+  ingestStream(source: AsyncIterable<NostrEvent>): Promise<IngestionReport>;
+
+  /**
+   * Ingest Kind 3 or Kind 10000 Nostr events from a JSONL file in bounded memory
+   * @param path - Path to a file holding one JSON-encoded event per line
+   * @returns Promise resolving to a report of the ingestion
    */
-  ingestEvent(event: NostrEvent): Promise<void>;
+  ingestJsonlFile(path: string): Promise<IngestionReport>;
 
   /**
-   * Ingest multiple Kind 3 Nostr events into the graph
-   * @param events - Array of Nostr Kind 3 events to ingest
-   * @returns Promise that resolves when all events are ingested
+   * Bulk import Kind 3 and Kind 10000 Nostr events from a JSONL or Parquet file using DuckDB's readers
+   * @param path - Path to the file
+   * @param options - Import options
+   * @returns Promise resolving to a report of the import
    */
-  ingestEvents(events: NostrEvent[]): Promise<void>;
+  importFromFile(
+    path: string,
+    options?: ImportOptions,
+  ): Promise<IngestionReport>;
+
+  /**
+   * Get the follow and mute list replacements recorded after a sequence number
+   * @param seq - Sequence number of the last change already seen (0 for all changes)
+   * @param limit - Maximum number of changes to return (default: 1000)
+   * @returns Promise resolving to the changes in sequence order
+   */
+  getChangesSince(seq: number, limit?: number): Promise<GraphChange[]>;
 
   /**
    * Find the shortest path between two pubkeys in the social graph
    * @param fromPubkey - Starting pubkey (64-character hex string)
    * @param toPubkey - Target pubkey (64-character hex string)
    * @param maxDepth - Maximum search depth (default: 6)
+   * @param options - Pubkeys and follows the path must avoid
    * @returns Promise resolving to the shortest path, or null if no path exists
    */
   getShortestPath(
     fromPubkey: string,
     toPubkey: string,
     maxDepth?: number,
+    options?: PathOptions,
   ): Promise<SocialPath | null>;
 
   /**
@@ -116,14 +684,44 @@ export interface SocialGraphAnalyzer {
    * @param fromPubkey - Starting pubkey (64-character hex string)
    * @param toPubkey - Target pubkey (64-character hex string)
    * @param maxDepth - Maximum search depth (default: 6)
+   * @param options - Pubkeys and follows the path must avoid
    * @returns Promise resolving to the distance, or null if no path exists
    */
   getShortestDistance(
     fromPubkey: string,
     toPubkey: string,
     maxDepth?: number,
+    options?: PathOptions,
   ): Promise<number | null>;
 
+  /**
+   * Find every shortest path between two pubkeys, up to a maximum number of paths
+   * @param fromPubkey - Starting pubkey (64-character hex string)
+   * @param toPubkey - Target pubkey (64-character hex string)
+   * @param options - Maximum number of paths, search depth and pubkeys and follows the paths must avoid
+   * @returns Promise resolving to the shortest paths, empty if no path exists
+   */
+  getAllShortestPaths(
+    fromPubkey: string,
+    toPubkey: string,
+    options?: AllShortestPathsOptions,
+  ): Promise<SocialPath[]>;
+
+  /**
+   * Count the shortest paths between two pubkeys without listing them
+   * @param fromPubkey - Starting pubkey (64-character hex string)
+   * @param toPubkey - Target pubkey (64-character hex string)
+   * @param maxDepth - Maximum search depth (default: 6)
+   * @param options - Pubkeys and follows the paths must avoid
+   * @returns Promise resolving to the number of shortest paths, 0 if no path exists
+   */
+  countShortestPaths(
+    fromPubkey: string,
+    toPubkey: string,
+    maxDepth?: number,
+    options?: PathOptions,
+  ): Promise<number>;
+
   /**
    * Gets the shortest distances from a source pubkey to multiple target pubkeys in batch
    *
@@ -162,7 +760,7 @@ export interface SocialGraphAnalyzer {
    * Get statistics about the current social graph
    * @returns Promise resolving to graph statistics
    */
-  getStats(): Promise<GraphStats>;
+  getStats(options?: GraphStatsOptions): Promise<GraphStats>;
 
   /**
    * Check if a pubkey exists in the graph (either as follower or followed)
@@ -199,6 +797,238 @@ export interface SocialGraphAnalyzer {
     pubkey: string,
   ): Promise<{ outDegree: number; inDegree: number }>;
 
+  /**
+   * Get all pubkeys that have muted a given pubkey
+   * @param pubkey - The muted pubkey
+   * @returns Promise resolving to array of muter pubkeys
+   */
+  getMutedBy(pubkey: string): Promise<string[]>;
+
+  /**
+   * Get all pubkeys muted by a given pubkey
+   * @param pubkey - The muter pubkey
+   * @returns Promise resolving to array of muted pubkeys
+   */
+  getMuting(pubkey: string): Promise<string[]>;
+
+  /**
+   * Check if a pubkey has muted another pubkey
+   * @param muterPubkey - The pubkey that may have muted
+   * @param mutedPubkey - The pubkey that may be muted
+   * @returns Promise resolving to true if the mute relationship exists
+   */
+  isMuted(muterPubkey: string, mutedPubkey: string): Promise<boolean>;
+
+  /**
+   * Get one page of the pubkeys a pubkey follows
+   * @param pubkey - The follower pubkey
+   * @param options - Page size, cursor and ordering
+   * @returns Promise resolving to a page of followed pubkeys
+   */
+  getFollowing(
+    pubkey: string,
+    options?: FollowPageOptions,
+  ): Promise<FollowPage>;
+
+  /**
+   * Get one page of the pubkeys following a pubkey
+   * @param pubkey - The followed pubkey
+   * @param options - Page size, cursor and ordering
+   * @returns Promise resolving to a page of follower pubkeys
+   */
+  getFollowers(
+    pubkey: string,
+    options?: FollowPageOptions,
+  ): Promise<FollowPage>;
+
+  /**
+   * Get one page of the pubkeys following both pubkeys
+   * @param pubkeyA - The first followed pubkey
+   * @param pubkeyB - The second followed pubkey
+   * @param options - Page size and cursor
+   * @returns Promise resolving to a page of common followers with their total count
+   */
+  getCommonFollowers(
+    pubkeyA: string,
+    pubkeyB: string,
+    options?: CommonFollowsOptions,
+  ): Promise<CommonFollowsPage>;
+
+  /**
+   * Get one page of the pubkeys both pubkeys follow
+   * @param pubkeyA - The first follower pubkey
+   * @param pubkeyB - The second follower pubkey
+   * @param options - Page size and cursor
+   * @returns Promise resolving to a page of commonly followed pubkeys with their total count
+   */
+  getCommonFollowing(
+    pubkeyA: string,
+    pubkeyB: string,
+    options?: CommonFollowsOptions,
+  ): Promise<CommonFollowsPage>;
+
+  /**
+   * Compute similarity metrics between the follow sets of two pubkeys
+   * @param pubkeyA - The first pubkey
+   * @param pubkeyB - The second pubkey
+   * @param basis - Follow set to compare (default: "following")
+   * @returns Promise resolving to the set sizes, common count and metrics
+   */
+  getSimilarity(
+    pubkeyA: string,
+    pubkeyB: string,
+    basis?: SimilarityBasis,
+  ): Promise<Similarity>;
+
+  /**
+   * Get the pubkeys whose follow sets are most similar to a pubkey's
+   * @param pubkey - The pubkey to compare against
+   * @param limit - Maximum number of pubkeys to return (default: 10)
+   * @param options - Metric and basis of the comparison
+   * @returns Promise resolving to pubkeys with their similarity, highest first
+   */
+  getMostSimilar(
+    pubkey: string,
+    limit?: number,
+    options?: MostSimilarOptions,
+  ): Promise<ScoredPubkey[]>;
+
+  /**
+   * Compute global PageRank over the follow graph and persist it
+   * @param options - Damping factor, convergence tolerance and iteration cap
+   * @returns Promise resolving to a summary of the computation
+   */
+  computePageRank(options?: PageRankOptions): Promise<PageRankResult>;
+
+  /**
+   * Get the stored PageRank score of a pubkey
+   * @param pubkey - The pubkey to look up
+   * @returns Promise resolving to the score, or null if the pubkey is not ranked
+   */
+  getPageRank(pubkey: string): Promise<number | null>;
+
+  /**
+   * Get the pubkeys with the highest stored PageRank scores
+   * @param limit - Maximum number of pubkeys to return (default: 10)
+   * @returns Promise resolving to pubkeys with their scores, highest first
+   */
+  getTopByPageRank(limit?: number): Promise<ScoredPubkey[]>;
+
+  /**
+   * Get the trust score (personalized PageRank seeded at the root) of a pubkey
+   * @param pubkey - The pubkey to score
+   * @returns Promise resolving to the trust score, 0 for unreachable pubkeys
+   */
+  getTrustScore(pubkey: string): Promise<number>;
+
+  /**
+   * Get the trust scores of multiple pubkeys
+   * @param pubkeys - The pubkeys to score
+   * @returns Promise resolving to a map of normalized pubkey -> trust score
+   */
+  getTrustScoresBatch(pubkeys: string[]): Promise<Map<string, number>>;
+
+  /**
+   * Get the web-of-trust score of a pubkey, combining follows and mutes relative to the root
+   * @param pubkey - The pubkey to score
+   * @returns Promise resolving to the score and the signals it is based on
+   */
+  getWotScore(pubkey: string): Promise<WotScore>;
+
+  /**
+   * Decide whether a pubkey is trusted according to its web-of-trust score
+   * @param pubkey - The pubkey to check
+   * @param threshold - Score the pubkey must exceed (default: 0)
+   * @returns Promise resolving to true if the pubkey is the root or scores above the threshold
+   */
+  isTrusted(pubkey: string, threshold?: number): Promise<boolean>;
+
+  /**
+   * Label the weakly and strongly connected components of the follow graph and store them
+   * @returns Promise resolving to the number of pubkeys and components
+   */
+  computeComponents(): Promise<ComponentsResult>;
+
+  /**
+   * Get the stored component of a pubkey
+   * @param pubkey - The pubkey to look up
+   * @param type - Weakly or strongly connected components (default: "weak")
+   * @returns Promise resolving to the component, or null if the pubkey is not labelled
+   */
+  getComponent(pubkey: string, type?: ComponentType): Promise<Component | null>;
+
+  /**
+   * Get the distribution of stored components by size
+   * @param type - Weakly or strongly connected components (default: "weak")
+   * @returns Promise resolving to a map of component size -> number of components
+   */
+  getComponentSizes(type?: ComponentType): Promise<Record<number, number>>;
+
+  /**
+   * Get the largest stored component
+   * @param type - Weakly or strongly connected components (default: "weak")
+   * @returns Promise resolving to the component, or null if none are stored
+   */
+  getLargestComponent(type?: ComponentType): Promise<Component | null>;
+
+  /**
+   * Compute the core number of every pubkey by iterative peeling and store them
+   * @param options - Whether to keep every follow or only mutual follows
+   * @returns Promise resolving to a summary of the decomposition
+   */
+  computeKCore(options?: KCoreOptions): Promise<KCoreResult>;
+
+  /**
+   * Get the stored core number of a pubkey
+   * @param pubkey - The pubkey to look up
+   * @returns Promise resolving to the core number, or null if the pubkey has none stored
+   */
+  getCoreNumber(pubkey: string): Promise<number | null>;
+
+  /**
+   * Get the members of the stored k-core
+   * @param k - Minimum core number
+   * @returns Promise resolving to the pubkeys with a core number of at least k, sorted
+   */
+  getKCoreMembers(k: number): Promise<string[]>;
+
+  /**
+   * Get the triangle count and local clustering coefficient of a pubkey
+   * @param pubkey - The pubkey to look up
+   * @param options - Directed or mutual neighbourhoods
+   * @returns Promise resolving to the neighbourhood size, triangles and coefficient
+   */
+  getLocalClustering(
+    pubkey: string,
+    options?: ClusteringOptions,
+  ): Promise<LocalClustering>;
+
+  /**
+   * Recommend pubkeys to follow, ranked by how many followed pubkeys follow them
+   * @param pubkey - The pubkey to recommend follows for
+   * @param options - Limit, mute filtering, minimum mutual count and trust weighting
+   * @returns Promise resolving to recommendations, best first
+   */
+  getFollowRecommendations(
+    pubkey: string,
+    options?: FollowRecommendationOptions,
+  ): Promise<FollowRecommendation[]>;
+
+  /**
+   * Get the relays most commonly suggested for a pubkey in follow lists
+   * @param pubkey - The pubkey to get relay hints for
+   * @param limit - Maximum number of relays to return (default: 10)
+   * @returns Promise resolving to relay hints, most suggested first
+   */
+  getRelayHints(pubkey: string, limit?: number): Promise<RelayHint[]>;
+
+  /**
+   * Get the petnames assigned to a pubkey in follow lists
+   * @param pubkey - The pubkey to get petnames for
+   * @returns Promise resolving to petnames ordered by follower pubkey
+   */
+  getPetnames(pubkey: string): Promise<Petname[]>;
+
   /**
    * Sets the root pubkey for optimized distance calculations.
    *
@@ -216,18 +1046,65 @@ export interface SocialGraphAnalyzer {
    */
   getRootPubkey(): string | null;
 
+  /**
+   * Get the length of the shortest follow chain from a pubkey to the root pubkey
+   * @param pubkey - Pubkey whose follows lead to the root (64-character hex string)
+   * @returns Promise resolving to the distance, or null if the root is not reachable within maxDepth
+   */
+  getInboundDistanceToRoot(pubkey: string): Promise<number | null>;
+
   /**
    * Get all users exactly at a specific distance from the root pubkey
    * @param distance - The exact distance in hops
+   * @param direction - Distances from the root (default: "outbound") or to the root ("inbound")
    * @returns Promise resolving to array of pubkeys
    */
-  getUsersAtDistance(distance: number): Promise<string[]>;
+  getUsersAtDistance(
+    distance: number,
+    direction?: RootDistanceDirection,
+  ): Promise<string[]>;
 
   /**
    * Get the distribution of users by distance from the root pubkey
+   * @param direction - Distances from the root (default: "outbound") or to the root ("inbound")
    * @returns Promise resolving to a map of distance -> count
    */
-  getDistanceDistribution(): Promise<Record<number, number>>;
+  getDistanceDistribution(
+    direction?: RootDistanceDirection,
+  ): Promise<Record<number, number>>;
+
+  /**
+   * Get the number of parents and shortest paths between the root pubkey and a pubkey
+   * @param pubkey - Target pubkey (64-character hex string)
+   * @param direction - Paths from the root (default: "outbound") or to the root ("inbound")
+   * @returns Promise resolving to the counts, or null if not within maxDepth of the root
+   */
+  getRootPathCounts(
+    pubkey: string,
+    direction?: RootDistanceDirection,
+  ): Promise<RootPathCounts | null>;
+
+  /**
+   * Register a root whose distances are kept up to date on ingestion
+   * Evicts the least recently used roots beyond maxRoots
+   * @param pubkey - Root pubkey (64-character hex string)
+   * @param maxDepth - Depth to compute distances to (defaults to analyzer's maxDepth)
+   * @returns Promise resolving to the pubkeys of evicted roots
+   */
+  addRoot(pubkey: string, maxDepth?: number): Promise<string[]>;
+
+  /**
+   * Unregister a root and drop its distances
+   * @param pubkey - Root pubkey (64-character hex string)
+   * @returns Promise resolving to true if the root was registered
+   */
+  removeRoot(pubkey: string): Promise<boolean>;
+
+  /**
+   * List the registered roots, most recently used first
+   * @returns Promise resolving to the registered roots
+   */
+  listRoots(): Promise<RootInfo[]>;
 
   /**
    * Close the database connection
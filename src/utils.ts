@@ -1,3 +1,15 @@
+import type { Logger } from "./types.js";
+
+/**
+ * Default logger: silent for debug/info, forwards warnings and errors to the console
+ */
+export const defaultLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: (message, ...args) => console.warn(message, ...args),
+  error: (message, ...args) => console.error(message, ...args),
+};
+
 /** Tests if a string is hex */
 export function isHex(str?: string): boolean {
   if (!str) return false;
@@ -13,6 +25,19 @@ export function isHexKey(key?: string): boolean {
   return /^[0-9a-f]{64}$/i.test(key);
 }
 
+/**
+ * Normalizes a relay URL from a tag, returning null if it is not a websocket URL
+ * Scheme and host are case-insensitive, so the URL is lowercased and any trailing slash is dropped
+ */
+export function normalizeRelayUrl(url?: string): string | null {
+  if (typeof url !== "string") return null;
+
+  const normalized = url.trim().toLowerCase().replace(/\/+$/, "");
+  if (!/^wss?:\/\/[^\s/]+/.test(normalized)) return null;
+
+  return normalized;
+}
+
 /**
  * Executes a database operation with retry logic for transaction conflicts
  * @param operation - Async function that performs the database operation
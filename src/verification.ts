@@ -0,0 +1,103 @@
+/**
+ * Nostr event id and signature verification (NIP-01, BIP-340)
+ */
+
+import { schnorr } from "@noble/curves/secp256k1.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils.js";
+import type { NostrEvent, EventVerificationResult } from "./types.js";
+import { isHexKey } from "./utils.js";
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Computes the NIP-01 event id
+ *
+ * The id is the lowercase hex sha256 of the UTF-8 JSON serialization of
+ * [0, pubkey, created_at, kind, tags, content].
+ *
+ * @param event - The Nostr event
+ * @returns The 64-character hex event id
+ */
+export function computeEventId(event: NostrEvent): string {
+  const serialized = JSON.stringify([
+    0,
+    event.pubkey,
+    event.created_at,
+    event.kind,
+    event.tags,
+    event.content,
+  ]);
+  return bytesToHex(sha256(textEncoder.encode(serialized)));
+}
+
+/**
+ * Verifies a Nostr event's id and BIP-340 Schnorr signature
+ *
+ * @param event - The Nostr event to verify
+ * @returns Verification result with a structured reason when invalid
+ */
+export function verifyEvent(event: NostrEvent): EventVerificationResult {
+  if (!isHexKey(event.id)) {
+    return {
+      valid: false,
+      reason: "invalid-id",
+      message: "Event id must be a 64-character hex string",
+    };
+  }
+
+  if (typeof event.content !== "string") {
+    return {
+      valid: false,
+      reason: "invalid-id",
+      message: "Event content must be a string",
+    };
+  }
+
+  const computedId = computeEventId(event);
+  if (computedId !== event.id) {
+    return {
+      valid: false,
+      reason: "invalid-id",
+      message: `Event id does not match its serialized hash (expected ${computedId})`,
+    };
+  }
+
+  if (typeof event.sig !== "string" || !/^[0-9a-f]{128}$/i.test(event.sig)) {
+    return {
+      valid: false,
+      reason: "invalid-signature",
+      message: "Event signature must be a 128-character hex string",
+    };
+  }
+
+  if (!isHexKey(event.pubkey)) {
+    return {
+      valid: false,
+      reason: "invalid-signature",
+      message: "Event pubkey must be a 64-character hex string",
+    };
+  }
+
+  let signatureValid = false;
+  try {
+    signatureValid = schnorr.verify(
+      hexToBytes(event.sig),
+      hexToBytes(computedId),
+      hexToBytes(event.pubkey),
+    );
+  } catch {
+    // Malformed points (e.g. pubkey not on the curve) are invalid signatures
+    signatureValid = false;
+  }
+
+  if (!signatureValid) {
+    return {
+      valid: false,
+      reason: "invalid-signature",
+      message: "Schnorr signature verification failed",
+    };
+  }
+
+  return { valid: true };
+}
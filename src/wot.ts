@@ -0,0 +1,132 @@
+/**
+ * Web-of-trust scores combining follows and mutes relative to the root pubkey
+ */
+
+import { DuckDBConnection } from "@duckdb/node-api";
+import type { WotOptions, WotScore, WotSignal } from "./types.js";
+import { executeWithRetry } from "./utils.js";
+import { setMetadataValue } from "./graph-analysis.js";
+
+/**
+ * Validates web-of-trust options and fills in defaults
+ */
+export function resolveWotOptions(
+  options: WotOptions = {},
+): Required<WotOptions> {
+  const { distanceDecay = 0.5, muteWeight = 1 } = options;
+
+  if (
+    typeof distanceDecay !== "number" ||
+    !(distanceDecay > 0 && distanceDecay <= 1)
+  ) {
+    throw new Error("distanceDecay must be a number in (0, 1]");
+  }
+  if (typeof muteWeight !== "number" || !(muteWeight >= 0)) {
+    throw new Error("muteWeight must be a non-negative number");
+  }
+
+  return { distanceDecay, muteWeight };
+}
+
+/**
+ * Builds the metadata value identifying a web-of-trust configuration
+ */
+export function getWotConfigKey(options: Required<WotOptions>): string {
+  return JSON.stringify([options.distanceDecay, options.muteWeight]);
+}
+
+/**
+ * Computes web-of-trust scores from nsd_root_distances and persists them
+ * into nsd_wot_scores
+ *
+ * Every follower and muter within the root distances table is a signal
+ * weighted by distanceDecay ^ (its distance from the root), so the root's
+ * own follows and mutes weigh the most. A pubkey scores the weighted number
+ * of followers minus muteWeight times the weighted number of muters.
+ * Pubkeys without any signal are not stored.
+ *
+ * @param connection - Active DuckDB connection
+ * @param options - Resolved web-of-trust options
+ */
+export async function computeWotScores(
+  connection: DuckDBConnection,
+  options: Required<WotOptions>,
+): Promise<void> {
+  await executeWithRetry(async () => {
+    await connection.run("BEGIN TRANSACTION");
+    try {
+      await connection.run(`DELETE FROM nsd_wot_scores`);
+      await connection.run(
+        `
+        INSERT INTO nsd_wot_scores (pubkey, score, signals)
+        WITH signals AS (
+          SELECT f.followed_pubkey AS pubkey, r.distance, 1 AS follows, 0 AS mutes
+          FROM nsd_follows f
+          JOIN nsd_root_distances r ON r.pubkey = f.follower_pubkey
+          UNION ALL
+          SELECT m.muted_pubkey AS pubkey, r.distance, 0 AS follows, 1 AS mutes
+          FROM nsd_mutes m
+          JOIN nsd_root_distances r ON r.pubkey = m.muter_pubkey
+        ),
+        per_distance AS (
+          SELECT pubkey, distance, SUM(follows) AS followers, SUM(mutes) AS muters
+          FROM signals
+          GROUP BY pubkey, distance
+        )
+        SELECT
+          pubkey,
+          SUM(POW($decay, distance) * (followers - $muteWeight * muters)) AS score,
+          LIST(
+            {'distance': distance, 'followers': followers, 'muters': muters}
+            ORDER BY distance
+          ) AS signals
+        FROM per_distance
+        GROUP BY pubkey
+        `,
+        { decay: options.distanceDecay, muteWeight: options.muteWeight },
+      );
+
+      await setMetadataValue(
+        connection,
+        "wot_config",
+        getWotConfigKey(options),
+      );
+      await setMetadataValue(connection, "wot_computed_at", String(Date.now()));
+
+      await connection.run("COMMIT");
+    } catch (error) {
+      await connection.run("ROLLBACK");
+      throw error;
+    }
+  });
+}
+
+/**
+ * Gets the stored web-of-trust score of a pubkey
+ *
+ * @param connection - Active DuckDB connection
+ * @param pubkey - Normalized pubkey to look up
+ * @returns Promise resolving to the score, with a score of 0 and no signals if none were stored
+ */
+export async function getWotScore(
+  connection: DuckDBConnection,
+  pubkey: string,
+): Promise<WotScore> {
+  const reader = await connection.runAndReadAll(
+    `SELECT score, signals FROM nsd_wot_scores WHERE pubkey = ?`,
+    [pubkey],
+  );
+  const rows = reader.getRowsJS();
+  if (rows.length === 0) {
+    return { pubkey, score: 0, signals: [] };
+  }
+
+  const signals = (rows[0]![1] as Record<string, unknown>[]).map(
+    (signal): WotSignal => ({
+      distance: Number(signal.distance),
+      followers: Number(signal.followers),
+      muters: Number(signal.muters),
+    }),
+  );
+  return { pubkey, score: Number(rows[0]![0]), signals };
+}
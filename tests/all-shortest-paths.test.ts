@@ -0,0 +1,177 @@
+/**
+ * Tests for listing and counting all shortest paths
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type { NostrEvent } from "../src/types.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+function pubkey(n: number): string {
+  return n.toString(16).padStart(64, "0");
+}
+
+/**
+ * Straightforward in-memory enumeration used as a reference
+ */
+function referenceShortestPaths(
+  edges: Map<string, string[]>,
+  from: string,
+  to: string,
+): string[][] {
+  const distances = new Map([[from, 0]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const next of edges.get(node) ?? []) {
+      if (!distances.has(next)) {
+        distances.set(next, distances.get(node)! + 1);
+        queue.push(next);
+      }
+    }
+  }
+  if (!distances.has(to)) return [];
+
+  const paths: string[][] = [];
+  const walk = (path: string[]) => {
+    const last = path[path.length - 1]!;
+    if (last === to) {
+      paths.push(path);
+      return;
+    }
+    for (const next of edges.get(last) ?? []) {
+      if (distances.get(next) === distances.get(last)! + 1) {
+        walk([...path, next]);
+      }
+    }
+  };
+  walk([from]);
+  return paths;
+}
+
+describe("All Shortest Paths", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should list every path through a diamond", async () => {
+    // adam -> fiatjaf|bob -> alice -> snowden, plus a longer detour
+    await analyzer.ingestEvents([
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob, pubkey(1)],
+        1000,
+      ),
+      createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.alice], 1000),
+      createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.alice], 1000),
+      createMockKind3Event(TEST_PUBKEYS.alice, [TEST_PUBKEYS.snowden], 1000),
+      createMockKind3Event(pubkey(1), [pubkey(2)], 1000),
+      createMockKind3Event(pubkey(2), [pubkey(3)], 1000),
+      createMockKind3Event(pubkey(3), [TEST_PUBKEYS.snowden], 1000),
+    ]);
+
+    const paths = await analyzer.getAllShortestPaths(
+      TEST_PUBKEYS.adam.toUpperCase(),
+      TEST_PUBKEYS.snowden,
+    );
+
+    expect(paths).toEqual(
+      [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob].sort().map((middle) => ({
+        path: [
+          TEST_PUBKEYS.adam,
+          middle,
+          TEST_PUBKEYS.alice,
+          TEST_PUBKEYS.snowden,
+        ],
+        distance: 3,
+      })),
+    );
+    expect(
+      await analyzer.countShortestPaths(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+      ),
+    ).toBe(2);
+    expect(
+      await analyzer.getAllShortestPaths(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+        { maxPaths: 1 },
+      ),
+    ).toHaveLength(1);
+  });
+
+  it("should match a reference implementation", async () => {
+    let seed = 3;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const nodes = Array.from({ length: 30 }, (_, i) => pubkey(i + 1));
+    const edges = new Map<string, string[]>();
+    const events: NostrEvent[] = [];
+    for (const from of nodes) {
+      const targets = nodes.filter((to) => to !== from && random() < 0.08);
+      if (targets.length === 0) continue;
+      edges.set(from, targets);
+      events.push(createMockKind3Event(from, targets, 1000));
+    }
+    await analyzer.ingestEvents(events);
+
+    for (const [from, to] of [
+      [nodes[0]!, nodes[29]!],
+      [nodes[3]!, nodes[17]!],
+      [nodes[11]!, nodes[2]!],
+      [nodes[25]!, nodes[8]!],
+    ]) {
+      const expected = referenceShortestPaths(edges, from, to).sort();
+      const paths = await analyzer.getAllShortestPaths(from, to, {
+        maxPaths: 1000,
+        maxDepth: 30,
+      });
+
+      expect(paths.map((p) => p.path)).toEqual(expected);
+      expect(await analyzer.countShortestPaths(from, to, 30)).toBe(
+        expected.length,
+      );
+    }
+  });
+
+  it("should handle trivial, unreachable and too distant pubkeys", async () => {
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.bob], 1000),
+    ]);
+
+    expect(
+      await analyzer.getAllShortestPaths(TEST_PUBKEYS.adam, TEST_PUBKEYS.adam),
+    ).toEqual([{ path: [TEST_PUBKEYS.adam], distance: 0 }]);
+    expect(
+      await analyzer.countShortestPaths(TEST_PUBKEYS.bob, TEST_PUBKEYS.adam),
+    ).toBe(0);
+    expect(
+      await analyzer.getAllShortestPaths(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob, {
+        maxDepth: 1,
+      }),
+    ).toEqual([]);
+    expect(
+      await analyzer.countShortestPaths(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+      ),
+    ).toBe(0);
+    await expect(
+      analyzer.getAllShortestPaths(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob, {
+        maxPaths: 0,
+      }),
+    ).rejects.toThrow("maxPaths must be a positive integer");
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for bulk imports through DuckDB's JSONL and Parquet readers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBConnection, DuckDBInstance } from "@duckdb/node-api";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import { initializeDatabase, setupSchema } from "../src/database.js";
+import { importFromFile, ingestEvents } from "../src/ingestion.js";
+import type { NostrEvent } from "../src/types.js";
+import {
+  TEST_PUBKEYS,
+  createMockKind3Event,
+  createMockKind10000Event,
+} from "./test-utils.js";
+
+function writeJsonl(path: string, events: unknown[]): void {
+  writeFileSync(
+    path,
+    events.map((event) => JSON.stringify(event)).join("\n") + "\n",
+  );
+}
+
+async function readTable(
+  connection: DuckDBConnection,
+  sql: string,
+): Promise<string[]> {
+  const reader = await connection.runAndReadAll(sql);
+  return reader.getRows().map((row) => row.map(String).join(","));
+}
+
+/**
+ * A mix of duplicates, stale versions, invalid tags and unrelated kinds
+ */
+function createDumpEvents(): NostrEvent[] {
+  const upper = TEST_PUBKEYS.snowden.toUpperCase();
+  return [
+    createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1000),
+    createMockKind3Event(
+      TEST_PUBKEYS.adam,
+      [TEST_PUBKEYS.fiatjaf, upper, TEST_PUBKEYS.fiatjaf],
+      2000,
+    ),
+    {
+      ...createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.bob], 1000),
+      tags: [
+        ["p", TEST_PUBKEYS.bob, "wss://relay.example.com", "bob"],
+        ["p", "not-a-pubkey"],
+        ["e", TEST_PUBKEYS.alice],
+        ["p"],
+      ],
+    },
+    // No valid 'p' tags, replacing the stored list with an empty one
+    createMockKind3Event(TEST_PUBKEYS.bob, [], 1000),
+    createMockKind10000Event(
+      TEST_PUBKEYS.alice,
+      [TEST_PUBKEYS.adam, TEST_PUBKEYS.alice],
+      1000,
+    ),
+    createMockKind10000Event(TEST_PUBKEYS.alice, [TEST_PUBKEYS.bob], 500),
+  ];
+}
+
+describe("Bulk Import", () => {
+  let instance: DuckDBInstance;
+  let connection: DuckDBConnection;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    instance = await initializeDatabase(":memory:");
+    connection = await instance.connect();
+    await setupSchema(connection);
+    tempDir = mkdtempSync(join(tmpdir(), "nsd-import-"));
+  });
+
+  afterEach(async () => {
+    connection.closeSync();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should produce the same graph as event-by-event ingestion", async () => {
+    const events = createDumpEvents();
+    const path = join(tempDir, "dump.jsonl");
+    // Unrelated kinds are skipped by the importer
+    writeJsonl(path, [
+      ...events,
+      { ...createMockKind3Event(TEST_PUBKEYS.bob, [], 1000), kind: 1 },
+    ]);
+
+    const report = await importFromFile(connection, path);
+
+    const referenceInstance = await initializeDatabase(":memory:");
+    const reference = await referenceInstance.connect();
+    await setupSchema(reference);
+    const expected = await ingestEvents(reference, events);
+
+    try {
+      for (const sql of [
+        "SELECT * FROM nsd_follows ORDER BY ALL",
+        "SELECT * FROM nsd_mutes ORDER BY ALL",
+        "SELECT pubkey, kind, event_id, created_at FROM nsd_latest_events ORDER BY ALL",
+      ]) {
+        expect(await readTable(connection, sql)).toEqual(
+          await readTable(reference, sql),
+        );
+      }
+    } finally {
+      reference.closeSync();
+    }
+
+    expect(report.eventsReceived).toBe(expected.report.eventsReceived);
+    expect(report.eventsAccepted).toBe(expected.report.eventsAccepted);
+    expect(report.eventsRejectedStale).toBe(
+      expected.report.eventsRejectedStale,
+    );
+    expect(report.followsInserted).toBe(expected.report.followsInserted);
+    expect(report.affectedPubkeys.sort()).toEqual(
+      expected.report.affectedPubkeys.sort(),
+    );
+  });
+
+  it("should apply latest-wins against already stored events", async () => {
+    await ingestEvents(connection, [
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 3000),
+      createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.bob], 1000),
+    ]);
+
+    const path = join(tempDir, "dump.jsonl");
+    writeJsonl(path, [
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.alice], 2000),
+      createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.alice], 2000),
+    ]);
+
+    const report = await importFromFile(connection, path);
+
+    expect(report.eventsAccepted).toBe(1);
+    expect(report.eventsRejectedStale).toBe(1);
+    expect(report.followsInserted).toBe(1);
+    expect(report.followsRemoved).toBe(1);
+    expect(report.affectedPubkeys).toEqual([TEST_PUBKEYS.fiatjaf]);
+    expect(
+      await readTable(
+        connection,
+        "SELECT follower_pubkey, followed_pubkey FROM nsd_follows ORDER BY ALL",
+      ),
+    ).toEqual(
+      [
+        `${TEST_PUBKEYS.adam},${TEST_PUBKEYS.bob}`,
+        `${TEST_PUBKEYS.fiatjaf},${TEST_PUBKEYS.alice}`,
+      ].sort(),
+    );
+  });
+
+  it("should import Parquet files", async () => {
+    const jsonlPath = join(tempDir, "dump.jsonl");
+    const parquetPath = join(tempDir, "dump.parquet");
+    writeJsonl(jsonlPath, createDumpEvents());
+    await connection.run(
+      `COPY (SELECT * FROM read_json(?, format = 'newline_delimited')) TO '${parquetPath}' (FORMAT parquet)`,
+      [jsonlPath],
+    );
+
+    const report = await importFromFile(connection, parquetPath);
+
+    expect(report.eventsAccepted).toBe(4);
+    expect(
+      await readTable(
+        connection,
+        "SELECT follower_pubkey, followed_pubkey FROM nsd_follows ORDER BY ALL",
+      ),
+    ).toEqual(
+      [
+        `${TEST_PUBKEYS.adam},${TEST_PUBKEYS.fiatjaf}`,
+        `${TEST_PUBKEYS.adam},${TEST_PUBKEYS.snowden}`,
+        `${TEST_PUBKEYS.fiatjaf},${TEST_PUBKEYS.bob}`,
+      ].sort(),
+    );
+  });
+});
+
+describe("DuckDBSocialGraphAnalyzer.importFromFile", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "nsd-import-"));
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should rebuild root distances after the import", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create({
+      rootPubkey: TEST_PUBKEYS.adam,
+    });
+    await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1000),
+    );
+
+    const path = join(tempDir, "dump.jsonl");
+    writeJsonl(path, createDumpEvents());
+    await analyzer.importFromFile(path, { format: "jsonl" });
+
+    expect(
+      await analyzer.getShortestDistance(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob),
+    ).toBe(2);
+    expect(await analyzer.getDistanceDistribution()).toEqual({ 1: 2, 2: 1 });
+  });
+
+  it("should refuse to import when signature verification is enabled", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create({
+      verifySignatures: true,
+    });
+
+    const path = join(tempDir, "dump.jsonl");
+    writeJsonl(path, createDumpEvents());
+
+    await expect(analyzer.importFromFile(path)).rejects.toThrow(
+      /do not verify signatures/,
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for the append-only log of replaced follow and mute lists
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type { GraphChange } from "../src/types.js";
+import {
+  TEST_PUBKEYS,
+  createMockKind3Event,
+  createMockKind10000Event,
+} from "./test-utils.js";
+
+/**
+ * Drops the fields that depend on event ids and the clock
+ */
+function summarize(changes: GraphChange[]) {
+  return changes.map(
+    ({ pubkey, kind, oldCreatedAt, newCreatedAt, added, removed }) => ({
+      pubkey,
+      kind,
+      oldCreatedAt,
+      newCreatedAt,
+      added,
+      removed,
+    }),
+  );
+}
+
+describe("Change Log", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should record every replaced list in order", async () => {
+    const first = createMockKind3Event(
+      TEST_PUBKEYS.adam,
+      [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob],
+      1000,
+    );
+    await analyzer.ingestEvent(first);
+    await analyzer.ingestEvents([
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.bob, TEST_PUBKEYS.alice, TEST_PUBKEYS.snowden],
+        1001,
+      ),
+      createMockKind10000Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.alice], 1000),
+    ]);
+
+    // Stale events leave no trace, emptied lists are recorded
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 999),
+      createMockKind3Event(TEST_PUBKEYS.adam, [], 1002),
+    ]);
+
+    const changes = await analyzer.getChangesSince(0);
+    expect(changes.map((change) => change.seq)).toEqual([1, 2, 3, 4]);
+    expect(summarize(changes)).toEqual([
+      {
+        pubkey: TEST_PUBKEYS.adam,
+        kind: 3,
+        oldCreatedAt: null,
+        newCreatedAt: 1000,
+        added: 2,
+        removed: 0,
+      },
+      {
+        pubkey: TEST_PUBKEYS.adam,
+        kind: 3,
+        oldCreatedAt: 1000,
+        newCreatedAt: 1001,
+        added: 2,
+        removed: 1,
+      },
+      {
+        pubkey: TEST_PUBKEYS.bob,
+        kind: 10000,
+        oldCreatedAt: null,
+        newCreatedAt: 1000,
+        added: 1,
+        removed: 0,
+      },
+      {
+        pubkey: TEST_PUBKEYS.adam,
+        kind: 3,
+        oldCreatedAt: 1001,
+        newCreatedAt: 1002,
+        added: 0,
+        removed: 3,
+      },
+    ]);
+    expect(changes[0]!.eventId).toBe(first.id);
+    expect(changes[0]!.recordedAt).toBeGreaterThan(0);
+
+    // Resuming after a sequence number, one page at a time
+    expect(
+      (await analyzer.getChangesSince(1, 1)).map((change) => change.seq),
+    ).toEqual([2]);
+    expect(await analyzer.getChangesSince(4)).toEqual([]);
+  });
+
+  it("should record bulk imports after ingested changes", async () => {
+    await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+    );
+
+    const tempDir = mkdtempSync(join(tmpdir(), "nsd-changes-"));
+    try {
+      const path = join(tempDir, "dump.jsonl");
+      writeFileSync(
+        path,
+        [
+          createMockKind3Event(
+            TEST_PUBKEYS.adam,
+            [TEST_PUBKEYS.bob, TEST_PUBKEYS.alice],
+            1001,
+          ),
+          createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.bob], 1000),
+          createMockKind10000Event(
+            TEST_PUBKEYS.bob,
+            [TEST_PUBKEYS.snowden],
+            1000,
+          ),
+        ]
+          .map((event) => JSON.stringify(event))
+          .join("\n") + "\n",
+      );
+      await analyzer.importFromFile(path);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+
+    // Numbered after the ingested change, follow lists first and by author
+    const changes = await analyzer.getChangesSince(1);
+    expect(changes.map((change) => change.seq)).toEqual([2, 3, 4]);
+    expect(summarize(changes)).toEqual([
+      {
+        pubkey: TEST_PUBKEYS.adam,
+        kind: 3,
+        oldCreatedAt: 1000,
+        newCreatedAt: 1001,
+        added: 2,
+        removed: 1,
+      },
+      {
+        pubkey: TEST_PUBKEYS.fiatjaf,
+        kind: 3,
+        oldCreatedAt: null,
+        newCreatedAt: 1000,
+        added: 1,
+        removed: 0,
+      },
+      {
+        pubkey: TEST_PUBKEYS.bob,
+        kind: 10000,
+        oldCreatedAt: null,
+        newCreatedAt: 1000,
+        added: 1,
+        removed: 0,
+      },
+    ]);
+  });
+
+  it("should validate the sequence number and limit", async () => {
+    await expect(analyzer.getChangesSince(-1)).rejects.toThrow(
+      "seq must be a non-negative integer",
+    );
+    await expect(analyzer.getChangesSince(0, 0)).rejects.toThrow(
+      "limit must be a positive integer",
+    );
+  });
+});
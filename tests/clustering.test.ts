@@ -0,0 +1,154 @@
+/**
+ * Tests for triangle counting, clustering coefficients and transitivity
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type { NostrEvent } from "../src/types.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+function pubkey(n: number): string {
+  return n.toString(16).padStart(64, "0");
+}
+
+describe("Clustering", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should count links between the pubkeys a pubkey follows", async () => {
+    // adam follows fiatjaf, bob and alice; only fiatjaf -> bob links them
+    await analyzer.ingestEvents([
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [
+          TEST_PUBKEYS.adam,
+          TEST_PUBKEYS.fiatjaf,
+          TEST_PUBKEYS.bob,
+          TEST_PUBKEYS.alice,
+        ],
+        1000,
+      ),
+      createMockKind3Event(
+        TEST_PUBKEYS.fiatjaf,
+        [TEST_PUBKEYS.adam, TEST_PUBKEYS.bob],
+        1000,
+      ),
+    ]);
+
+    expect(
+      await analyzer.getLocalClustering(TEST_PUBKEYS.adam.toUpperCase()),
+    ).toEqual({
+      pubkey: TEST_PUBKEYS.adam,
+      mode: "directed",
+      degree: 3,
+      triangles: 1,
+      clusteringCoefficient: 1 / 6,
+    });
+    expect(
+      await analyzer.getLocalClustering(TEST_PUBKEYS.adam, { mode: "mutual" }),
+    ).toMatchObject({ degree: 1, triangles: 0, clusteringCoefficient: 0 });
+    expect(
+      await analyzer.getLocalClustering(TEST_PUBKEYS.snowden),
+    ).toMatchObject({ degree: 0, triangles: 0, clusteringCoefficient: 0 });
+  });
+
+  it("should match a reference implementation", async () => {
+    let seed = 5;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const nodes = Array.from({ length: 25 }, (_, i) => pubkey(i + 1));
+    const follows = new Map<string, Set<string>>(
+      nodes.map((node) => [node, new Set<string>()]),
+    );
+    const events: NostrEvent[] = [];
+    for (const from of nodes) {
+      const targets = nodes.filter((to) => to !== from && random() < 0.3);
+      if (targets.length === 0) continue;
+      targets.forEach((to) => follows.get(from)!.add(to));
+      events.push(createMockKind3Event(from, targets, 1000));
+    }
+    await analyzer.ingestEvents(events);
+
+    const follow = (a: string, b: string) => follows.get(a)!.has(b);
+    const mutual = (a: string, b: string) => follow(a, b) && follow(b, a);
+
+    // Local coefficients
+    for (const node of nodes.slice(0, 5)) {
+      const out = [...follows.get(node)!];
+      let links = 0;
+      for (const a of out) for (const b of out) if (follow(a, b)) links++;
+      const directed = await analyzer.getLocalClustering(node);
+      expect(directed.degree).toBe(out.length);
+      expect(directed.triangles).toBe(links);
+      expect(directed.clusteringCoefficient).toBeCloseTo(
+        out.length > 1 ? links / (out.length * (out.length - 1)) : 0,
+        12,
+      );
+
+      const friends = nodes.filter((other) => mutual(node, other));
+      let pairs = 0;
+      for (const a of friends)
+        for (const b of friends) if (a < b && mutual(a, b)) pairs++;
+      const undirected = await analyzer.getLocalClustering(node, {
+        mode: "mutual",
+      });
+      expect(undirected.degree).toBe(friends.length);
+      expect(undirected.triangles).toBe(pairs);
+    }
+
+    // Directed transitivity: closed chains a -> b -> c over all chains
+    let chains = 0;
+    let closed = 0;
+    for (const a of nodes)
+      for (const b of follows.get(a)!)
+        for (const c of follows.get(b)!) {
+          if (c === a) continue;
+          chains++;
+          if (follow(a, c)) closed++;
+        }
+    const directedStats = await analyzer.getStats({ transitivity: "directed" });
+    expect(directedStats.triangles).toBe(closed);
+    expect(directedStats.transitivity).toBeCloseTo(closed / chains, 12);
+
+    // Mutual transitivity: 3 * triangles over connected triples
+    let triangles = 0;
+    let triples = 0;
+    for (const a of nodes) {
+      const degree = nodes.filter((other) => mutual(a, other)).length;
+      triples += (degree * (degree - 1)) / 2;
+      for (const b of nodes)
+        for (const c of nodes)
+          if (a < b && b < c && mutual(a, b) && mutual(b, c) && mutual(a, c))
+            triangles++;
+    }
+    const mutualStats = await analyzer.getStats({ transitivity: "mutual" });
+    expect(mutualStats.triangles).toBe(triangles);
+    expect(mutualStats.transitivity).toBeCloseTo((3 * triangles) / triples, 12);
+  });
+
+  it("should only compute transitivity when requested", async () => {
+    const stats = await analyzer.getStats();
+
+    expect(stats.transitivity).toBeUndefined();
+    expect(await analyzer.getStats({ transitivity: "mutual" })).toMatchObject({
+      triangles: 0,
+      transitivity: 0,
+    });
+    await expect(
+      analyzer.getLocalClustering(TEST_PUBKEYS.adam, {
+        mode: "undirected" as "mutual",
+      }),
+    ).rejects.toThrow("mode must be");
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for weakly and strongly connected components
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type { NostrEvent } from "../src/types.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+function pubkey(n: number): string {
+  return n.toString(16).padStart(64, "0");
+}
+
+/**
+ * Straightforward in-memory Tarjan's algorithm used as a reference
+ * Labels every pubkey with the smallest pubkey of its strong component
+ */
+function referenceStrongComponents(
+  nodes: string[],
+  edges: Map<string, string[]>,
+): Map<string, string> {
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const labels = new Map<string, string>();
+
+  const visit = (node: string) => {
+    index.set(node, index.size);
+    lowlink.set(node, index.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of edges.get(node) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowlink.set(node, Math.min(lowlink.get(node)!, lowlink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowlink.set(node, Math.min(lowlink.get(node)!, index.get(next)!));
+      }
+    }
+
+    if (lowlink.get(node) === index.get(node)) {
+      const members: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        members.push(member);
+      } while (member !== node);
+      const id = [...members].sort()[0]!;
+      members.forEach((m) => labels.set(m, id));
+    }
+  };
+
+  nodes.forEach((node) => index.has(node) || visit(node));
+  return labels;
+}
+
+describe("Connected Components", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should label weak and strong components", async () => {
+    // adam <-> fiatjaf -> bob <-> alice, and a separate snowden -> 1 pair
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      createMockKind3Event(
+        TEST_PUBKEYS.fiatjaf,
+        [TEST_PUBKEYS.adam, TEST_PUBKEYS.bob],
+        1000,
+      ),
+      createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.alice], 1000),
+      createMockKind3Event(TEST_PUBKEYS.alice, [TEST_PUBKEYS.bob], 1000),
+      createMockKind3Event(TEST_PUBKEYS.snowden, [pubkey(1)], 1000),
+    ]);
+
+    const result = await analyzer.computeComponents();
+    expect(result).toEqual({
+      nodeCount: 6,
+      weakComponents: 2,
+      strongComponents: 4,
+    });
+
+    const mainIsland = [
+      TEST_PUBKEYS.adam,
+      TEST_PUBKEYS.fiatjaf,
+      TEST_PUBKEYS.bob,
+      TEST_PUBKEYS.alice,
+    ].sort()[0]!;
+    expect(await analyzer.getComponent(TEST_PUBKEYS.bob)).toEqual({
+      id: mainIsland,
+      size: 4,
+    });
+    expect(
+      await analyzer.getComponent(TEST_PUBKEYS.fiatjaf.toUpperCase(), "strong"),
+    ).toEqual({
+      id: [TEST_PUBKEYS.adam, TEST_PUBKEYS.fiatjaf].sort()[0]!,
+      size: 2,
+    });
+    expect(await analyzer.getComponent(pubkey(1), "strong")).toEqual({
+      id: pubkey(1),
+      size: 1,
+    });
+
+    expect(await analyzer.getComponentSizes()).toEqual({ 2: 1, 4: 1 });
+    expect(await analyzer.getComponentSizes("strong")).toEqual({ 1: 2, 2: 2 });
+    expect(await analyzer.getLargestComponent()).toEqual({
+      id: mainIsland,
+      size: 4,
+    });
+  });
+
+  it("should match a reference implementation", async () => {
+    // Seeded pseudo-random graph with a few dense clusters and sparse links
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const nodes = Array.from({ length: 40 }, (_, i) => pubkey(i + 1));
+    const edges = new Map<string, string[]>();
+    const events: NostrEvent[] = [];
+    for (const [i, from] of nodes.entries()) {
+      const targets = nodes.filter((to, j) => {
+        if (to === from) return false;
+        const sameCluster = Math.floor(i / 10) === Math.floor(j / 10);
+        return random() < (sameCluster ? 0.2 : 0.01);
+      });
+      if (targets.length === 0) continue;
+      edges.set(from, targets);
+      events.push(createMockKind3Event(from, targets, 1000));
+    }
+    await analyzer.ingestEvents(events);
+
+    const graphNodes = [
+      ...new Set([...edges.keys(), ...[...edges.values()].flat()]),
+    ];
+    const expected = referenceStrongComponents(graphNodes, edges);
+
+    const result = await analyzer.computeComponents();
+    expect(result.nodeCount).toBe(graphNodes.length);
+    expect(result.strongComponents).toBe(new Set(expected.values()).size);
+
+    for (const node of graphNodes) {
+      const component = await analyzer.getComponent(node, "strong");
+      expect(component!.id).toBe(expected.get(node)!);
+    }
+  });
+
+  it("should ignore self-follows and unknown pubkeys", async () => {
+    await analyzer.ingestEvent(
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.adam, TEST_PUBKEYS.bob],
+        1000,
+      ),
+    );
+
+    const result = await analyzer.computeComponents();
+
+    expect(result.strongComponents).toBe(2);
+    expect(await analyzer.getComponent(TEST_PUBKEYS.snowden)).toBeNull();
+  });
+
+  it("should return empty results before components are computed", async () => {
+    expect(await analyzer.getComponentSizes()).toEqual({});
+    expect(await analyzer.getLargestComponent("strong")).toBeNull();
+    expect(await analyzer.computeComponents()).toEqual({
+      nodeCount: 0,
+      weakComponents: 0,
+      strongComponents: 0,
+    });
+  });
+});
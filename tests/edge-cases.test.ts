@@ -52,14 +52,116 @@ describe("Edge Cases and Error Handling", () => {
         timestamp, // Same timestamp
       );
 
-      // When timestamps are equal, the behavior might be implementation-dependent
-      // In our implementation, we keep the first one encountered
+      // When timestamps are equal, NIP-01 keeps the event with the lowest id
       await analyzer.ingestEvents([event1, event2]);
 
       const stats = await analyzer.getStats();
       expect(stats.totalFollows).toBe(1);
     });
 
+    it("should keep the event with the lowest id on equal timestamps", async () => {
+      const timestamp = 1234567890;
+
+      const event1 = createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf],
+        timestamp,
+      );
+      event1.id = "f".repeat(64);
+
+      const event2 = createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.snowden],
+        timestamp,
+      );
+      event2.id = "0".repeat(64);
+
+      await analyzer.ingestEvents([event1, event2]);
+
+      expect(
+        await analyzer.isDirectFollow(TEST_PUBKEYS.adam, TEST_PUBKEYS.snowden),
+      ).toBe(true);
+      expect(
+        await analyzer.isDirectFollow(TEST_PUBKEYS.adam, TEST_PUBKEYS.fiatjaf),
+      ).toBe(false);
+    });
+
+    it("should ignore older events ingested in a later call", async () => {
+      const newerEvent = createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.snowden],
+        2000,
+      );
+      const olderEvent = createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.sirius],
+        1000,
+      );
+
+      await analyzer.ingestEvents([newerEvent]);
+      await analyzer.ingestEvents([olderEvent]);
+
+      const stats = await analyzer.getStats();
+      expect(stats.totalFollows).toBe(1);
+      expect(
+        await analyzer.isDirectFollow(TEST_PUBKEYS.adam, TEST_PUBKEYS.snowden),
+      ).toBe(true);
+    });
+
+    it("should apply NIP-01 tie-breaking across ingestion calls", async () => {
+      const timestamp = 1234567890;
+
+      const lowIdEvent = createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf],
+        timestamp,
+      );
+      lowIdEvent.id = "0".repeat(64);
+
+      const highIdEvent = createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.snowden],
+        timestamp,
+      );
+      highIdEvent.id = "f".repeat(64);
+
+      await analyzer.ingestEvent(lowIdEvent);
+      await analyzer.ingestEvent(highIdEvent);
+
+      expect(
+        await analyzer.isDirectFollow(TEST_PUBKEYS.adam, TEST_PUBKEYS.fiatjaf),
+      ).toBe(true);
+      expect(
+        await analyzer.isDirectFollow(TEST_PUBKEYS.adam, TEST_PUBKEYS.snowden),
+      ).toBe(false);
+    });
+
+    it("should let an empty follow list replace and outrank older lists", async () => {
+      await analyzer.ingestEvent(
+        createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      );
+
+      // Unfollowing everyone
+      const report = await analyzer.ingestEvent(
+        createMockKind3Event(TEST_PUBKEYS.adam, [], 2000),
+      );
+      expect(report.eventsAccepted).toBe(1);
+      expect(report.followsRemoved).toBe(1);
+      expect(
+        await analyzer.isDirectFollow(TEST_PUBKEYS.adam, TEST_PUBKEYS.fiatjaf),
+      ).toBe(false);
+
+      // An older non-empty list arriving afterwards is stale
+      const staleReport = await analyzer.ingestEvent(
+        createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1500),
+      );
+      expect(staleReport.eventsRejectedStale).toBe(1);
+      expect(
+        await analyzer.isDirectFollow(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob),
+      ).toBe(false);
+      expect((await analyzer.getStats()).totalFollows).toBe(0);
+    });
+
     it("should handle very old and very new timestamps", async () => {
       const ancientEvent = createMockKind3Event(
         TEST_PUBKEYS.adam,
@@ -0,0 +1,163 @@
+/**
+ * Tests for relay hints and petnames from follow list 'p' tags
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import { parseKind3Event } from "../src/parser.js";
+import type { NostrEvent } from "../src/types.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+function createKind3EventWithTags(
+  pubkey: string,
+  tags: string[][],
+  timestamp: number,
+): NostrEvent {
+  return { ...createMockKind3Event(pubkey, [], timestamp), tags };
+}
+
+describe("Follow Hints", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should parse relay hints and petnames from 'p' tags", () => {
+    const { follows } = parseKind3Event(
+      createKind3EventWithTags(
+        TEST_PUBKEYS.adam,
+        [
+          ["p", TEST_PUBKEYS.bob, " WSS://Relay.Example.com/ ", " bob "],
+          ["p", TEST_PUBKEYS.alice, "https://not-a-relay.com", ""],
+          ["p", TEST_PUBKEYS.fiatjaf],
+        ],
+        1000,
+      ),
+    );
+
+    expect(follows[0]!.relay_url).toBe("wss://relay.example.com");
+    expect(follows[0]!.petname).toBe("bob");
+    expect(follows[1]!.relay_url).toBeUndefined();
+    expect(follows[1]!.petname).toBeUndefined();
+    expect(follows[2]!.relay_url).toBeUndefined();
+  });
+
+  it("should aggregate relay hints across follow lists", async () => {
+    await analyzer.ingestEvents([
+      createKind3EventWithTags(
+        TEST_PUBKEYS.adam,
+        [["p", TEST_PUBKEYS.bob, "wss://relay.one", "bobby"]],
+        1000,
+      ),
+      createKind3EventWithTags(
+        TEST_PUBKEYS.fiatjaf,
+        [["p", TEST_PUBKEYS.bob, "wss://relay.two/"]],
+        1000,
+      ),
+      createKind3EventWithTags(
+        TEST_PUBKEYS.snowden,
+        [["p", TEST_PUBKEYS.bob, "wss://relay.two", "Bob"]],
+        1000,
+      ),
+      createKind3EventWithTags(
+        TEST_PUBKEYS.alice,
+        [
+          // The first tag for a target wins
+          ["p", TEST_PUBKEYS.bob, "wss://relay.one"],
+          ["p", TEST_PUBKEYS.bob, "wss://relay.three"],
+        ],
+        1000,
+      ),
+    ]);
+
+    expect(await analyzer.getRelayHints(TEST_PUBKEYS.bob)).toEqual([
+      { relay: "wss://relay.one", count: 2 },
+      { relay: "wss://relay.two", count: 2 },
+    ]);
+    expect(await analyzer.getRelayHints(TEST_PUBKEYS.bob, 1)).toHaveLength(1);
+    for (const limit of [0, -1, 1.5]) {
+      await expect(
+        analyzer.getRelayHints(TEST_PUBKEYS.bob, limit),
+      ).rejects.toThrow("limit must be a positive integer");
+    }
+    expect(await analyzer.getPetnames(TEST_PUBKEYS.bob)).toEqual(
+      [
+        { follower_pubkey: TEST_PUBKEYS.adam, petname: "bobby" },
+        { follower_pubkey: TEST_PUBKEYS.snowden, petname: "Bob" },
+      ].sort((a, b) => a.follower_pubkey.localeCompare(b.follower_pubkey)),
+    );
+  });
+
+  it("should replace hints when a follow list is replaced", async () => {
+    await analyzer.ingestEvent(
+      createKind3EventWithTags(
+        TEST_PUBKEYS.adam,
+        [["p", TEST_PUBKEYS.bob, "wss://relay.one", "bobby"]],
+        1000,
+      ),
+    );
+    await analyzer.ingestEvent(
+      createKind3EventWithTags(
+        TEST_PUBKEYS.adam,
+        [["p", TEST_PUBKEYS.bob]],
+        2000,
+      ),
+    );
+
+    expect(await analyzer.getRelayHints(TEST_PUBKEYS.bob)).toEqual([]);
+    expect(await analyzer.getPetnames(TEST_PUBKEYS.bob)).toEqual([]);
+
+    // A stale list does not bring them back
+    await analyzer.ingestEvent(
+      createKind3EventWithTags(
+        TEST_PUBKEYS.adam,
+        [["p", TEST_PUBKEYS.bob, "wss://relay.one", "bobby"]],
+        1500,
+      ),
+    );
+    expect(await analyzer.getRelayHints(TEST_PUBKEYS.bob)).toEqual([]);
+  });
+
+  it("should store hints from bulk imports", async () => {
+    const tempDir = mkdtempSync(join(tmpdir(), "nsd-hints-"));
+    try {
+      const path = join(tempDir, "dump.jsonl");
+      writeFileSync(
+        path,
+        JSON.stringify(
+          createKind3EventWithTags(
+            TEST_PUBKEYS.adam,
+            [
+              ["p", TEST_PUBKEYS.bob, "WSS://Relay.One/", " bobby "],
+              ["p", TEST_PUBKEYS.bob, "wss://relay.two"],
+              ["p", TEST_PUBKEYS.alice, "not a relay"],
+            ],
+            1000,
+          ),
+        ) + "\n",
+      );
+
+      await analyzer.importFromFile(path);
+
+      expect(await analyzer.getRelayHints(TEST_PUBKEYS.bob)).toEqual([
+        { relay: "wss://relay.one", count: 1 },
+      ]);
+      expect(await analyzer.getPetnames(TEST_PUBKEYS.bob)).toEqual([
+        { follower_pubkey: TEST_PUBKEYS.adam, petname: "bobby" },
+      ]);
+      expect(await analyzer.getRelayHints(TEST_PUBKEYS.alice)).toEqual([]);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for paginated follower and following lists
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type { FollowPageOptions } from "../src/types.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+function pubkey(n: number): string {
+  return n.toString(16).padStart(64, "0");
+}
+
+describe("Follow Pagination", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  async function collectFollowers(
+    target: string,
+    options: FollowPageOptions,
+  ): Promise<string[][]> {
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await analyzer.getFollowers(target, { ...options, cursor });
+      pages.push(page.pubkeys);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return pages;
+  }
+
+  it("should page through followers ordered by pubkey", async () => {
+    const followers = Array.from({ length: 25 }, (_, i) => pubkey(i + 1));
+    await analyzer.ingestEvents(
+      followers.map((follower) =>
+        createMockKind3Event(follower, [TEST_PUBKEYS.adam], 1000),
+      ),
+    );
+
+    const pages = await collectFollowers(TEST_PUBKEYS.adam, { limit: 10 });
+
+    expect(pages.map((page) => page.length)).toEqual([10, 10, 5]);
+    expect(pages.flat()).toEqual(followers);
+  });
+
+  it("should return the following list with a null cursor on the last page", async () => {
+    await analyzer.ingestEvent(
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob],
+        1000,
+      ),
+    );
+
+    const page = await analyzer.getFollowing(TEST_PUBKEYS.adam.toUpperCase());
+
+    expect(page.pubkeys).toEqual(
+      [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob].sort(),
+    );
+    expect(page.nextCursor).toBeNull();
+    expect((await analyzer.getFollowing(TEST_PUBKEYS.snowden)).pubkeys).toEqual(
+      [],
+    );
+  });
+
+  it("should order followers by follow created_at, newest first", async () => {
+    // Pairs share timestamps to exercise the pubkey tie-breaker
+    const followers = Array.from({ length: 7 }, (_, i) => pubkey(i + 1));
+    await analyzer.ingestEvents(
+      followers.map((follower, i) =>
+        createMockKind3Event(
+          follower,
+          [TEST_PUBKEYS.adam],
+          1000 + Math.floor(i / 2),
+        ),
+      ),
+    );
+
+    const pages = await collectFollowers(TEST_PUBKEYS.adam, {
+      limit: 3,
+      orderBy: "created_at",
+    });
+
+    expect(pages.flat()).toEqual([
+      pubkey(7),
+      pubkey(5),
+      pubkey(6),
+      pubkey(3),
+      pubkey(4),
+      pubkey(1),
+      pubkey(2),
+    ]);
+  });
+
+  it("should order following by follower count, highest first", async () => {
+    await analyzer.ingestEvents([
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob, TEST_PUBKEYS.alice],
+        1000,
+      ),
+      createMockKind3Event(TEST_PUBKEYS.snowden, [TEST_PUBKEYS.bob], 1000),
+      createMockKind3Event(pubkey(1), [TEST_PUBKEYS.bob], 1000),
+      createMockKind3Event(pubkey(2), [TEST_PUBKEYS.alice], 1000),
+    ]);
+
+    const first = await analyzer.getFollowing(TEST_PUBKEYS.adam, {
+      limit: 2,
+      orderBy: "follower_count",
+    });
+    expect(first.pubkeys).toEqual([TEST_PUBKEYS.bob, TEST_PUBKEYS.alice]);
+
+    const second = await analyzer.getFollowing(TEST_PUBKEYS.adam, {
+      limit: 2,
+      orderBy: "follower_count",
+      cursor: first.nextCursor!,
+    });
+    expect(second.pubkeys).toEqual([TEST_PUBKEYS.fiatjaf]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("should reject invalid limits and mismatched cursors", async () => {
+    await analyzer.ingestEvent(
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob],
+        1000,
+      ),
+    );
+
+    await expect(
+      analyzer.getFollowing(TEST_PUBKEYS.adam, { limit: 0 }),
+    ).rejects.toThrow("limit must be an integer");
+
+    const page = await analyzer.getFollowing(TEST_PUBKEYS.adam, { limit: 1 });
+    await expect(
+      analyzer.getFollowing(TEST_PUBKEYS.adam, {
+        cursor: page.nextCursor!,
+        orderBy: "created_at",
+      }),
+    ).rejects.toThrow("Cursor was issued for orderBy 'pubkey'");
+    await expect(
+      analyzer.getFollowing(TEST_PUBKEYS.adam, { cursor: "garbage" }),
+    ).rejects.toThrow("Invalid cursor");
+  });
+});
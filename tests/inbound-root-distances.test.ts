@@ -0,0 +1,194 @@
+/**
+ * Tests for inbound root distances (how far a pubkey's follows are from the root)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+function pubkey(n: number): string {
+  return n.toString(16).padStart(64, "0");
+}
+
+/**
+ * Reference BFS over reversed follows, capped at maxDepth
+ */
+function referenceInboundDistances(
+  follows: Map<string, string[]>,
+  root: string,
+  maxDepth: number,
+): Map<string, number> {
+  const followers = new Map<string, string[]>();
+  for (const [follower, followed] of follows) {
+    for (const target of followed) {
+      if (!followers.has(target)) followers.set(target, []);
+      followers.get(target)!.push(follower);
+    }
+  }
+
+  const distances = new Map([[root, 0]]);
+  const queue = [root];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    const distance = distances.get(node)!;
+    if (distance === maxDepth) continue;
+    for (const follower of followers.get(node) ?? []) {
+      if (!distances.has(follower)) {
+        distances.set(follower, distance + 1);
+        queue.push(follower);
+      }
+    }
+  }
+  return distances;
+}
+
+describe("Inbound Root Distances", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should measure follow chains leading to the root", async () => {
+    // snowden -> alice -> bob -> adam, and adam -> fiatjaf
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.snowden, [TEST_PUBKEYS.alice], 1000),
+      createMockKind3Event(TEST_PUBKEYS.alice, [TEST_PUBKEYS.bob], 1000),
+      createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.adam], 1000),
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+    ]);
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+
+    expect(
+      await analyzer.getInboundDistanceToRoot(
+        TEST_PUBKEYS.snowden.toUpperCase(),
+      ),
+    ).toBe(3);
+    expect(await analyzer.getInboundDistanceToRoot(TEST_PUBKEYS.adam)).toBe(0);
+    expect(
+      await analyzer.getInboundDistanceToRoot(TEST_PUBKEYS.fiatjaf),
+    ).toBeNull();
+
+    expect(await analyzer.getUsersAtDistance(2, "inbound")).toEqual([
+      TEST_PUBKEYS.alice,
+    ]);
+    expect(await analyzer.getDistanceDistribution("inbound")).toEqual({
+      1: 1,
+      2: 1,
+      3: 1,
+    });
+
+    // Outbound stays the default
+    expect(await analyzer.getUsersAtDistance(1)).toEqual([
+      TEST_PUBKEYS.fiatjaf,
+    ]);
+    expect(await analyzer.getDistanceDistribution()).toEqual({ 1: 1 });
+  });
+
+  it("should apply follows and unfollows incrementally", async () => {
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.snowden, [TEST_PUBKEYS.alice], 1000),
+      createMockKind3Event(TEST_PUBKEYS.alice, [TEST_PUBKEYS.bob], 1000),
+      createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.adam], 1000),
+    ]);
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+    expect(await analyzer.getInboundDistanceToRoot(TEST_PUBKEYS.snowden)).toBe(
+      3,
+    );
+
+    // snowden follows adam directly
+    await analyzer.ingestEvent(
+      createMockKind3Event(
+        TEST_PUBKEYS.snowden,
+        [TEST_PUBKEYS.alice, TEST_PUBKEYS.adam],
+        1001,
+      ),
+    );
+    expect(await analyzer.getInboundDistanceToRoot(TEST_PUBKEYS.snowden)).toBe(
+      1,
+    );
+
+    // bob unfollows adam, cutting alice off
+    await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.fiatjaf], 1001),
+    );
+    expect(
+      await analyzer.getInboundDistanceToRoot(TEST_PUBKEYS.alice),
+    ).toBeNull();
+    expect(await analyzer.getDistanceDistribution("inbound")).toEqual({ 1: 1 });
+  });
+
+  it("should keep the delta-maintained table equal to a reference", async () => {
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    const nodes = Array.from({ length: 25 }, (_, i) => pubkey(i + 1));
+    const follows = new Map<string, string[]>();
+    const randomFollowList = (author: string) => {
+      const list = nodes.filter((node) => node !== author && random() < 0.12);
+      follows.set(author, list);
+      return list;
+    };
+
+    let timestamp = 1000;
+    await analyzer.ingestEvents(
+      nodes.map((node) =>
+        createMockKind3Event(node, randomFollowList(node), timestamp++),
+      ),
+    );
+    await analyzer.setRootPubkey(nodes[0]!);
+    await analyzer.getInboundDistanceToRoot(nodes[0]!);
+
+    for (let round = 0; round < 8; round++) {
+      const authors = nodes.filter(() => random() < 0.2);
+      if (round % 3 === 0) {
+        authors.push(nodes[0]!);
+      }
+      await analyzer.ingestEvents(
+        authors.map((author) =>
+          createMockKind3Event(author, randomFollowList(author), timestamp++),
+        ),
+      );
+
+      const expected = referenceInboundDistances(follows, nodes[0]!, 6);
+      for (const node of nodes) {
+        expect(await analyzer.getInboundDistanceToRoot(node)).toBe(
+          expected.get(node) ?? null,
+        );
+      }
+    }
+  });
+
+  it("should require a root pubkey and be dropped with the root tables", async () => {
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.adam], 1000),
+    ]);
+
+    await expect(
+      analyzer.getInboundDistanceToRoot(TEST_PUBKEYS.bob),
+    ).rejects.toThrow("Root pubkey must be set");
+    await expect(analyzer.getDistanceDistribution("inbound")).rejects.toThrow(
+      "Root pubkey must be set",
+    );
+
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+    expect(await analyzer.getInboundDistanceToRoot(TEST_PUBKEYS.bob)).toBe(1);
+    await expect(
+      analyzer.getUsersAtDistance(1, "sideways" as "inbound"),
+    ).rejects.toThrow("direction must be 'outbound' or 'inbound'");
+
+    await analyzer.dropRootDistances();
+    await expect(
+      analyzer.getInboundDistanceToRoot(TEST_PUBKEYS.bob),
+    ).rejects.toThrow("Root pubkey must be set");
+  });
+});
@@ -104,8 +104,13 @@ describe("Ingestion and Root Distances Integration", () => {
     expect(initialDistance2a).toBe(2);
 
     // Add new follow relationships - should trigger delta updates
+    // The root's new follow list replaces the old one, so it keeps layer1a
     const newEvents = [
-      createMockKind3Event(TEST_PUBKEYS.root, [TEST_PUBKEYS.layer1b], 1002),
+      createMockKind3Event(
+        TEST_PUBKEYS.root,
+        [TEST_PUBKEYS.layer1a, TEST_PUBKEYS.layer1b],
+        1002,
+      ),
       createMockKind3Event(TEST_PUBKEYS.layer1b, [TEST_PUBKEYS.layer2b], 1003),
     ];
 
@@ -415,4 +420,229 @@ describe("Ingestion and Root Distances Integration", () => {
     );
     expect(distance3a).toBe(3);
   });
+
+  it("should drop nodes that were only reachable through unfollowed edges", async () => {
+    const initialEvents = [
+      createMockKind3Event(
+        TEST_PUBKEYS.root,
+        [TEST_PUBKEYS.layer1a, TEST_PUBKEYS.layer1b],
+        1000,
+      ),
+      createMockKind3Event(TEST_PUBKEYS.layer1a, [TEST_PUBKEYS.layer2a], 1001),
+      createMockKind3Event(TEST_PUBKEYS.layer2a, [TEST_PUBKEYS.layer3a], 1002),
+    ];
+
+    await analyzer.ingestEvents(initialEvents);
+    await analyzer.setRootPubkey(TEST_PUBKEYS.root);
+    expect(await analyzer.getDistanceDistribution()).toEqual({
+      1: 2,
+      2: 1,
+      3: 1,
+    });
+
+    // Root unfollows layer1a, cutting off its whole subtree
+    await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.root, [TEST_PUBKEYS.layer1b], 1003),
+    );
+
+    const distances = await analyzer.getShortestDistancesBatch(
+      TEST_PUBKEYS.root,
+      [
+        TEST_PUBKEYS.layer1a,
+        TEST_PUBKEYS.layer1b,
+        TEST_PUBKEYS.layer2a,
+        TEST_PUBKEYS.layer3a,
+      ],
+    );
+    expect(distances.get(TEST_PUBKEYS.layer1a)).toBeNull();
+    expect(distances.get(TEST_PUBKEYS.layer1b)).toBe(1);
+    expect(distances.get(TEST_PUBKEYS.layer2a)).toBeNull();
+    expect(distances.get(TEST_PUBKEYS.layer3a)).toBeNull();
+    expect(await analyzer.getDistanceDistribution()).toEqual({ 1: 1 });
+  });
+
+  it("should lengthen distances when a shortest path is unfollowed", async () => {
+    // layer3a is at distance 2 via layer2a, with a longer path via layer1a -> layer1b
+    const initialEvents = [
+      createMockKind3Event(
+        TEST_PUBKEYS.root,
+        [TEST_PUBKEYS.layer1a, TEST_PUBKEYS.layer2a],
+        1000,
+      ),
+      createMockKind3Event(TEST_PUBKEYS.layer2a, [TEST_PUBKEYS.layer3a], 1001),
+      createMockKind3Event(TEST_PUBKEYS.layer1a, [TEST_PUBKEYS.layer1b], 1002),
+      createMockKind3Event(TEST_PUBKEYS.layer1b, [TEST_PUBKEYS.layer3a], 1003),
+    ];
+
+    await analyzer.ingestEvents(initialEvents);
+    await analyzer.setRootPubkey(TEST_PUBKEYS.root);
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.root,
+        TEST_PUBKEYS.layer3a,
+      ),
+    ).toBe(2);
+
+    await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.root, [TEST_PUBKEYS.layer1a], 1004),
+    );
+
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.root,
+        TEST_PUBKEYS.layer2a,
+      ),
+    ).toBeNull();
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.root,
+        TEST_PUBKEYS.layer3a,
+      ),
+    ).toBe(3);
+  });
+
+  it("should rebuild after ingestion fails between batches", async () => {
+    await analyzer.close();
+    let failing = false;
+    analyzer = await DuckDBSocialGraphAnalyzer.create({
+      onProgress: () => {
+        if (failing) {
+          throw new Error("progress callback failed");
+        }
+      },
+    });
+
+    await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.root, [TEST_PUBKEYS.layer1a], 1000),
+    );
+    await analyzer.setRootPubkey(TEST_PUBKEYS.root);
+
+    // The first batch, holding the new root list, commits before the failure
+    const events = [
+      createMockKind3Event(
+        TEST_PUBKEYS.root,
+        [TEST_PUBKEYS.layer1a, TEST_PUBKEYS.layer1b],
+        1001,
+      ),
+      ...Array.from({ length: 149 }, (_, i) =>
+        createMockKind3Event(
+          (i + 1).toString(16).padStart(64, "0"),
+          [TEST_PUBKEYS.layer2a],
+          1000,
+        ),
+      ),
+    ];
+    failing = true;
+    await expect(analyzer.ingestEvents(events)).rejects.toThrow(
+      "progress callback failed",
+    );
+
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.root,
+        TEST_PUBKEYS.layer1b,
+      ),
+    ).toBe(1);
+    expect(
+      await analyzer.getShortestPath(TEST_PUBKEYS.root, TEST_PUBKEYS.layer1b),
+    ).toEqual({ path: [TEST_PUBKEYS.root, TEST_PUBKEYS.layer1b], distance: 1 });
+  });
+
+  it("should match a full rebuild after empty contact lists", async () => {
+    // root -> layer1a|layer1b, layer1a -> layer2a -> layer3a, layer1b -> layer2b -> layer3b
+    await analyzer.ingestEvents([
+      createMockKind3Event(
+        TEST_PUBKEYS.root,
+        [TEST_PUBKEYS.layer1a, TEST_PUBKEYS.layer1b],
+        1000,
+      ),
+      createMockKind3Event(TEST_PUBKEYS.layer1a, [TEST_PUBKEYS.layer2a], 1000),
+      createMockKind3Event(TEST_PUBKEYS.layer1b, [TEST_PUBKEYS.layer2b], 1000),
+      createMockKind3Event(TEST_PUBKEYS.layer2a, [TEST_PUBKEYS.layer3a], 1000),
+      createMockKind3Event(
+        TEST_PUBKEYS.layer2b,
+        [TEST_PUBKEYS.layer3b, TEST_PUBKEYS.root],
+        1000,
+      ),
+    ]);
+    await analyzer.setRootPubkey(TEST_PUBKEYS.root);
+    await analyzer.getInboundDistanceToRoot(TEST_PUBKEYS.layer2b);
+
+    const nodes = Object.values(TEST_PUBKEYS);
+    const snapshot = async () => {
+      const entries = [];
+      for (const node of nodes) {
+        entries.push({
+          path: await analyzer.getShortestPath(TEST_PUBKEYS.root, node),
+          outbound: await analyzer.getRootPathCounts(node),
+          inbound: await analyzer.getRootPathCounts(node, "inbound"),
+        });
+      }
+      return entries;
+    };
+
+    // layer1a, on the only root path to layer2a and layer3a, unfollows everyone
+    await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.layer1a, [], 1001),
+    );
+    const afterNode = await snapshot();
+    expect(afterNode[nodes.indexOf(TEST_PUBKEYS.layer3a)]!.path).toBeNull();
+    await analyzer.rebuildRootDistances();
+    expect(afterNode).toEqual(await snapshot());
+
+    // Then the root itself unfollows everyone
+    await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.root, [], 1001),
+    );
+    const afterRoot = await snapshot();
+    expect(await analyzer.getDistanceDistribution()).toEqual({});
+    await analyzer.rebuildRootDistances();
+    expect(afterRoot).toEqual(await snapshot());
+  });
+
+  it("should keep the delta-maintained table equal to a full rebuild", async () => {
+    // Deterministic pseudo-random generator so failures are reproducible
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    const NODE_COUNT = 25;
+    const nodes = Array.from({ length: NODE_COUNT }, (_, i) =>
+      (i + 1).toString(16).padStart(64, "0"),
+    );
+    const randomFollowList = (author: string) =>
+      nodes.filter((node) => node !== author && random() < 0.12);
+
+    let timestamp = 1000;
+    await analyzer.ingestEvents(
+      nodes.map((node) =>
+        createMockKind3Event(node, randomFollowList(node), timestamp++),
+      ),
+    );
+    await analyzer.setRootPubkey(nodes[0]!);
+
+    const snapshot = async () =>
+      analyzer.getShortestDistancesBatch(nodes[0]!, nodes);
+
+    for (let round = 0; round < 8; round++) {
+      // Replace a handful of follow lists, including the root's now and then
+      const authors = nodes.filter(() => random() < 0.2);
+      if (round % 3 === 0) {
+        authors.push(nodes[0]!);
+      }
+      await analyzer.ingestEvents(
+        authors.map((author) =>
+          createMockKind3Event(author, randomFollowList(author), timestamp++),
+        ),
+      );
+
+      const deltaDistances = await snapshot();
+      await analyzer.rebuildRootDistances();
+      const rebuiltDistances = await snapshot();
+
+      expect(deltaDistances).toEqual(rebuiltDistances);
+    }
+  });
 });
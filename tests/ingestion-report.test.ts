@@ -0,0 +1,177 @@
+/**
+ * Tests for ingestion reports, progress callbacks and pluggable logging
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type { IngestionProgress, Logger } from "../src/types.js";
+import {
+  TEST_PUBKEYS,
+  createMockKind3Event,
+  createMockKind10000Event,
+} from "./test-utils.js";
+
+describe("Ingestion Reports", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should count accepted, stale and ignored events", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+
+    const report = await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      // Superseded by the event above within the same call
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 900),
+      createMockKind3Event(
+        TEST_PUBKEYS.fiatjaf,
+        [TEST_PUBKEYS.snowden, TEST_PUBKEYS.alice],
+        1000,
+      ),
+      // Empty lists replace the stored ones too
+      createMockKind3Event(TEST_PUBKEYS.bob, [], 1000),
+      createMockKind10000Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1000),
+    ]);
+
+    expect(report.eventsReceived).toBe(5);
+    expect(report.eventsAccepted).toBe(4);
+    expect(report.eventsRejectedStale).toBe(1);
+    expect(report.eventsRejectedInvalid).toEqual([]);
+    expect(report.followsInserted).toBe(3);
+    expect(report.followsRemoved).toBe(0);
+    expect(report.affectedPubkeys.sort()).toEqual(
+      [TEST_PUBKEYS.adam, TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob].sort(),
+    );
+    expect(report.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should report inserted and removed follows on list replacement", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+
+    await analyzer.ingestEvent(
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob],
+        1000,
+      ),
+    );
+
+    const report = await analyzer.ingestEvent(
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.alice],
+        2000,
+      ),
+    );
+
+    expect(report.eventsAccepted).toBe(1);
+    expect(report.followsInserted).toBe(1);
+    expect(report.followsRemoved).toBe(1);
+    expect(report.affectedPubkeys).toEqual([TEST_PUBKEYS.adam]);
+
+    // Replaying the older list is rejected as stale and changes nothing
+    const staleReport = await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1000),
+    );
+
+    expect(staleReport.eventsAccepted).toBe(0);
+    expect(staleReport.eventsRejectedStale).toBe(1);
+    expect(staleReport.followsInserted).toBe(0);
+    expect(staleReport.followsRemoved).toBe(0);
+    expect(staleReport.affectedPubkeys).toEqual([]);
+  });
+
+  it("should reject malformed events and ingest the rest", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+
+    const missingTags = createMockKind3Event(
+      TEST_PUBKEYS.bob,
+      [TEST_PUBKEYS.alice],
+      1000,
+    );
+    (missingTags as { tags: unknown }).tags = null;
+    const badTimestamp = createMockKind10000Event(
+      TEST_PUBKEYS.alice,
+      [TEST_PUBKEYS.bob],
+      -1,
+    );
+
+    const report = await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      missingTags,
+      badTimestamp,
+      createMockKind10000Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1000),
+    ]);
+
+    expect(report.eventsReceived).toBe(4);
+    expect(report.eventsAccepted).toBe(2);
+    expect(report.eventsRejectedInvalid).toEqual([
+      {
+        eventId: missingTags.id,
+        pubkey: TEST_PUBKEYS.bob,
+        reason: "invalid-structure",
+        message: "Invalid tags: must be an array",
+      },
+      {
+        eventId: badTimestamp.id,
+        pubkey: TEST_PUBKEYS.alice,
+        reason: "invalid-structure",
+        message: "Invalid created_at: must be a positive number",
+      },
+    ]);
+    expect(
+      await analyzer.isDirectFollow(TEST_PUBKEYS.adam, TEST_PUBKEYS.fiatjaf),
+    ).toBe(true);
+    expect(await analyzer.isMuted(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob)).toBe(
+      true,
+    );
+  });
+
+  it("should invoke the progress callback after each batch", async () => {
+    const progress: IngestionProgress[] = [];
+    analyzer = await DuckDBSocialGraphAnalyzer.create({
+      onProgress: (update) => progress.push(update),
+    });
+
+    const events = Array.from({ length: 150 }, (_, i) =>
+      createMockKind3Event(
+        i.toString(16).padStart(64, "0"),
+        [TEST_PUBKEYS.adam],
+        1000,
+      ),
+    );
+    await analyzer.ingestEvents(events);
+
+    expect(progress).toHaveLength(2);
+    expect(progress.map((p) => p.batch)).toEqual([1, 2]);
+    expect(progress.every((p) => p.kind === 3 && p.totalBatches === 2)).toBe(
+      true,
+    );
+    expect(progress[progress.length - 1].eventsProcessed).toBe(150);
+    expect(progress[progress.length - 1].totalEvents).toBe(150);
+  });
+
+  it("should route ingestion messages through a custom logger", async () => {
+    const messages: string[] = [];
+    const logger: Logger = {
+      debug: (message) => messages.push(message),
+      info: (message) => messages.push(message),
+      warn: (message) => messages.push(message),
+      error: (message) => messages.push(message),
+    };
+    analyzer = await DuckDBSocialGraphAnalyzer.create({ logger });
+
+    await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+    );
+
+    expect(messages.length).toBeGreaterThan(0);
+    expect(messages.some((m) => m.startsWith("Ingestion completed"))).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for k-core decomposition
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type { NostrEvent } from "../src/types.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+function pubkey(n: number): string {
+  return n.toString(16).padStart(64, "0");
+}
+
+/**
+ * Straightforward in-memory peeling used as a reference
+ */
+function referenceCoreNumbers(
+  adjacency: Map<string, Set<string>>,
+): Map<string, number> {
+  const degrees = new Map(
+    [...adjacency].map(([node, neighbours]) => [node, neighbours.size]),
+  );
+  const cores = new Map<string, number>();
+  let k = 0;
+
+  while (degrees.size > 0) {
+    k = Math.max(k, Math.min(...degrees.values()));
+    const node = [...degrees].find(([, degree]) => degree <= k)![0];
+    cores.set(node, k);
+    degrees.delete(node);
+    for (const neighbour of adjacency.get(node)!) {
+      if (degrees.has(neighbour)) {
+        degrees.set(neighbour, degrees.get(neighbour)! - 1);
+      }
+    }
+  }
+
+  return cores;
+}
+
+const CLIQUE = [
+  TEST_PUBKEYS.adam,
+  TEST_PUBKEYS.fiatjaf,
+  TEST_PUBKEYS.bob,
+  TEST_PUBKEYS.alice,
+];
+
+/**
+ * Four pubkeys all following each other, followed one way by snowden
+ */
+function createCliqueGraph(): NostrEvent[] {
+  return [
+    ...CLIQUE.map((member) =>
+      createMockKind3Event(
+        member,
+        CLIQUE.filter((other) => other !== member),
+        1000,
+      ),
+    ),
+    createMockKind3Event(TEST_PUBKEYS.snowden, [TEST_PUBKEYS.adam], 1000),
+  ];
+}
+
+describe("k-core Decomposition", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should find the core numbers of a clique with a pendant", async () => {
+    await analyzer.ingestEvents(createCliqueGraph());
+
+    const result = await analyzer.computeKCore();
+    expect(result).toEqual({ mode: "undirected", nodeCount: 5, maxCore: 3 });
+
+    expect(await analyzer.getCoreNumber(TEST_PUBKEYS.bob.toUpperCase())).toBe(
+      3,
+    );
+    expect(await analyzer.getCoreNumber(TEST_PUBKEYS.snowden)).toBe(1);
+    expect(await analyzer.getCoreNumber(pubkey(1))).toBeNull();
+    expect(await analyzer.getKCoreMembers(3)).toEqual([...CLIQUE].sort());
+    expect(await analyzer.getKCoreMembers(1)).toHaveLength(5);
+  });
+
+  it("should only count mutual follows in mutual mode", async () => {
+    await analyzer.ingestEvents(createCliqueGraph());
+
+    const result = await analyzer.computeKCore({ mode: "mutual" });
+
+    expect(result).toEqual({ mode: "mutual", nodeCount: 5, maxCore: 3 });
+    expect(await analyzer.getCoreNumber(TEST_PUBKEYS.snowden)).toBe(0);
+    expect(await analyzer.getKCoreMembers(1)).toEqual([...CLIQUE].sort());
+  });
+
+  it("should match a reference implementation", async () => {
+    let seed = 11;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const nodes = Array.from({ length: 40 }, (_, i) => pubkey(i + 1));
+    const adjacency = new Map<string, Set<string>>();
+    const events: NostrEvent[] = [];
+    for (const [i, from] of nodes.entries()) {
+      // Lower pubkeys follow more, so core numbers vary
+      const targets = nodes.filter(
+        (to) => to !== from && random() < 0.3 - i * 0.007,
+      );
+      if (targets.length === 0) continue;
+      events.push(createMockKind3Event(from, targets, 1000));
+      for (const to of targets) {
+        if (!adjacency.has(from)) adjacency.set(from, new Set());
+        if (!adjacency.has(to)) adjacency.set(to, new Set());
+        adjacency.get(from)!.add(to);
+        adjacency.get(to)!.add(from);
+      }
+    }
+    await analyzer.ingestEvents(events);
+
+    const expected = referenceCoreNumbers(adjacency);
+    const result = await analyzer.computeKCore();
+
+    expect(result.nodeCount).toBe(expected.size);
+    expect(result.maxCore).toBe(Math.max(...expected.values()));
+    for (const [node, core] of expected) {
+      expect(await analyzer.getCoreNumber(node)).toBe(core);
+    }
+  });
+
+  it("should reject invalid arguments", async () => {
+    await expect(
+      analyzer.computeKCore({ mode: "directed" as "mutual" }),
+    ).rejects.toThrow("mode must be");
+    await expect(analyzer.getKCoreMembers(-1)).rejects.toThrow(
+      "k must be a non-negative integer",
+    );
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Tests for the registry of roots with maintained distances
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DuckDBInstance } from "@duckdb/node-api";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+function pubkey(n: number): string {
+  return n.toString(16).padStart(64, "0");
+}
+
+/**
+ * Reference BFS over follows, capped at maxDepth
+ */
+function referenceDistances(
+  follows: Map<string, string[]>,
+  root: string,
+  maxDepth: number,
+): Map<string, number> {
+  const distances = new Map([[root, 0]]);
+  const queue = [root];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    const distance = distances.get(node)!;
+    if (distance === maxDepth) continue;
+    for (const next of follows.get(node) ?? []) {
+      if (!distances.has(next)) {
+        distances.set(next, distance + 1);
+        queue.push(next);
+      }
+    }
+  }
+  return distances;
+}
+
+describe("Multiple Roots", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create({ maxRoots: 3 });
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should register, list and remove roots", async () => {
+    // adam -> fiatjaf -> bob -> alice
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.bob], 1000),
+      createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.alice], 1000),
+    ]);
+
+    expect(await analyzer.addRoot(TEST_PUBKEYS.adam.toUpperCase())).toEqual([]);
+    await analyzer.addRoot(TEST_PUBKEYS.fiatjaf, 1);
+
+    expect(
+      await analyzer.getShortestDistance(TEST_PUBKEYS.adam, TEST_PUBKEYS.alice),
+    ).toBe(3);
+    // Beyond the requested depth
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.alice,
+        2,
+      ),
+    ).toBeNull();
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.fiatjaf,
+        TEST_PUBKEYS.bob,
+      ),
+    ).toBe(1);
+    // Beyond the root's depth, a search is needed
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.fiatjaf,
+        TEST_PUBKEYS.alice,
+        1,
+      ),
+    ).toBeNull();
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.fiatjaf,
+        TEST_PUBKEYS.alice,
+      ),
+    ).toBe(2);
+
+    const roots = await analyzer.listRoots();
+    expect(
+      roots.map(({ pubkey, maxDepth, size }) => ({ pubkey, maxDepth, size })),
+    ).toEqual([
+      { pubkey: TEST_PUBKEYS.fiatjaf, maxDepth: 1, size: 2 },
+      { pubkey: TEST_PUBKEYS.adam, maxDepth: 6, size: 4 },
+    ]);
+
+    // Re-adding at another depth recomputes the distances
+    await analyzer.addRoot(TEST_PUBKEYS.fiatjaf);
+    expect((await analyzer.listRoots())[0]).toMatchObject({
+      pubkey: TEST_PUBKEYS.fiatjaf,
+      maxDepth: 6,
+      size: 3,
+    });
+
+    expect(await analyzer.removeRoot(TEST_PUBKEYS.adam)).toBe(true);
+    expect(await analyzer.removeRoot(TEST_PUBKEYS.adam)).toBe(false);
+    expect((await analyzer.listRoots()).map((root) => root.pubkey)).toEqual([
+      TEST_PUBKEYS.fiatjaf,
+    ]);
+    // Falls back to a search
+    expect(
+      await analyzer.getShortestDistance(TEST_PUBKEYS.adam, TEST_PUBKEYS.alice),
+    ).toBe(3);
+  });
+
+  it("should evict the least recently used roots", async () => {
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+    ]);
+
+    await analyzer.addRoot(TEST_PUBKEYS.adam);
+    await analyzer.addRoot(TEST_PUBKEYS.fiatjaf);
+    await analyzer.addRoot(TEST_PUBKEYS.bob);
+
+    // Using adam leaves fiatjaf as the least recently used
+    await analyzer.getShortestDistance(TEST_PUBKEYS.adam, TEST_PUBKEYS.fiatjaf);
+    expect(await analyzer.addRoot(TEST_PUBKEYS.alice)).toEqual([
+      TEST_PUBKEYS.fiatjaf,
+    ]);
+
+    // Re-adding marks a root as used
+    await analyzer.addRoot(TEST_PUBKEYS.bob);
+    expect(await analyzer.addRoot(TEST_PUBKEYS.snowden)).toEqual([
+      TEST_PUBKEYS.adam,
+    ]);
+
+    expect((await analyzer.listRoots()).map((root) => root.pubkey)).toEqual([
+      TEST_PUBKEYS.snowden,
+      TEST_PUBKEYS.bob,
+      TEST_PUBKEYS.alice,
+    ]);
+  });
+
+  it("should record root uses without writing on lookups", async () => {
+    const instance = await DuckDBInstance.create(":memory:");
+    const connection = await instance.connect();
+    const usedAt = async () =>
+      (
+        await connection.runAndReadAll(
+          "SELECT pubkey, last_used_at FROM nsd_roots ORDER BY pubkey",
+        )
+      )
+        .getRows()
+        .map((row) => `${row[0]},${row[1]}`);
+
+    const connected = await DuckDBSocialGraphAnalyzer.connect(connection, {
+      maxRoots: 3,
+    });
+    try {
+      await connected.ingestEvents([
+        createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      ]);
+      await connected.addRoot(TEST_PUBKEYS.adam);
+      await connected.addRoot(TEST_PUBKEYS.fiatjaf);
+
+      const before = await usedAt();
+      await connected.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.fiatjaf,
+      );
+      expect(await usedAt()).toEqual(before);
+
+      // Written on close
+      await connected.close();
+      expect(
+        (
+          await connection.runAndReadAll(
+            "SELECT pubkey FROM nsd_roots ORDER BY last_used_at DESC LIMIT 1",
+          )
+        ).getRows()[0]![0],
+      ).toBe(TEST_PUBKEYS.adam);
+    } finally {
+      await connected.close();
+      connection.closeSync();
+      instance.closeSync();
+    }
+  });
+
+  it("should keep every root equal to a reference across updates", async () => {
+    let seed = 5;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    const nodes = Array.from({ length: 25 }, (_, i) => pubkey(i + 1));
+    const follows = new Map<string, string[]>();
+    const randomFollowList = (author: string) => {
+      const list = nodes.filter((node) => node !== author && random() < 0.12);
+      follows.set(author, list);
+      return list;
+    };
+
+    let timestamp = 1000;
+    await analyzer.ingestEvents(
+      nodes.map((node) =>
+        createMockKind3Event(node, randomFollowList(node), timestamp++),
+      ),
+    );
+
+    const roots: [string, number][] = [
+      [nodes[0]!, 6],
+      [nodes[7]!, 2],
+      [nodes[13]!, 3],
+    ];
+    for (const [root, maxDepth] of roots) {
+      await analyzer.addRoot(root, maxDepth);
+    }
+
+    for (let round = 0; round < 8; round++) {
+      const authors = nodes.filter(() => random() < 0.2);
+      if (round % 3 === 0) {
+        authors.push(roots[round % roots.length]![0]);
+      }
+      await analyzer.ingestEvents(
+        authors.map((author) =>
+          createMockKind3Event(author, randomFollowList(author), timestamp++),
+        ),
+      );
+
+      for (const [root, maxDepth] of roots) {
+        const expected = referenceDistances(follows, root, maxDepth);
+        for (const node of nodes) {
+          expect(await analyzer.getShortestDistance(root, node, maxDepth)).toBe(
+            expected.get(node) ?? null,
+          );
+        }
+      }
+    }
+  });
+
+  it("should rebuild roots after a bulk import", async () => {
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+    ]);
+    await analyzer.addRoot(TEST_PUBKEYS.adam);
+
+    const tempDir = mkdtempSync(join(tmpdir(), "nsd-roots-"));
+    try {
+      const path = join(tempDir, "dump.jsonl");
+      writeFileSync(
+        path,
+        JSON.stringify(
+          createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.bob], 1000),
+        ) + "\n",
+      );
+      await analyzer.importFromFile(path);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+
+    expect(
+      await analyzer.getShortestDistance(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob),
+    ).toBe(2);
+    expect((await analyzer.listRoots())[0]!.size).toBe(3);
+
+    await expect(
+      DuckDBSocialGraphAnalyzer.create({ maxRoots: 0 }),
+    ).rejects.toThrow("maxRoots must be a positive integer");
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for Kind 10000 mute list ingestion and mute queries
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import {
+  TEST_PUBKEYS,
+  createMockKind3Event,
+  createMockKind10000Event,
+} from "./test-utils.js";
+
+describe("Mute Lists", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should ingest mute lists alongside follow lists", async () => {
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      createMockKind10000Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.bob, TEST_PUBKEYS.alice],
+        1000,
+      ),
+      createMockKind10000Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.bob], 1001),
+    ]);
+
+    // Mutes must not leak into the follow graph
+    const stats = await analyzer.getStats();
+    expect(stats.totalFollows).toBe(1);
+
+    expect(await analyzer.getMuting(TEST_PUBKEYS.adam)).toEqual(
+      [TEST_PUBKEYS.bob, TEST_PUBKEYS.alice].sort(),
+    );
+    expect(await analyzer.getMutedBy(TEST_PUBKEYS.bob)).toEqual(
+      [TEST_PUBKEYS.adam, TEST_PUBKEYS.fiatjaf].sort(),
+    );
+    expect(await analyzer.isMuted(TEST_PUBKEYS.adam, TEST_PUBKEYS.alice)).toBe(
+      true,
+    );
+    expect(
+      await analyzer.isMuted(TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.alice),
+    ).toBe(false);
+  });
+
+  it("should replace mute lists with latest event wins semantics", async () => {
+    await analyzer.ingestEvent(
+      createMockKind10000Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 2000),
+    );
+
+    // Older mute list arriving later is ignored
+    await analyzer.ingestEvent(
+      createMockKind10000Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.alice], 1000),
+    );
+    expect(await analyzer.getMuting(TEST_PUBKEYS.adam)).toEqual([
+      TEST_PUBKEYS.bob,
+    ]);
+
+    // Newer mute list replaces the stored one
+    await analyzer.ingestEvent(
+      createMockKind10000Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.alice], 3000),
+    );
+    expect(await analyzer.getMuting(TEST_PUBKEYS.adam)).toEqual([
+      TEST_PUBKEYS.alice,
+    ]);
+  });
+
+  it("should let mute lists without 'p' tags unmute everyone", async () => {
+    await analyzer.ingestEvent(
+      createMockKind10000Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1000),
+    );
+
+    // Only muted words remain
+    const report = await analyzer.ingestEvent({
+      ...createMockKind10000Event(TEST_PUBKEYS.adam, [], 2000),
+      tags: [["word", "spam"]],
+    });
+    expect(report.eventsAccepted).toBe(1);
+    expect(await analyzer.isMuted(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob)).toBe(
+      false,
+    );
+
+    // An older mute list arriving afterwards is stale
+    await analyzer.ingestEvent(
+      createMockKind10000Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1500),
+    );
+    expect(await analyzer.getMuting(TEST_PUBKEYS.adam)).toEqual([]);
+  });
+
+  it("should let imported mute lists without 'p' tags unmute everyone", async () => {
+    await analyzer.ingestEvent(
+      createMockKind10000Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1000),
+    );
+
+    const tempDir = mkdtempSync(join(tmpdir(), "nsd-mutes-"));
+    try {
+      const path = join(tempDir, "dump.jsonl");
+      writeFileSync(
+        path,
+        [
+          createMockKind10000Event(TEST_PUBKEYS.adam, [], 2000),
+          createMockKind10000Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1500),
+        ]
+          .map((event) => JSON.stringify(event))
+          .join("\n") + "\n",
+      );
+      const report = await analyzer.importFromFile(path);
+      expect(report.eventsAccepted).toBe(1);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+
+    expect(await analyzer.getMuting(TEST_PUBKEYS.adam)).toEqual([]);
+  });
+
+  it("should track follow and mute lists of the same author independently", async () => {
+    await analyzer.ingestEvents([
+      createMockKind10000Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 5000),
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+    ]);
+
+    expect(
+      await analyzer.isDirectFollow(TEST_PUBKEYS.adam, TEST_PUBKEYS.fiatjaf),
+    ).toBe(true);
+    expect(await analyzer.isMuted(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob)).toBe(
+      true,
+    );
+  });
+
+  it("should ignore self-mutes and normalize muted pubkeys", async () => {
+    await analyzer.ingestEvent(
+      createMockKind10000Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.adam, TEST_PUBKEYS.snowden.toUpperCase()],
+        1000,
+      ),
+    );
+
+    expect(await analyzer.getMuting(TEST_PUBKEYS.adam)).toEqual([
+      TEST_PUBKEYS.snowden,
+    ]);
+  });
+
+  it("should key mixed-case authors the same way as bulk imports", async () => {
+    const author = TEST_PUBKEYS.adam.toUpperCase();
+    await analyzer.ingestEvents([
+      createMockKind10000Event(author, [TEST_PUBKEYS.bob], 1000),
+      createMockKind3Event(author, [TEST_PUBKEYS.fiatjaf], 1000),
+    ]);
+    expect(await analyzer.isMuted(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob)).toBe(
+      true,
+    );
+    expect(
+      await analyzer.isDirectFollow(TEST_PUBKEYS.adam, TEST_PUBKEYS.fiatjaf),
+    ).toBe(true);
+
+    // A newer imported list replaces the ingested one
+    const tempDir = mkdtempSync(join(tmpdir(), "nsd-mutes-"));
+    try {
+      const path = join(tempDir, "dump.jsonl");
+      writeFileSync(
+        path,
+        JSON.stringify(
+          createMockKind10000Event(author, [TEST_PUBKEYS.alice], 2000),
+        ) + "\n",
+      );
+      expect((await analyzer.importFromFile(path)).eventsAccepted).toBe(1);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+    expect(await analyzer.getMuting(TEST_PUBKEYS.adam)).toEqual([
+      TEST_PUBKEYS.alice,
+    ]);
+
+    // And an older ingested one is stale against it
+    const report = await analyzer.ingestEvent(
+      createMockKind10000Event(author, [TEST_PUBKEYS.bob], 1500),
+    );
+    expect(report.eventsRejectedStale).toBe(1);
+    expect(await analyzer.getMuting(TEST_PUBKEYS.adam)).toEqual([
+      TEST_PUBKEYS.alice,
+    ]);
+  });
+
+  it("should not affect root distances when ingesting mute lists", async () => {
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+    ]);
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+
+    await analyzer.ingestEvent(
+      createMockKind10000Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1001),
+    );
+
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.fiatjaf,
+      ),
+    ).toBe(1);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for PageRank computation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type { NostrEvent } from "../src/types.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+/**
+ * Straightforward in-memory PageRank used as a reference
+ */
+function referencePageRank(
+  edges: Map<string, string[]>,
+  damping: number,
+  iterations: number,
+): Map<string, number> {
+  const nodes = new Set<string>();
+  for (const [from, targets] of edges) {
+    nodes.add(from);
+    targets.forEach((to) => nodes.add(to));
+  }
+  const n = nodes.size;
+  let ranks = new Map([...nodes].map((node) => [node, 1 / n]));
+
+  for (let i = 0; i < iterations; i++) {
+    let dangling = 0;
+    for (const node of nodes) {
+      if ((edges.get(node) ?? []).length === 0) dangling += ranks.get(node)!;
+    }
+    const next = new Map(
+      [...nodes].map((node) => [
+        node,
+        (1 - damping) / n + (damping * dangling) / n,
+      ]),
+    );
+    for (const [from, targets] of edges) {
+      for (const to of targets) {
+        next.set(
+          to,
+          next.get(to)! + (damping * ranks.get(from)!) / targets.length,
+        );
+      }
+    }
+    ranks = next;
+  }
+
+  return ranks;
+}
+
+describe("PageRank", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should match a reference implementation", async () => {
+    // Seeded pseudo-random graph with dangling nodes
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const pubkeys = Array.from({ length: 30 }, (_, i) =>
+      (i + 1).toString(16).padStart(64, "0"),
+    );
+    const edges = new Map<string, string[]>();
+    const events: NostrEvent[] = [];
+    for (const pubkey of pubkeys.slice(0, 25)) {
+      const targets = pubkeys.filter(
+        (other) => other !== pubkey && random() < 0.15,
+      );
+      if (targets.length === 0) continue;
+      edges.set(pubkey, targets);
+      events.push(createMockKind3Event(pubkey, targets, 1000));
+    }
+    await analyzer.ingestEvents(events);
+
+    const result = await analyzer.computePageRank({
+      dampingFactor: 0.85,
+      maxIterations: 40,
+      tolerance: 1e-12,
+    });
+    const expected = referencePageRank(edges, 0.85, result.iterations);
+
+    expect(result.nodeCount).toBe(expected.size);
+    let total = 0;
+    for (const [pubkey, score] of expected) {
+      const actual = await analyzer.getPageRank(pubkey);
+      expect(actual).not.toBeNull();
+      expect(Math.abs(actual! - score)).toBeLessThan(1e-9);
+      total += actual!;
+    }
+    expect(total).toBeCloseTo(1, 9);
+  });
+
+  it("should rank the most followed pubkey first", async () => {
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.fiatjaf], 1000),
+      createMockKind3Event(
+        TEST_PUBKEYS.alice,
+        [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.snowden],
+        1000,
+      ),
+      createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.snowden], 1000),
+    ]);
+
+    const result = await analyzer.computePageRank();
+    expect(result.converged).toBe(true);
+
+    const top = await analyzer.getTopByPageRank(2);
+    expect(top.map((entry) => entry.pubkey)).toEqual([
+      TEST_PUBKEYS.snowden,
+      TEST_PUBKEYS.fiatjaf,
+    ]);
+    expect(top[0]!.score).toBeGreaterThan(top[1]!.score);
+  });
+
+  it("should stop at maxIterations without converging", async () => {
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.bob], 1000),
+    ]);
+
+    const result = await analyzer.computePageRank({
+      maxIterations: 1,
+      tolerance: 1e-15,
+    });
+
+    expect(result.iterations).toBe(1);
+    expect(result.converged).toBe(false);
+    expect(result.delta).toBeGreaterThan(0);
+  });
+
+  it("should return null for unranked pubkeys and handle empty graphs", async () => {
+    const result = await analyzer.computePageRank();
+
+    expect(result.nodeCount).toBe(0);
+    expect(await analyzer.getPageRank(TEST_PUBKEYS.adam)).toBeNull();
+    expect(await analyzer.getTopByPageRank()).toEqual([]);
+  });
+
+  it("should reject invalid options", async () => {
+    await expect(
+      analyzer.computePageRank({ dampingFactor: 1 }),
+    ).rejects.toThrow("dampingFactor");
+    await expect(analyzer.computePageRank({ tolerance: 0 })).rejects.toThrow(
+      "tolerance",
+    );
+    await expect(
+      analyzer.computePageRank({ maxIterations: 0 }),
+    ).rejects.toThrow("maxIterations");
+    for (const limit of [0, -1, 1.5, NaN]) {
+      await expect(analyzer.getTopByPageRank(limit)).rejects.toThrow(
+        "limit must be a positive integer",
+      );
+    }
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Tests for constrained path queries
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type { NostrEvent } from "../src/types.js";
+import {
+  TEST_PUBKEYS,
+  createMockKind3Event,
+  createMockKind10000Event,
+} from "./test-utils.js";
+
+function pubkey(n: number): string {
+  return n.toString(16).padStart(64, "0");
+}
+
+/**
+ * adam -> fiatjaf -> snowden is the short way, with an older follow list
+ * adam <-> bob <-> alice <-> snowden is the long way, all mutual
+ */
+function createPathGraph() {
+  return [
+    createMockKind3Event(
+      TEST_PUBKEYS.adam,
+      [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob],
+      1000,
+    ),
+    createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.snowden], 500),
+    createMockKind3Event(
+      TEST_PUBKEYS.bob,
+      [TEST_PUBKEYS.adam, TEST_PUBKEYS.alice],
+      1000,
+    ),
+    createMockKind3Event(
+      TEST_PUBKEYS.alice,
+      [TEST_PUBKEYS.bob, TEST_PUBKEYS.snowden],
+      1000,
+    ),
+    createMockKind3Event(TEST_PUBKEYS.snowden, [TEST_PUBKEYS.alice], 1000),
+  ];
+}
+
+const LONG_PATH = [
+  TEST_PUBKEYS.adam,
+  TEST_PUBKEYS.bob,
+  TEST_PUBKEYS.alice,
+  TEST_PUBKEYS.snowden,
+];
+
+describe("Path Options", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+    await analyzer.ingestEvents(createPathGraph());
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should route around excluded pubkeys", async () => {
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+      ),
+    ).toBe(2);
+
+    const options = { excludePubkeys: [TEST_PUBKEYS.fiatjaf.toUpperCase()] };
+    expect(
+      await analyzer.getShortestPath(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+        undefined,
+        options,
+      ),
+    ).toEqual({ path: LONG_PATH, distance: 3 });
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+        undefined,
+        options,
+      ),
+    ).toBe(3);
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+        2,
+        options,
+      ),
+    ).toBeNull();
+
+    // Excluded targets are unreachable
+    expect(
+      await analyzer.getShortestPath(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+        undefined,
+        { excludePubkeys: [TEST_PUBKEYS.snowden] },
+      ),
+    ).toBeNull();
+  });
+
+  it("should apply mutual, age and mute constraints", async () => {
+    for (const options of [
+      { mutualOnly: true },
+      { since: 900 },
+      { excludeMuted: true },
+    ]) {
+      if (options.excludeMuted) {
+        await analyzer.ingestEvent(
+          createMockKind10000Event(
+            TEST_PUBKEYS.adam,
+            [TEST_PUBKEYS.fiatjaf],
+            1000,
+          ),
+        );
+      }
+      expect(
+        await analyzer.getShortestPath(
+          TEST_PUBKEYS.adam,
+          TEST_PUBKEYS.snowden,
+          undefined,
+          options,
+        ),
+      ).toEqual({ path: LONG_PATH, distance: 3 });
+    }
+
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+        undefined,
+        { since: 1001 },
+      ),
+    ).toBeNull();
+  });
+
+  it("should bypass the root distances table when constrained", async () => {
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+      ),
+    ).toBe(2);
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+        undefined,
+        { excludePubkeys: [TEST_PUBKEYS.fiatjaf] },
+      ),
+    ).toBe(3);
+  });
+
+  it("should constrain listing and counting all shortest paths", async () => {
+    await analyzer.ingestEvent(
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob, TEST_PUBKEYS.alice],
+        1001,
+      ),
+    );
+
+    expect(
+      await analyzer.countShortestPaths(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+      ),
+    ).toBe(2);
+    expect(
+      await analyzer.getAllShortestPaths(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+        { since: 900 },
+      ),
+    ).toEqual([
+      {
+        path: [TEST_PUBKEYS.adam, TEST_PUBKEYS.alice, TEST_PUBKEYS.snowden],
+        distance: 2,
+      },
+    ]);
+    expect(
+      await analyzer.countShortestPaths(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+        undefined,
+        { mutualOnly: true },
+      ),
+    ).toBe(1);
+  });
+
+  it("should match a reference implementation", async () => {
+    let seed = 11;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const nodes = Array.from({ length: 40 }, (_, i) => pubkey(i + 1));
+    const follows = new Map<string, Set<string>>();
+    const events: NostrEvent[] = [];
+    for (const from of nodes) {
+      const targets = nodes.filter((to) => to !== from && random() < 0.3);
+      follows.set(from, new Set(targets));
+      if (targets.length > 0) {
+        events.push(createMockKind3Event(from, targets, 1000));
+      }
+    }
+    await analyzer.ingestEvents(events);
+
+    const excluded = new Set([nodes[4]!, nodes[9]!, nodes[20]!]);
+    const distance = (from: string, to: string): number | null => {
+      const distances = new Map([[from, 0]]);
+      const queue = [from];
+      while (queue.length > 0) {
+        const node = queue.shift()!;
+        for (const next of follows.get(node)!) {
+          if (
+            !distances.has(next) &&
+            !excluded.has(next) &&
+            follows.get(next)!.has(node)
+          ) {
+            distances.set(next, distances.get(node)! + 1);
+            queue.push(next);
+          }
+        }
+      }
+      return distances.get(to) ?? null;
+    };
+
+    for (const from of [nodes[0]!, nodes[11]!]) {
+      for (const to of nodes.slice(20)) {
+        expect(
+          await analyzer.getShortestDistance(from, to, 40, {
+            excludePubkeys: [...excluded],
+            mutualOnly: true,
+          }),
+        ).toBe(distance(from, to));
+      }
+    }
+  });
+
+  it("should reject invalid timestamps", async () => {
+    await expect(
+      analyzer.getShortestPath(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+        undefined,
+        { since: -1 },
+      ),
+    ).rejects.toThrow("since must be a non-negative integer timestamp");
+  });
+});
@@ -75,7 +75,12 @@ describe("Persistent Root Optimizations", () => {
     // Now ingest additional events - should trigger batch delta update
     const additionalEvents: NostrEvent[] = [
       createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.snowden], 1001),
-      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.sirius], 1002),
+      // Replaces adam's follow list, so it must keep fiatjaf to stay at distance 1
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.sirius],
+        1002,
+      ),
     ];
 
     await analyzer.ingestEvents(additionalEvents);
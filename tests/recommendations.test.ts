@@ -0,0 +1,127 @@
+/**
+ * Tests for follow recommendations
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import {
+  TEST_PUBKEYS,
+  createMockKind3Event,
+  createMockKind10000Event,
+} from "./test-utils.js";
+
+const EXTRA = {
+  carol: "1".repeat(64),
+  dave: "2".repeat(64),
+  erin: "3".repeat(64),
+};
+
+/**
+ * adam follows fiatjaf, bob and alice, and mutes dave
+ * fiatjaf and bob both follow snowden and erin, bob also follows dave and adam
+ * alice follows carol and dave
+ */
+function createRecommendationGraph() {
+  return [
+    createMockKind3Event(
+      TEST_PUBKEYS.adam,
+      [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob, TEST_PUBKEYS.alice],
+      1000,
+    ),
+    createMockKind10000Event(TEST_PUBKEYS.adam, [EXTRA.dave], 1000),
+    createMockKind3Event(
+      TEST_PUBKEYS.fiatjaf,
+      [TEST_PUBKEYS.snowden, EXTRA.erin, TEST_PUBKEYS.bob],
+      1000,
+    ),
+    createMockKind3Event(
+      TEST_PUBKEYS.bob,
+      [TEST_PUBKEYS.snowden, EXTRA.erin, EXTRA.dave, TEST_PUBKEYS.adam],
+      1000,
+    ),
+    createMockKind3Event(TEST_PUBKEYS.alice, [EXTRA.carol, EXTRA.dave], 1000),
+  ];
+}
+
+describe("Follow Recommendations", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+    await analyzer.ingestEvents(createRecommendationGraph());
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should rank friends of friends by mutual count", async () => {
+    const recommendations = await analyzer.getFollowRecommendations(
+      TEST_PUBKEYS.adam.toUpperCase(),
+    );
+
+    // Already followed pubkeys, the pubkey itself and muted dave are left out
+    expect(recommendations).toEqual([
+      ...[TEST_PUBKEYS.snowden, EXTRA.erin]
+        .sort()
+        .map((pubkey) => ({ pubkey, mutualCount: 2, score: 2 })),
+      { pubkey: EXTRA.carol, mutualCount: 1, score: 1 },
+    ]);
+  });
+
+  it("should apply limit, mute and mutual count options", async () => {
+    const all = await analyzer.getFollowRecommendations(TEST_PUBKEYS.adam, {
+      excludeMuted: false,
+    });
+    expect(all.find((r) => r.pubkey === EXTRA.dave)?.mutualCount).toBe(2);
+    expect(all).toHaveLength(4);
+
+    const popular = await analyzer.getFollowRecommendations(TEST_PUBKEYS.adam, {
+      minMutualCount: 2,
+    });
+    expect(popular.map((r) => r.pubkey).sort()).toEqual(
+      [TEST_PUBKEYS.snowden, EXTRA.erin].sort(),
+    );
+
+    expect(
+      await analyzer.getFollowRecommendations(TEST_PUBKEYS.adam, { limit: 1 }),
+    ).toHaveLength(1);
+    expect(
+      await analyzer.getFollowRecommendations(TEST_PUBKEYS.snowden),
+    ).toEqual([]);
+  });
+
+  it("should weight follows by trust score", async () => {
+    // Seen from alice, fiatjaf and bob are untrusted, so carol comes first
+    await analyzer.setRootPubkey(TEST_PUBKEYS.alice);
+
+    const recommendations = await analyzer.getFollowRecommendations(
+      TEST_PUBKEYS.adam,
+      { weightByTrust: true },
+    );
+
+    expect(recommendations[0]!.pubkey).toBe(EXTRA.carol);
+    expect(recommendations[0]!.score).toBe(
+      await analyzer.getTrustScore(TEST_PUBKEYS.alice),
+    );
+    expect(recommendations[1]!.score).toBe(0);
+  });
+
+  it("should reject invalid options", async () => {
+    await expect(
+      analyzer.getFollowRecommendations(TEST_PUBKEYS.adam, {
+        weightByTrust: true,
+      }),
+    ).rejects.toThrow("Root pubkey must be set");
+    await expect(
+      analyzer.getFollowRecommendations(TEST_PUBKEYS.adam, { limit: 0 }),
+    ).rejects.toThrow("limit must be a positive integer");
+    await expect(
+      analyzer.getFollowRecommendations(TEST_PUBKEYS.adam, {
+        minMutualCount: 0,
+      }),
+    ).rejects.toThrow("minMutualCount must be a positive integer");
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Tests for shortest paths walked up the parents of the root distances tables
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBInstance } from "@duckdb/node-api";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type { SocialPath } from "../src/types.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+function pubkey(n: number): string {
+  return n.toString(16).padStart(64, "0");
+}
+
+/**
+ * Reference BFS distances over follows
+ */
+function referenceDistances(
+  follows: Map<string, string[]>,
+  root: string,
+): Map<string, number> {
+  const distances = new Map([[root, 0]]);
+  const queue = [root];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const next of follows.get(node) ?? []) {
+      if (!distances.has(next)) {
+        distances.set(next, distances.get(node)! + 1);
+        queue.push(next);
+      }
+    }
+  }
+  return distances;
+}
+
+/**
+ * Checks that every hop of a path is a follow
+ */
+function expectFollowPath(follows: Map<string, string[]>, path: SocialPath) {
+  expect(path.path).toHaveLength(path.distance + 1);
+  for (let i = 0; i < path.distance; i++) {
+    expect(follows.get(path.path[i]!)).toContain(path.path[i + 1]!);
+  }
+}
+
+describe("Root Parents", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should walk up the parents from and to the root", async () => {
+    // adam -> fiatjaf|bob -> alice -> snowden -> adam
+    await analyzer.ingestEvents([
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob],
+        1000,
+      ),
+      createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.alice], 1000),
+      createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.alice], 1000),
+      createMockKind3Event(TEST_PUBKEYS.alice, [TEST_PUBKEYS.snowden], 1000),
+      createMockKind3Event(TEST_PUBKEYS.snowden, [TEST_PUBKEYS.adam], 1000),
+    ]);
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+
+    // The smallest parent is kept
+    const middle = [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob].sort()[0]!;
+    expect(
+      await analyzer.getShortestPath(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden.toUpperCase(),
+      ),
+    ).toEqual({
+      path: [
+        TEST_PUBKEYS.adam,
+        middle,
+        TEST_PUBKEYS.alice,
+        TEST_PUBKEYS.snowden,
+      ],
+      distance: 3,
+    });
+    expect(
+      await analyzer.getShortestPath(TEST_PUBKEYS.adam, TEST_PUBKEYS.adam),
+    ).toEqual({ path: [TEST_PUBKEYS.adam], distance: 0 });
+    expect(
+      await analyzer.getShortestPath(TEST_PUBKEYS.adam, pubkey(1)),
+    ).toBeNull();
+
+    // Inbound parents lead to the root
+    await analyzer.getInboundDistanceToRoot(TEST_PUBKEYS.bob);
+    expect(
+      await analyzer.getShortestPath(TEST_PUBKEYS.bob, TEST_PUBKEYS.adam),
+    ).toEqual({
+      path: [
+        TEST_PUBKEYS.bob,
+        TEST_PUBKEYS.alice,
+        TEST_PUBKEYS.snowden,
+        TEST_PUBKEYS.adam,
+      ],
+      distance: 3,
+    });
+  });
+
+  it("should honour maxDepth on paths from and to the root", async () => {
+    // adam -> fiatjaf -> alice -> snowden -> adam
+    await analyzer.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.alice], 1000),
+      createMockKind3Event(TEST_PUBKEYS.alice, [TEST_PUBKEYS.snowden], 1000),
+      createMockKind3Event(TEST_PUBKEYS.snowden, [TEST_PUBKEYS.adam], 1000),
+    ]);
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+    await analyzer.getInboundDistanceToRoot(TEST_PUBKEYS.fiatjaf);
+
+    expect(
+      await analyzer.getShortestPath(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+        2,
+      ),
+    ).toBeNull();
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+        2,
+      ),
+    ).toBeNull();
+    expect(
+      await analyzer.getShortestPath(
+        TEST_PUBKEYS.fiatjaf,
+        TEST_PUBKEYS.adam,
+        2,
+      ),
+    ).toBeNull();
+
+    expect(
+      (
+        await analyzer.getShortestPath(
+          TEST_PUBKEYS.adam,
+          TEST_PUBKEYS.snowden,
+          3,
+        )
+      )?.distance,
+    ).toBe(3);
+    expect(
+      (
+        await analyzer.getShortestPath(
+          TEST_PUBKEYS.fiatjaf,
+          TEST_PUBKEYS.adam,
+          3,
+        )
+      )?.distance,
+    ).toBe(3);
+  });
+
+  it("should keep valid parents across delta updates", async () => {
+    let seed = 13;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    const nodes = Array.from({ length: 25 }, (_, i) => pubkey(i + 1));
+    const follows = new Map<string, string[]>();
+    const randomFollowList = (author: string) => {
+      const list = nodes.filter((node) => node !== author && random() < 0.12);
+      follows.set(author, list);
+      return list;
+    };
+
+    let timestamp = 1000;
+    await analyzer.ingestEvents(
+      nodes.map((node) =>
+        createMockKind3Event(node, randomFollowList(node), timestamp++),
+      ),
+    );
+    await analyzer.setRootPubkey(nodes[0]!);
+
+    for (let round = 0; round < 8; round++) {
+      const authors = nodes.filter(() => random() < 0.2);
+      if (round % 3 === 0) {
+        authors.push(nodes[0]!);
+      }
+      await analyzer.ingestEvents(
+        authors.map((author) =>
+          createMockKind3Event(author, randomFollowList(author), timestamp++),
+        ),
+      );
+
+      const expected = referenceDistances(follows, nodes[0]!);
+      for (const node of nodes) {
+        const path = await analyzer.getShortestPath(nodes[0]!, node);
+        if (!expected.has(node) || expected.get(node)! > 6) {
+          expect(path).toBeNull();
+          continue;
+        }
+        expect(path!.distance).toBe(expected.get(node)!);
+        expect(path!.path[0]).toBe(nodes[0]!);
+        expect(path!.path[path!.distance]).toBe(node);
+        expectFollowPath(follows, path!);
+      }
+    }
+  });
+
+  it("should rebuild root tables stored without parents", async () => {
+    const instance = await DuckDBInstance.create(":memory:");
+    const connection = await instance.connect();
+    await connection.run(`
+      CREATE TABLE nsd_root_distances (
+        pubkey VARCHAR(64) PRIMARY KEY,
+        distance INTEGER NOT NULL
+      )
+    `);
+    await connection.run(
+      `INSERT INTO nsd_root_distances VALUES ('${TEST_PUBKEYS.adam}', 0)`,
+    );
+
+    const connected = await DuckDBSocialGraphAnalyzer.connect(connection);
+    try {
+      await connected.ingestEvent(
+        createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1000),
+      );
+      await connection.run(`
+        INSERT OR REPLACE INTO nsd_metadata VALUES
+          ('root_pubkey', '${TEST_PUBKEYS.adam}'),
+          ('root_depth', '6')
+      `);
+
+      await connected.setRootPubkey(TEST_PUBKEYS.adam);
+      expect(
+        await connected.getShortestPath(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob),
+      ).toEqual({ path: [TEST_PUBKEYS.adam, TEST_PUBKEYS.bob], distance: 1 });
+    } finally {
+      await connected.close();
+      connection.closeSync();
+      instance.closeSync();
+    }
+  });
+});
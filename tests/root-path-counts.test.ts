@@ -0,0 +1,183 @@
+/**
+ * Tests for parent and shortest path counts in the root distances tables
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type { RootDistanceDirection } from "../src/types.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+function pubkey(n: number): string {
+  return n.toString(16).padStart(64, "0");
+}
+
+/**
+ * Reference BFS counting parents and shortest paths, capped at maxDepth
+ */
+function referenceCounts(
+  edges: Map<string, string[]>,
+  root: string,
+  maxDepth: number,
+): Map<string, { distance: number; parents: number; paths: number }> {
+  const counts = new Map([[root, { distance: 0, parents: 0, paths: 1 }]]);
+  const queue = [root];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    const { distance, paths } = counts.get(node)!;
+    if (distance === maxDepth) continue;
+    for (const next of edges.get(node) ?? []) {
+      const existing = counts.get(next);
+      if (!existing) {
+        counts.set(next, { distance: distance + 1, parents: 1, paths });
+        queue.push(next);
+      } else if (existing.distance === distance + 1) {
+        existing.parents++;
+        existing.paths += paths;
+      }
+    }
+  }
+  return counts;
+}
+
+function reverseEdges(follows: Map<string, string[]>): Map<string, string[]> {
+  const reversed = new Map<string, string[]>();
+  for (const [follower, followed] of follows) {
+    for (const target of followed) {
+      if (!reversed.has(target)) reversed.set(target, []);
+      reversed.get(target)!.push(follower);
+    }
+  }
+  return reversed;
+}
+
+describe("Root Path Counts", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should count parents and shortest paths from the root", async () => {
+    // adam -> fiatjaf|bob|alice, all three -> snowden, fiatjaf|bob -> 1 -> 2
+    await analyzer.ingestEvents([
+      createMockKind3Event(
+        TEST_PUBKEYS.adam,
+        [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob, TEST_PUBKEYS.alice],
+        1000,
+      ),
+      createMockKind3Event(
+        TEST_PUBKEYS.fiatjaf,
+        [TEST_PUBKEYS.snowden, pubkey(1)],
+        1000,
+      ),
+      createMockKind3Event(
+        TEST_PUBKEYS.bob,
+        [TEST_PUBKEYS.snowden, pubkey(1)],
+        1000,
+      ),
+      createMockKind3Event(TEST_PUBKEYS.alice, [TEST_PUBKEYS.snowden], 1000),
+      createMockKind3Event(TEST_PUBKEYS.snowden, [pubkey(2)], 1000),
+      createMockKind3Event(pubkey(1), [pubkey(2)], 1000),
+    ]);
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+
+    expect(
+      await analyzer.getRootPathCounts(TEST_PUBKEYS.snowden.toUpperCase()),
+    ).toEqual({ distance: 2, parents: 3, paths: 3 });
+    expect(await analyzer.getRootPathCounts(pubkey(2))).toEqual({
+      distance: 3,
+      parents: 2,
+      paths: 5,
+    });
+    expect(await analyzer.getRootPathCounts(TEST_PUBKEYS.adam)).toEqual({
+      distance: 0,
+      parents: 0,
+      paths: 1,
+    });
+    expect(await analyzer.getRootPathCounts(pubkey(3))).toBeNull();
+
+    // Counting from the root matches the search
+    expect(
+      await analyzer.countShortestPaths(TEST_PUBKEYS.adam, pubkey(2)),
+    ).toBe(5);
+    expect(
+      await analyzer.countShortestPaths(TEST_PUBKEYS.fiatjaf, pubkey(2)),
+    ).toBe(2);
+
+    // alice drops snowden
+    await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.alice, [pubkey(1)], 1001),
+    );
+    expect(await analyzer.getRootPathCounts(pubkey(2))).toEqual({
+      distance: 3,
+      parents: 2,
+      paths: 5,
+    });
+    expect(await analyzer.getRootPathCounts(TEST_PUBKEYS.snowden)).toEqual({
+      distance: 2,
+      parents: 2,
+      paths: 2,
+    });
+  });
+
+  it("should keep delta-maintained counts equal to a reference", async () => {
+    let seed = 17;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    const nodes = Array.from({ length: 25 }, (_, i) => pubkey(i + 1));
+    const follows = new Map<string, string[]>();
+    const randomFollowList = (author: string) => {
+      const list = nodes.filter((node) => node !== author && random() < 0.15);
+      follows.set(author, list);
+      return list;
+    };
+
+    let timestamp = 1000;
+    await analyzer.ingestEvents(
+      nodes.map((node) =>
+        createMockKind3Event(node, randomFollowList(node), timestamp++),
+      ),
+    );
+    await analyzer.setRootPubkey(nodes[0]!);
+    await analyzer.getInboundDistanceToRoot(nodes[0]!);
+
+    for (let round = 0; round < 8; round++) {
+      const authors = nodes.filter(() => random() < 0.2);
+      if (round % 3 === 0) {
+        authors.push(nodes[0]!);
+      }
+      await analyzer.ingestEvents(
+        authors.map((author) =>
+          createMockKind3Event(author, randomFollowList(author), timestamp++),
+        ),
+      );
+
+      for (const [direction, edges] of [
+        ["outbound", follows],
+        ["inbound", reverseEdges(follows)],
+      ] as [RootDistanceDirection, Map<string, string[]>][]) {
+        const expected = referenceCounts(edges, nodes[0]!, 6);
+        for (const node of nodes) {
+          expect(await analyzer.getRootPathCounts(node, direction)).toEqual(
+            expected.get(node) ?? null,
+          );
+        }
+      }
+    }
+  });
+
+  it("should require a root pubkey", async () => {
+    await expect(analyzer.getRootPathCounts(TEST_PUBKEYS.bob)).rejects.toThrow(
+      "Root pubkey must be set",
+    );
+  });
+});
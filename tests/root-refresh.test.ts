@@ -0,0 +1,246 @@
+/**
+ * Tests for refreshing persisted root tables changed by other processes
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type {
+  NostrEvent,
+  RootDistanceDirection,
+  RootRefreshPolicy,
+} from "../src/types.js";
+import {
+  TEST_PUBKEYS,
+  createMockKind3Event,
+  createMockKind10000Event,
+} from "./test-utils.js";
+
+function pubkey(n: number): string {
+  return n.toString(16).padStart(64, "0");
+}
+
+/**
+ * Reference BFS counting parents and shortest paths, capped at maxDepth
+ */
+function referenceCounts(
+  edges: Map<string, string[]>,
+  root: string,
+  maxDepth: number,
+): Map<string, { distance: number; parents: number; paths: number }> {
+  const counts = new Map([[root, { distance: 0, parents: 0, paths: 1 }]]);
+  const queue = [root];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    const { distance, paths } = counts.get(node)!;
+    if (distance === maxDepth) continue;
+    for (const next of edges.get(node) ?? []) {
+      const existing = counts.get(next);
+      if (!existing) {
+        counts.set(next, { distance: distance + 1, parents: 1, paths });
+        queue.push(next);
+      } else if (existing.distance === distance + 1) {
+        existing.parents++;
+        existing.paths += paths;
+      }
+    }
+  }
+  return counts;
+}
+
+function reverseEdges(follows: Map<string, string[]>): Map<string, string[]> {
+  const reversed = new Map<string, string[]>();
+  for (const [follower, followed] of follows) {
+    for (const target of followed) {
+      if (!reversed.has(target)) reversed.set(target, []);
+      reversed.get(target)!.push(follower);
+    }
+  }
+  return reversed;
+}
+
+describe("Root Refresh", () => {
+  let tempDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "nsd-refresh-"));
+    dbPath = join(tempDir, "graph.db");
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Ingests events with an analyzer that has no root, like another process would
+   */
+  async function ingestElsewhere(events: NostrEvent[]): Promise<void> {
+    const other = await DuckDBSocialGraphAnalyzer.create({ dbPath });
+    await other.ingestEvents(events);
+    await other.close();
+  }
+
+  /**
+   * adam -> fiatjaf -> bob, later fiatjaf -> alice instead
+   */
+  async function distancesAfterRefresh(
+    rootRefresh?: RootRefreshPolicy,
+  ): Promise<(number | null)[]> {
+    const first = await DuckDBSocialGraphAnalyzer.create({
+      dbPath,
+      rootPubkey: TEST_PUBKEYS.adam,
+    });
+    await first.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.bob], 1000),
+    ]);
+    await first.close();
+
+    await ingestElsewhere([
+      createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.alice], 1001),
+    ]);
+
+    const analyzer = await DuckDBSocialGraphAnalyzer.create({
+      dbPath,
+      rootPubkey: TEST_PUBKEYS.adam,
+      rootRefresh,
+    });
+    try {
+      return [
+        await analyzer.getShortestDistance(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob),
+        await analyzer.getShortestDistance(
+          TEST_PUBKEYS.adam,
+          TEST_PUBKEYS.alice,
+        ),
+      ];
+    } finally {
+      await analyzer.close();
+    }
+  }
+
+  it("should rebuild stale root tables by default", async () => {
+    expect(await distancesAfterRefresh()).toEqual([null, 2]);
+  });
+
+  it("should replay changed follow lists", async () => {
+    expect(await distancesAfterRefresh("delta-since-last-build")).toEqual([
+      null,
+      2,
+    ]);
+  });
+
+  it("should trust stale tables when asked to", async () => {
+    expect(await distancesAfterRefresh("reuse")).toEqual([2, null]);
+  });
+
+  it("should not rebuild after ingestion that leaves follows unchanged", async () => {
+    const first = await DuckDBSocialGraphAnalyzer.create({
+      dbPath,
+      rootPubkey: TEST_PUBKEYS.adam,
+    });
+    await first.ingestEvents([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+    ]);
+    await first.close();
+
+    // A stale follow list and a mute list
+    await ingestElsewhere([
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 900),
+      createMockKind10000Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.bob], 1000),
+    ]);
+
+    const messages: string[] = [];
+    const record = (message: string) => {
+      messages.push(message);
+    };
+    const analyzer = await DuckDBSocialGraphAnalyzer.create({
+      dbPath,
+      rootPubkey: TEST_PUBKEYS.adam,
+      logger: { debug: record, info: record, warn: record, error: record },
+    });
+    try {
+      expect(
+        messages.filter((message) => message.includes("rebuilding")),
+      ).toEqual([]);
+      expect(
+        await analyzer.getShortestDistance(
+          TEST_PUBKEYS.adam,
+          TEST_PUBKEYS.fiatjaf,
+        ),
+      ).toBe(1);
+    } finally {
+      await analyzer.close();
+    }
+  });
+
+  it("should match a reference after replaying many changes", async () => {
+    let seed = 21;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    const nodes = Array.from({ length: 25 }, (_, i) => pubkey(i + 1));
+    const follows = new Map<string, string[]>();
+    const randomFollowList = (author: string) => {
+      const list = nodes.filter((node) => node !== author && random() < 0.15);
+      follows.set(author, list);
+      return list;
+    };
+
+    let timestamp = 1000;
+    const first = await DuckDBSocialGraphAnalyzer.create({ dbPath });
+    await first.ingestEvents(
+      nodes.map((node) =>
+        createMockKind3Event(node, randomFollowList(node), timestamp++),
+      ),
+    );
+    await first.setRootPubkey(nodes[0]!);
+    await first.getInboundDistanceToRoot(nodes[0]!);
+    await first.close();
+
+    for (let round = 0; round < 4; round++) {
+      const authors = nodes.filter(() => random() < 0.3);
+      if (round % 2 === 0) {
+        authors.push(nodes[0]!);
+      }
+      await ingestElsewhere(
+        authors.map((author) =>
+          createMockKind3Event(author, randomFollowList(author), timestamp++),
+        ),
+      );
+
+      const analyzer = await DuckDBSocialGraphAnalyzer.create({
+        dbPath,
+        rootPubkey: nodes[0]!,
+        rootRefresh: "delta-since-last-build",
+      });
+      try {
+        for (const [direction, edges] of [
+          ["outbound", follows],
+          ["inbound", reverseEdges(follows)],
+        ] as [RootDistanceDirection, Map<string, string[]>][]) {
+          const expected = referenceCounts(edges, nodes[0]!, 6);
+          for (const node of nodes) {
+            expect(await analyzer.getRootPathCounts(node, direction)).toEqual(
+              expected.get(node) ?? null,
+            );
+          }
+        }
+      } finally {
+        await analyzer.close();
+      }
+    }
+  });
+
+  it("should reject unknown policies", async () => {
+    await expect(
+      DuckDBSocialGraphAnalyzer.create({
+        rootRefresh: "sometimes" as RootRefreshPolicy,
+      }),
+    ).rejects.toThrow("rootRefresh must be");
+  });
+});
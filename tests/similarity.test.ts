@@ -0,0 +1,175 @@
+/**
+ * Tests for common followers, common follows and similarity scores
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+const CAROL = "1".repeat(64);
+
+/**
+ * adam follows fiatjaf, bob, alice and snowden
+ * bob follows fiatjaf, alice and carol
+ * alice follows fiatjaf and snowden
+ * carol follows fiatjaf
+ */
+function createSimilarityGraph() {
+  return [
+    createMockKind3Event(
+      TEST_PUBKEYS.adam,
+      [
+        TEST_PUBKEYS.fiatjaf,
+        TEST_PUBKEYS.bob,
+        TEST_PUBKEYS.alice,
+        TEST_PUBKEYS.snowden,
+      ],
+      1000,
+    ),
+    createMockKind3Event(
+      TEST_PUBKEYS.bob,
+      [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.alice, CAROL],
+      1000,
+    ),
+    createMockKind3Event(
+      TEST_PUBKEYS.alice,
+      [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.snowden],
+      1000,
+    ),
+    createMockKind3Event(CAROL, [TEST_PUBKEYS.fiatjaf], 1000),
+  ];
+}
+
+describe("Similarity", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  beforeEach(async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+    await analyzer.ingestEvents(createSimilarityGraph());
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should list common follows and followers with totals", async () => {
+    const following = await analyzer.getCommonFollowing(
+      TEST_PUBKEYS.adam.toUpperCase(),
+      TEST_PUBKEYS.bob,
+    );
+    expect(following).toEqual({
+      pubkeys: [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.alice].sort(),
+      nextCursor: null,
+      total: 2,
+    });
+
+    const first = await analyzer.getCommonFollowers(
+      TEST_PUBKEYS.fiatjaf,
+      TEST_PUBKEYS.alice,
+      { limit: 1 },
+    );
+    expect(first.total).toBe(2);
+    expect(first.nextCursor).not.toBeNull();
+    const second = await analyzer.getCommonFollowers(
+      TEST_PUBKEYS.fiatjaf,
+      TEST_PUBKEYS.alice,
+      { limit: 1, cursor: first.nextCursor! },
+    );
+    expect(second.nextCursor).toBeNull();
+    expect([...first.pubkeys, ...second.pubkeys]).toEqual(
+      [TEST_PUBKEYS.adam, TEST_PUBKEYS.bob].sort(),
+    );
+
+    expect(
+      await analyzer.getCommonFollowers(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob),
+    ).toEqual({ pubkeys: [], nextCursor: null, total: 0 });
+  });
+
+  it("should compute similarity metrics between two pubkeys", async () => {
+    const similarity = await analyzer.getSimilarity(
+      TEST_PUBKEYS.adam,
+      TEST_PUBKEYS.bob,
+    );
+
+    // Common: fiatjaf (4 followers) and alice (2 followers)
+    expect(similarity.sizeA).toBe(4);
+    expect(similarity.sizeB).toBe(3);
+    expect(similarity.common).toBe(2);
+    expect(similarity.jaccard).toBeCloseTo(2 / 5, 12);
+    expect(similarity.cosine).toBeCloseTo(2 / Math.sqrt(12), 12);
+    expect(similarity.adamicAdar).toBeCloseTo(
+      1 / Math.log(4) + 1 / Math.log(2),
+      12,
+    );
+
+    const followers = await analyzer.getSimilarity(
+      TEST_PUBKEYS.fiatjaf,
+      TEST_PUBKEYS.alice,
+      "followers",
+    );
+    expect(followers.common).toBe(2);
+    expect(followers.jaccard).toBeCloseTo(2 / 4, 12);
+
+    expect(
+      await analyzer.getSimilarity(TEST_PUBKEYS.snowden, TEST_PUBKEYS.fiatjaf),
+    ).toEqual({
+      sizeA: 0,
+      sizeB: 0,
+      common: 0,
+      jaccard: 0,
+      cosine: 0,
+      adamicAdar: 0,
+    });
+  });
+
+  it("should rank the most similar pubkeys", async () => {
+    const jaccard = await analyzer.getMostSimilar(TEST_PUBKEYS.adam);
+    expect(jaccard.map((entry) => entry.pubkey)).toEqual([
+      TEST_PUBKEYS.alice,
+      TEST_PUBKEYS.bob,
+      CAROL,
+    ]);
+    expect(jaccard[0]!.score).toBeCloseTo(2 / 4, 12);
+
+    const cosine = await analyzer.getMostSimilar(TEST_PUBKEYS.adam, 2, {
+      metric: "cosine",
+    });
+    expect(cosine).toHaveLength(2);
+    expect(cosine[1]!.pubkey).toBe(TEST_PUBKEYS.bob);
+    expect(cosine[1]!.score).toBeCloseTo(2 / Math.sqrt(12), 12);
+
+    // Scores match the pairwise computation
+    const adamicAdar = await analyzer.getMostSimilar(TEST_PUBKEYS.adam, 10, {
+      metric: "adamic_adar",
+    });
+    for (const entry of adamicAdar) {
+      const pairwise = await analyzer.getSimilarity(
+        TEST_PUBKEYS.adam,
+        entry.pubkey,
+      );
+      expect(entry.score).toBeCloseTo(pairwise.adamicAdar, 12);
+    }
+  });
+
+  it("should reject invalid options", async () => {
+    await expect(
+      analyzer.getMostSimilar(TEST_PUBKEYS.adam, 10, {
+        metric: "euclidean" as "cosine",
+      }),
+    ).rejects.toThrow("metric must be");
+    await expect(
+      analyzer.getSimilarity(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.bob,
+        "mutes" as "followers",
+      ),
+    ).rejects.toThrow("basis must be");
+    await expect(
+      analyzer.getCommonFollowing(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob, {
+        limit: 0,
+      }),
+    ).rejects.toThrow("limit must be an integer");
+  });
+});
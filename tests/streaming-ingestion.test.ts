@@ -0,0 +1,176 @@
+/**
+ * Tests for streaming ingestion from async iterables and JSONL files
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import type { IngestionProgress, NostrEvent } from "../src/types.js";
+import {
+  TEST_PUBKEYS,
+  createMockKind3Event,
+  createMockKind10000Event,
+} from "./test-utils.js";
+
+async function* toAsyncIterable(
+  events: NostrEvent[],
+): AsyncGenerator<NostrEvent> {
+  for (const event of events) {
+    yield event;
+  }
+}
+
+function filler(count: number): NostrEvent[] {
+  return Array.from({ length: count }, (_, i) =>
+    createMockKind3Event(
+      (i + 1).toString(16).padStart(64, "0"),
+      [TEST_PUBKEYS.bob],
+      1000,
+    ),
+  );
+}
+
+describe("Streaming Ingestion", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "nsd-stream-"));
+  });
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should keep latest-wins semantics across chunks", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+
+    const report = await analyzer.ingestStream(
+      toAsyncIterable([
+        createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 2000),
+        ...filler(150),
+        // Older list in a later chunk must not replace the stored one
+        createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.alice], 1000),
+        ...filler(100).map((event) => ({ ...event, created_at: 500 })),
+        // Newer list in a later chunk replaces it
+        createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.snowden], 3000),
+      ]),
+    );
+
+    expect(report.eventsReceived).toBe(253);
+    expect(report.eventsAccepted).toBe(152);
+    expect(report.eventsRejectedStale).toBe(101);
+    expect(report.followsRemoved).toBe(1);
+    expect(report.affectedPubkeys).toHaveLength(151);
+
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+      ),
+    ).toBe(1);
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.fiatjaf,
+      ),
+    ).toBeNull();
+  });
+
+  it("should update root distances once the stream is exhausted", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create({
+      rootPubkey: TEST_PUBKEYS.adam,
+    });
+    await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+    );
+
+    await analyzer.ingestStream(
+      toAsyncIterable([
+        createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.bob], 1000),
+        ...filler(120),
+        createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.alice], 1000),
+        // Adam drops fiatjaf, so everything reached through fiatjaf moves out of reach
+        createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.snowden], 2000),
+      ]),
+    );
+
+    const deltaDistribution = await analyzer.getDistanceDistribution();
+    await analyzer.rebuildRootDistances();
+    expect(await analyzer.getDistanceDistribution()).toEqual(deltaDistribution);
+
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+      ),
+    ).toBe(1);
+    expect(
+      await analyzer.getShortestDistance(TEST_PUBKEYS.adam, TEST_PUBKEYS.alice),
+    ).toBeNull();
+  });
+
+  it("should report progress with batches counting up across chunks", async () => {
+    const progress: IngestionProgress[] = [];
+    analyzer = await DuckDBSocialGraphAnalyzer.create({
+      onProgress: (update) => progress.push(update),
+    });
+
+    await analyzer.ingestStream(toAsyncIterable(filler(250)));
+
+    expect(progress.map((p) => p.batch)).toEqual([1, 2, 3]);
+    expect(progress.map((p) => p.eventsProcessed)).toEqual([100, 200, 250]);
+  });
+
+  it("should ingest events from a JSONL file", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+
+    const events = [
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.fiatjaf], 1000),
+      createMockKind3Event(TEST_PUBKEYS.fiatjaf, [TEST_PUBKEYS.bob], 1000),
+      createMockKind10000Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.alice], 1000),
+      ...filler(200),
+    ];
+    const path = join(tempDir, "events.jsonl");
+    writeFileSync(
+      path,
+      events.map((event) => JSON.stringify(event)).join("\n") + "\n\n",
+    );
+
+    const report = await analyzer.ingestJsonlFile(path);
+
+    expect(report.eventsReceived).toBe(203);
+    expect(report.eventsAccepted).toBe(203);
+    expect(
+      await analyzer.getShortestDistance(TEST_PUBKEYS.adam, TEST_PUBKEYS.bob),
+    ).toBe(2);
+    expect(await analyzer.isMuted(TEST_PUBKEYS.adam, TEST_PUBKEYS.alice)).toBe(
+      true,
+    );
+  });
+
+  it("should report the line of malformed JSON", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+
+    const path = join(tempDir, "broken.jsonl");
+    writeFileSync(
+      path,
+      [
+        JSON.stringify(
+          createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1000),
+        ),
+        "",
+        "{not json",
+      ].join("\n"),
+    );
+
+    await expect(analyzer.ingestJsonlFile(path)).rejects.toThrow(
+      /Invalid JSON on line 3/,
+    );
+  });
+});
@@ -2,7 +2,10 @@
  * Test utilities for Nostr Social Duck library tests
  */
 
+import { schnorr } from "@noble/curves/secp256k1.js";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils.js";
 import type { NostrEvent } from "../src/types.js";
+import { computeEventId } from "../src/verification.js";
 
 /**
  * Test pubkeys for creating consistent test data
@@ -49,6 +52,47 @@ export function createMockKind3Event(
   };
 }
 
+/**
+ * Creates a mock Kind 10000 (mute list) Nostr event with valid SHA256 event IDs
+ */
+export function createMockKind10000Event(
+  pubkey: string,
+  mutedPubkeys: string[],
+  timestamp: number = Math.floor(Date.now() / 1000),
+): NostrEvent {
+  return {
+    id: generateValidHash(),
+    pubkey,
+    created_at: timestamp,
+    kind: 10000,
+    tags: mutedPubkeys.map((muted) => ["p", muted]),
+    content: "",
+    sig: generateValidHash(),
+  };
+}
+
+/**
+ * Creates a properly signed Kind 3 Nostr event for verification tests
+ */
+export function createSignedKind3Event(
+  secretKey: Uint8Array,
+  followedPubkeys: string[],
+  timestamp: number = Math.floor(Date.now() / 1000),
+): NostrEvent {
+  const event: NostrEvent = {
+    id: "",
+    pubkey: bytesToHex(schnorr.getPublicKey(secretKey)),
+    created_at: timestamp,
+    kind: 3,
+    tags: followedPubkeys.map((followed) => ["p", followed]),
+    content: "",
+    sig: "",
+  };
+  event.id = computeEventId(event);
+  event.sig = bytesToHex(schnorr.sign(hexToBytes(event.id), secretKey));
+  return event;
+}
+
 /**
  * Creates a simple follow chain for testing
  * adam -> fiatjaf -> snowden
@@ -0,0 +1,172 @@
+/**
+ * Tests for trust scores (personalized PageRank seeded at the root pubkey)
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { DuckDBInstance } from "@duckdb/node-api";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import { TEST_PUBKEYS, createMockKind3Event } from "./test-utils.js";
+
+const EXTRA = {
+  carol: "1".repeat(64),
+  dave: "2".repeat(64),
+  erin: "3".repeat(64),
+};
+
+/**
+ * root (adam) follows fiatjaf, bob and alice
+ * fiatjaf, bob and alice all follow snowden; only fiatjaf follows carol
+ * dave follows erin, but nobody trusted follows dave
+ */
+function createTrustGraph() {
+  return [
+    createMockKind3Event(
+      TEST_PUBKEYS.adam,
+      [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob, TEST_PUBKEYS.alice],
+      1000,
+    ),
+    createMockKind3Event(
+      TEST_PUBKEYS.fiatjaf,
+      [TEST_PUBKEYS.snowden, EXTRA.carol],
+      1000,
+    ),
+    createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.snowden], 1000),
+    createMockKind3Event(TEST_PUBKEYS.alice, [TEST_PUBKEYS.snowden], 1000),
+    createMockKind3Event(EXTRA.dave, [EXTRA.erin], 1000),
+  ];
+}
+
+describe("Trust Scores", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+  });
+
+  it("should score pubkeys with more trusted paths higher", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+    await analyzer.ingestEvents(createTrustGraph());
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+
+    // Both are two hops away, but snowden is followed by three friends
+    expect(
+      await analyzer.getShortestDistance(
+        TEST_PUBKEYS.adam,
+        TEST_PUBKEYS.snowden,
+      ),
+    ).toBe(2);
+    expect(
+      await analyzer.getShortestDistance(TEST_PUBKEYS.adam, EXTRA.carol),
+    ).toBe(2);
+
+    const scores = await analyzer.getTrustScoresBatch([
+      TEST_PUBKEYS.adam,
+      TEST_PUBKEYS.snowden,
+      EXTRA.carol,
+      EXTRA.dave,
+      EXTRA.erin,
+    ]);
+
+    expect(scores.get(TEST_PUBKEYS.snowden)!).toBeGreaterThan(
+      scores.get(EXTRA.carol)!,
+    );
+    expect(scores.get(TEST_PUBKEYS.adam)!).toBeGreaterThan(
+      scores.get(TEST_PUBKEYS.snowden)!,
+    );
+    expect(scores.get(EXTRA.dave)).toBe(0);
+    expect(scores.get(EXTRA.erin)).toBe(0);
+  });
+
+  it("should match the closed form on a small graph", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+    await analyzer.ingestEvent(
+      createMockKind3Event(TEST_PUBKEYS.adam, [TEST_PUBKEYS.bob], 1000),
+    );
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+
+    // Bob follows nobody, so his rank returns to the root:
+    // root = (1 - d) + d * bob, bob = d * root, with d = 0.85
+    const d = 0.85;
+    const root = 1 / (1 + d);
+    expect(await analyzer.getTrustScore(TEST_PUBKEYS.adam)).toBeCloseTo(
+      root,
+      5,
+    );
+    expect(await analyzer.getTrustScore(TEST_PUBKEYS.bob)).toBeCloseTo(
+      d * root,
+      5,
+    );
+  });
+
+  it("should include configured trust seeds", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create({
+      trustSeeds: [EXTRA.dave.toUpperCase()],
+    });
+    await analyzer.ingestEvents(createTrustGraph());
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+
+    expect(await analyzer.getTrustScore(EXTRA.erin)).toBeGreaterThan(0);
+  });
+
+  it("should refresh scores after ingestion", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create({
+      rootPubkey: TEST_PUBKEYS.adam,
+    });
+    expect(await analyzer.getTrustScore(TEST_PUBKEYS.snowden)).toBe(0);
+    await analyzer.ingestEvents(createTrustGraph());
+    expect(await analyzer.getTrustScore(TEST_PUBKEYS.snowden)).toBeGreaterThan(
+      0,
+    );
+  });
+
+  it("should compute scores on first use only", async () => {
+    const instance = await DuckDBInstance.create(":memory:");
+    const connection = await instance.connect();
+    const countScores = async () =>
+      Number(
+        (
+          await connection.runAndReadAll(
+            "SELECT (SELECT COUNT(*) FROM nsd_trust_scores) + (SELECT COUNT(*) FROM nsd_wot_scores)",
+          )
+        ).getRows()[0]![0],
+      );
+
+    analyzer = await DuckDBSocialGraphAnalyzer.connect(connection);
+    try {
+      await analyzer.ingestEvents(createTrustGraph());
+      await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+      await analyzer.rebuildRootDistances();
+      expect(await countScores()).toBe(0);
+
+      expect(
+        await analyzer.getTrustScore(TEST_PUBKEYS.snowden),
+      ).toBeGreaterThan(0);
+      expect(await countScores()).toBeGreaterThan(0);
+    } finally {
+      await analyzer.close();
+      connection.closeSync();
+      instance.closeSync();
+    }
+  });
+
+  it("should require a root pubkey", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+
+    await expect(analyzer.getTrustScore(TEST_PUBKEYS.adam)).rejects.toThrow(
+      "Root pubkey must be set",
+    );
+  });
+
+  it("should clear scores with the root distances", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+    await analyzer.ingestEvents(createTrustGraph());
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+    await analyzer.dropRootDistances();
+
+    await expect(analyzer.getTrustScore(TEST_PUBKEYS.adam)).rejects.toThrow(
+      "Root pubkey must be set",
+    );
+  });
+});
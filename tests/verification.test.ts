@@ -0,0 +1,136 @@
+/**
+ * Tests for event id and signature verification
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { schnorr } from "@noble/curves/secp256k1.js";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import { computeEventId, verifyEvent } from "../src/verification.js";
+import {
+  TEST_PUBKEYS,
+  createMockKind3Event,
+  createSignedKind3Event,
+} from "./test-utils.js";
+
+describe("Event Verification", () => {
+  const secretKey = schnorr.utils.randomSecretKey();
+
+  describe("verifyEvent", () => {
+    it("should accept a correctly signed event", () => {
+      const event = createSignedKind3Event(secretKey, [TEST_PUBKEYS.adam]);
+
+      expect(computeEventId(event)).toBe(event.id);
+      expect(verifyEvent(event)).toEqual({ valid: true });
+    });
+
+    it("should reject events whose id does not match their content", () => {
+      const event = createSignedKind3Event(secretKey, [TEST_PUBKEYS.adam]);
+      event.tags.push(["p", TEST_PUBKEYS.bob]);
+
+      const result = verifyEvent(event);
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.reason).toBe("invalid-id");
+      }
+    });
+
+    it("should reject events with a forged signature", () => {
+      const event = createSignedKind3Event(secretKey, [TEST_PUBKEYS.adam]);
+      const otherEvent = createSignedKind3Event(
+        schnorr.utils.randomSecretKey(),
+        [TEST_PUBKEYS.adam],
+      );
+      event.sig = otherEvent.sig;
+
+      const result = verifyEvent(event);
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.reason).toBe("invalid-signature");
+      }
+    });
+
+    it("should reject malformed signatures", () => {
+      const event = createSignedKind3Event(secretKey, [TEST_PUBKEYS.adam]);
+      event.sig = "abc";
+
+      const result = verifyEvent(event);
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.reason).toBe("invalid-signature");
+      }
+    });
+  });
+
+  describe("ingestion with verifySignatures", () => {
+    let analyzer: DuckDBSocialGraphAnalyzer;
+
+    beforeEach(async () => {
+      analyzer = await DuckDBSocialGraphAnalyzer.create({
+        verifySignatures: true,
+      });
+    });
+
+    afterEach(async () => {
+      if (analyzer && !analyzer.isClosed()) {
+        await analyzer.close();
+      }
+    });
+
+    it("should ingest valid events and skip forged ones", async () => {
+      const validEvent = createSignedKind3Event(
+        secretKey,
+        [TEST_PUBKEYS.adam],
+        1000,
+      );
+      const forgedEvent = createMockKind3Event(
+        TEST_PUBKEYS.bob,
+        [TEST_PUBKEYS.alice],
+        1000,
+      );
+
+      await analyzer.ingestEvents([validEvent, forgedEvent]);
+
+      expect(
+        await analyzer.isDirectFollow(validEvent.pubkey, TEST_PUBKEYS.adam),
+      ).toBe(true);
+      expect(await analyzer.pubkeyExists(TEST_PUBKEYS.bob)).toBe(false);
+    });
+
+    it("should not let a forged newer event replace a valid one", async () => {
+      const validEvent = createSignedKind3Event(
+        secretKey,
+        [TEST_PUBKEYS.adam],
+        1000,
+      );
+      const forgedEvent = createSignedKind3Event(
+        secretKey,
+        [TEST_PUBKEYS.bob],
+        2000,
+      );
+      forgedEvent.tags = [["p", TEST_PUBKEYS.alice]];
+
+      await analyzer.ingestEvents([validEvent, forgedEvent]);
+
+      expect(
+        await analyzer.isDirectFollow(validEvent.pubkey, TEST_PUBKEYS.adam),
+      ).toBe(true);
+      expect(
+        await analyzer.isDirectFollow(validEvent.pubkey, TEST_PUBKEYS.alice),
+      ).toBe(false);
+    });
+
+    it("should accept unsigned events when verification is disabled", async () => {
+      const unverified = await DuckDBSocialGraphAnalyzer.create();
+      try {
+        await unverified.ingestEvent(
+          createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.alice], 1000),
+        );
+        expect(
+          await unverified.isDirectFollow(TEST_PUBKEYS.bob, TEST_PUBKEYS.alice),
+        ).toBe(true);
+      } finally {
+        await unverified.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Tests for web-of-trust scores combining follows and mutes
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DuckDBInstance } from "@duckdb/node-api";
+import { DuckDBSocialGraphAnalyzer } from "../src/analyzer.js";
+import {
+  TEST_PUBKEYS,
+  createMockKind3Event,
+  createMockKind10000Event,
+} from "./test-utils.js";
+
+const EXTRA = {
+  carol: "1".repeat(64),
+  dave: "2".repeat(64),
+  erin: "3".repeat(64),
+};
+
+/**
+ * root (adam) follows fiatjaf, bob and alice, and mutes dave
+ * fiatjaf and bob follow snowden, alice mutes snowden; fiatjaf follows carol
+ * dave follows erin, but dave is not within the root distances
+ */
+function createWotGraph() {
+  return [
+    createMockKind3Event(
+      TEST_PUBKEYS.adam,
+      [TEST_PUBKEYS.fiatjaf, TEST_PUBKEYS.bob, TEST_PUBKEYS.alice],
+      1000,
+    ),
+    createMockKind10000Event(TEST_PUBKEYS.adam, [EXTRA.dave], 1000),
+    createMockKind3Event(
+      TEST_PUBKEYS.fiatjaf,
+      [TEST_PUBKEYS.snowden, EXTRA.carol],
+      1000,
+    ),
+    createMockKind3Event(TEST_PUBKEYS.bob, [TEST_PUBKEYS.snowden], 1000),
+    createMockKind10000Event(TEST_PUBKEYS.alice, [TEST_PUBKEYS.snowden], 1000),
+    createMockKind3Event(EXTRA.dave, [EXTRA.erin], 1000),
+  ];
+}
+
+describe("Web-of-Trust Scores", () => {
+  let analyzer: DuckDBSocialGraphAnalyzer;
+  let tempDir: string | null = null;
+
+  afterEach(async () => {
+    if (analyzer && !analyzer.isClosed()) {
+      await analyzer.close();
+    }
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+      tempDir = null;
+    }
+  });
+
+  it("should weigh followers and muters by their distance from the root", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+    await analyzer.ingestEvents(createWotGraph());
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+
+    expect(await analyzer.getWotScore(TEST_PUBKEYS.fiatjaf)).toEqual({
+      pubkey: TEST_PUBKEYS.fiatjaf,
+      score: 1,
+      signals: [{ distance: 0, followers: 1, muters: 0 }],
+    });
+    expect(
+      await analyzer.getWotScore(TEST_PUBKEYS.snowden.toUpperCase()),
+    ).toEqual({
+      pubkey: TEST_PUBKEYS.snowden,
+      score: 0.5,
+      signals: [{ distance: 1, followers: 2, muters: 1 }],
+    });
+    expect((await analyzer.getWotScore(EXTRA.carol)).score).toBe(0.5);
+    expect((await analyzer.getWotScore(EXTRA.dave)).score).toBe(-1);
+    expect(await analyzer.getWotScore(EXTRA.erin)).toEqual({
+      pubkey: EXTRA.erin,
+      score: 0,
+      signals: [],
+    });
+  });
+
+  it("should decide trust against a threshold", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+    await analyzer.ingestEvents(createWotGraph());
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+
+    expect(await analyzer.isTrusted(TEST_PUBKEYS.adam)).toBe(true);
+    expect(await analyzer.isTrusted(TEST_PUBKEYS.snowden)).toBe(true);
+    expect(await analyzer.isTrusted(TEST_PUBKEYS.snowden, 0.5)).toBe(false);
+    expect(await analyzer.isTrusted(EXTRA.dave)).toBe(false);
+    expect(await analyzer.isTrusted(EXTRA.erin)).toBe(false);
+  });
+
+  it("should apply configured weights", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create({
+      wot: { distanceDecay: 1, muteWeight: 2 },
+    });
+    await analyzer.ingestEvents(createWotGraph());
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+
+    expect((await analyzer.getWotScore(TEST_PUBKEYS.snowden)).score).toBe(0);
+    expect((await analyzer.getWotScore(EXTRA.dave)).score).toBe(-2);
+  });
+
+  it("should reject invalid options", async () => {
+    await expect(
+      DuckDBSocialGraphAnalyzer.create({ wot: { distanceDecay: 0 } }),
+    ).rejects.toThrow("distanceDecay");
+    await expect(
+      DuckDBSocialGraphAnalyzer.create({ wot: { muteWeight: -1 } }),
+    ).rejects.toThrow("muteWeight");
+  });
+
+  it("should refresh scores after ingestion", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create({
+      rootPubkey: TEST_PUBKEYS.adam,
+    });
+    expect(await analyzer.isTrusted(TEST_PUBKEYS.fiatjaf)).toBe(false);
+    await analyzer.ingestEvents(createWotGraph());
+    expect(await analyzer.isTrusted(TEST_PUBKEYS.fiatjaf)).toBe(true);
+  });
+
+  it("should refresh scores after new mute lists", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+    await analyzer.ingestEvents(createWotGraph());
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+    expect((await analyzer.getWotScore(EXTRA.carol)).score).toBe(0.5);
+
+    // bob mutes carol, leaving the follow graph untouched
+    await analyzer.ingestEvent(
+      createMockKind10000Event(TEST_PUBKEYS.bob, [EXTRA.carol], 1000),
+    );
+    expect((await analyzer.getWotScore(EXTRA.carol)).score).toBe(0);
+
+    // Bulk imported mute lists too: fiatjaf mutes carol
+    tempDir = mkdtempSync(join(tmpdir(), "nsd-wot-"));
+    const path = join(tempDir, "mutes.jsonl");
+    writeFileSync(
+      path,
+      JSON.stringify(
+        createMockKind10000Event(TEST_PUBKEYS.fiatjaf, [EXTRA.carol], 1000),
+      ) + "\n",
+    );
+    await analyzer.importFromFile(path);
+    expect((await analyzer.getWotScore(EXTRA.carol)).score).toBe(-0.5);
+  });
+
+  it("should rebuild stale root distances before scoring", async () => {
+    const instance = await DuckDBInstance.create(":memory:");
+    const connection = await instance.connect();
+    const errors: string[] = [];
+    const ignore = () => {};
+    analyzer = await DuckDBSocialGraphAnalyzer.connect(connection, {
+      logger: {
+        debug: ignore,
+        info: ignore,
+        warn: ignore,
+        error: (message) => errors.push(message),
+      },
+    });
+    try {
+      await analyzer.ingestEvents(createWotGraph());
+      await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+      expect((await analyzer.getWotScore(EXTRA.carol)).score).toBe(0.5);
+
+      // Occupy a name the delta update needs for its scratch tables
+      await connection.run(
+        "CREATE TEMPORARY VIEW nsd_delta_affected AS SELECT 1 AS pubkey",
+      );
+      // adam unfollows fiatjaf, the only follower of carol
+      await analyzer.ingestEvent(
+        createMockKind3Event(
+          TEST_PUBKEYS.adam,
+          [TEST_PUBKEYS.bob, TEST_PUBKEYS.alice],
+          1001,
+        ),
+      );
+      expect(errors).toContain(
+        "Delta update failed, marking root table as invalid:",
+      );
+
+      expect(await analyzer.getWotScore(EXTRA.carol)).toEqual({
+        pubkey: EXTRA.carol,
+        score: 0,
+        signals: [],
+      });
+      expect((await analyzer.getWotScore(TEST_PUBKEYS.snowden)).score).toBe(0);
+    } finally {
+      await analyzer.close();
+      connection.closeSync();
+      instance.closeSync();
+    }
+  });
+
+  it("should recompute persisted scores when the options change", async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "nsd-wot-"));
+    const dbPath = join(tempDir, "graph.db");
+
+    analyzer = await DuckDBSocialGraphAnalyzer.create({ dbPath });
+    await analyzer.ingestEvents(createWotGraph());
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+    await analyzer.close();
+
+    analyzer = await DuckDBSocialGraphAnalyzer.create({
+      dbPath,
+      rootPubkey: TEST_PUBKEYS.adam,
+    });
+    expect((await analyzer.getWotScore(TEST_PUBKEYS.snowden)).score).toBe(0.5);
+    await analyzer.close();
+
+    analyzer = await DuckDBSocialGraphAnalyzer.create({
+      dbPath,
+      rootPubkey: TEST_PUBKEYS.adam,
+      wot: { muteWeight: 2 },
+    });
+    expect((await analyzer.getWotScore(TEST_PUBKEYS.snowden)).score).toBe(0);
+  });
+
+  it("should require a root pubkey and clear scores with the root distances", async () => {
+    analyzer = await DuckDBSocialGraphAnalyzer.create();
+    await expect(analyzer.isTrusted(TEST_PUBKEYS.adam)).rejects.toThrow(
+      "Root pubkey must be set",
+    );
+
+    await analyzer.ingestEvents(createWotGraph());
+    await analyzer.setRootPubkey(TEST_PUBKEYS.adam);
+    await analyzer.dropRootDistances();
+
+    await expect(analyzer.getWotScore(TEST_PUBKEYS.fiatjaf)).rejects.toThrow(
+      "Root pubkey must be set",
+    );
+  });
+});